@@ -1,20 +1,63 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { apiClient } from '../services/api';
+import type { EquityPoint, HistoryInterval } from '../types';
+
+// Lookback window shown for each bucket size
+const RANGE_MS: Record<HistoryInterval, number> = {
+  '1m': 6 * 60 * 60 * 1000,
+  '1h': 7 * 24 * 60 * 60 * 1000,
+  '1d': 90 * 24 * 60 * 60 * 1000,
+};
+
+function formatTime(timestamp: number, interval: HistoryInterval) {
+  const date = new Date(timestamp);
+  if (interval === '1d') {
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  }
+  if (interval === '1h') {
+    return `${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} ${date.getHours()}:00`;
+  }
+  return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
+}
+
+function PortfolioChart({ interval = '1h' }: { interval?: HistoryInterval }) {
+  const [points, setPoints] = useState<EquityPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const to = Date.now();
+    setLoading(true);
+    apiClient
+      .getPortfolioHistory({ from: to - RANGE_MS[interval], to, interval })
+      .then((data) => {
+        if (!cancelled) setPoints(data.points || []);
+      })
+      .catch((err) => {
+        console.error('Failed to load portfolio history:', err);
+        if (!cancelled) setPoints([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [interval]);
+
+  if (loading) {
+    return <div className="loading" style={{ height: 300 }}>Loading history...</div>;
+  }
+  if (points.length === 0) {
+    return <div className="empty-state" style={{ height: 300 }}>No portfolio history yet</div>;
+  }
+
+  const data = points.map((p) => ({ time: formatTime(p.timestamp, interval), value: p.totalNetEquity }));
 
-// Mock data - replace with real data from API
-const mockData = [
-  { time: '00:00', value: 100000 },
-  { time: '04:00', value: 102500 },
-  { time: '08:00', value: 101200 },
-  { time: '12:00', value: 103800 },
-  { time: '16:00', value: 104500 },
-  { time: '20:00', value: 105200 },
-];
-
-function PortfolioChart() {
   return (
     <ResponsiveContainer width="100%" height={300}>
-      <LineChart data={mockData} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+      <LineChart data={data} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
         <CartesianGrid strokeDasharray="3 3" stroke="#2a2d3a" />
         <XAxis
           dataKey="time"
@@ -24,6 +67,7 @@ function PortfolioChart() {
         <YAxis
           stroke="#6b7280"
           style={{ fontSize: '12px' }}
+          domain={['auto', 'auto']}
           tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
         />
         <Tooltip
@@ -1,23 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { useWebSocket } from '../hooks/useWebSocket';
+import { apiClient } from '../services/api';
+import type { AlertEvent } from '../types';
 import './Alerts.css';
 
-interface AlertEvent {
-  type: 'large_balance_change' | 'large_position_opening' | 'rapid_drawdown' | 'connection_lost';
-  severity: 'info' | 'warning' | 'critical';
-  message: string;
-  exchange?: string;
-  timestamp: number;
-  data?: any;
-}
-
 function Alerts() {
   const [alerts, setAlerts] = useState<AlertEvent[]>([]);
   const [loading, setLoading] = useState(true);
+  const [severity, setSeverity] = useState('');
 
   const { send, isConnected } = useWebSocket((data) => {
     if (data.type === 'alert') {
-      setAlerts((prev) => [data.data, ...prev]);
+      const alert = data.data as AlertEvent;
+      if (!severity || alert.severity === severity) {
+        setAlerts((prev) => [alert, ...prev]);
+      }
     }
   });
 
@@ -34,51 +31,38 @@ function Alerts() {
   }, [isConnected, send]);
 
   useEffect(() => {
-    // Initial mock data - replace with API call if needed
-    setAlerts([
-      {
-        type: 'large_balance_change',
-        severity: 'warning',
-        message: 'Large balance change detected: BTC on Binance. Change: $10,000.00 (5.2%)',
-        exchange: 'binance',
-        timestamp: Date.now() - 1800000,
-        data: {
-          asset: 'BTC',
-          previousValue: 190000,
-          currentValue: 200000,
-          change: 10000,
-          changePercent: 5.2,
-        },
-      },
-      {
-        type: 'large_position_opening',
-        severity: 'info',
-        message: 'Large position opened: ETH/USDT LONG on Bybit. Value: $50,000.00',
-        exchange: 'bybit',
-        timestamp: Date.now() - 3600000,
-        data: {
-          symbol: 'ETH/USDT',
-          side: 'long',
-          size: 20,
-          value: 50000,
-          leverage: 10,
-        },
-      },
-      {
-        type: 'rapid_drawdown',
-        severity: 'critical',
-        message: 'Rapid drawdown detected: Portfolio decreased by -5.2%',
-        timestamp: Date.now() - 7200000,
-        data: {
-          previousEquity: 100000,
-          currentEquity: 94800,
-          change: -5200,
-          changePercent: -5.2,
-        },
-      },
-    ]);
-    setLoading(false);
-  }, []);
+    setLoading(true);
+    apiClient
+      .getAlerts({ severity: severity || undefined, limit: 200 })
+      .then((data) => setAlerts(data.alerts || []))
+      .catch((err) => {
+        console.error('Failed to load alerts:', err);
+        setAlerts([]);
+      })
+      .finally(() => setLoading(false));
+  }, [severity]);
+
+  const updateAlert = (updated: AlertEvent) => {
+    setAlerts((prev) => prev.map((a) => (a.id === updated.id ? updated : a)));
+  };
+
+  const handleAck = async (id: number) => {
+    try {
+      const data = await apiClient.acknowledgeAlert(id);
+      updateAlert(data.alert);
+    } catch (err) {
+      console.error('Failed to acknowledge alert:', err);
+    }
+  };
+
+  const handleResolve = async (id: number) => {
+    try {
+      const data = await apiClient.resolveAlert(id);
+      updateAlert(data.alert);
+    } catch (err) {
+      console.error('Failed to resolve alert:', err);
+    }
+  };
 
   const getSeverityIcon = (severity: string) => {
     switch (severity) {
@@ -109,8 +93,16 @@ function Alerts() {
     <div className="alerts-page">
       <div className="page-header">
         <h1>Alerts</h1>
-        <div className="page-summary">
-          Total: <strong>{alerts.length}</strong>
+        <div className="alerts-controls">
+          <select value={severity} onChange={(e) => setSeverity(e.target.value)}>
+            <option value="">All severities</option>
+            <option value="critical">Critical</option>
+            <option value="warning">Warning</option>
+            <option value="info">Info</option>
+          </select>
+          <div className="page-summary">
+            Total: <strong>{alerts.length}</strong>
+          </div>
         </div>
       </div>
       <div className="alerts-list">
@@ -118,7 +110,10 @@ function Alerts() {
           <div className="empty-state">No alerts</div>
         ) : (
           alerts.map((alert, index) => (
-            <div key={index} className={getSeverityClass(alert.severity)}>
+            <div
+              key={alert.id ?? `live-${index}`}
+              className={`${getSeverityClass(alert.severity)} ${alert.acknowledgedAt ? 'alert-acknowledged' : ''}`}
+            >
               <div className="alert-header">
                 <span className="alert-icon">{getSeverityIcon(alert.severity)}</span>
                 <div className="alert-meta">
@@ -135,6 +130,24 @@ function Alerts() {
                     })}
                   </span>
                 </div>
+                {alert.id !== undefined && (
+                  <div className="alert-actions">
+                    {alert.resolvedAt ? (
+                      <span className="alert-status">Resolved</span>
+                    ) : (
+                      <>
+                        {!alert.acknowledgedAt && (
+                          <button type="button" className="alert-btn" onClick={() => handleAck(alert.id!)}>
+                            Ack
+                          </button>
+                        )}
+                        <button type="button" className="alert-btn" onClick={() => handleResolve(alert.id!)}>
+                          Resolve
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
               </div>
               <div className="alert-message">{alert.message}</div>
             </div>
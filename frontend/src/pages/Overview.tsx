@@ -4,7 +4,8 @@ import StatCard from '../components/StatCard';
 import AssetAllocationChart from '../components/AssetAllocationChart';
 import ExchangeAllocationPie from '../components/ExchangeAllocationPie';
 import RecentActivityTable from '../components/RecentActivityTable';
-import type { PortfolioSnapshot, AssetAllocation, ExchangeAllocation } from '../types';
+import PortfolioChart from '../components/PortfolioChart';
+import type { PortfolioSnapshot, AssetAllocation, ExchangeAllocation, HistoryInterval } from '../types';
 import './Overview.css';
 
 export type OverviewTab = 'all' | 'spot' | 'futures';
@@ -182,6 +183,7 @@ function Overview() {
   const { snapshot, loading } = usePortfolio();
   const [tab, setTab] = useState<OverviewTab>('all');
   const [exchangeFilter, setExchangeFilter] = useState<string>('');
+  const [historyInterval, setHistoryInterval] = useState<HistoryInterval>('1h');
 
   const filtered = useMemo(() => {
     if (!snapshot) return null;
@@ -213,6 +215,8 @@ function Overview() {
   const totalEquity = filtered?.totalNetEquity ?? 0;
   const totalPnl = filtered?.totalUnrealizedPnl ?? 0;
   const change24h = filtered?.change24h ?? 0;
+  // Absolute change is only known for the whole portfolio
+  const change24hUsd = !exchangeFilter && tab === 'all' ? snapshot.changes?.['24h']?.usd : undefined;
   const exchangeCount = filtered?.exchangeCount ?? 0;
   const assetAllocation = filtered?.assetAllocation ?? [];
   const exchangeAllocation = filtered?.exchangeAllocation ?? [];
@@ -270,12 +274,35 @@ function Overview() {
         />
         <StatCard
           title="24h Change"
-          value={`${change24h >= 0 ? '+' : ''}${change24h.toFixed(2)}%`}
+          value={
+            change24hUsd !== undefined
+              ? `${change24hUsd >= 0 ? '+' : '-'}$${Math.abs(change24hUsd).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+              : `${change24h >= 0 ? '+' : ''}${change24h.toFixed(2)}%`
+          }
           change={change24h}
         />
         <StatCard title="Exchanges" value={exchangeCount} />
       </div>
 
+      <div className="chart-panel overview-equity">
+        <div className="chart-header">
+          <h3>Equity</h3>
+          <div className="chart-controls">
+            {(['1m', '1h', '1d'] as HistoryInterval[]).map((iv) => (
+              <button
+                key={iv}
+                type="button"
+                className={`chart-btn ${historyInterval === iv ? 'active' : ''}`}
+                onClick={() => setHistoryInterval(iv)}
+              >
+                {iv.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+        <PortfolioChart interval={historyInterval} />
+      </div>
+
       <div className="overview-charts">
         <div className="chart-panel">
           <div className="chart-header">
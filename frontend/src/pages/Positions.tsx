@@ -12,6 +12,8 @@ interface Position {
   markPrice: number;
   unrealizedPnl: number;
   leverage: number;
+  liquidationPrice?: number;
+  marginMode?: 'cross' | 'isolated';
   exchange: string;
 }
 
@@ -95,7 +97,12 @@ function Positions() {
     {
       key: 'leverage',
       header: 'Leverage',
-      render: (item: Position) => `${item.leverage}x`,
+      render: (item: Position) => `${item.leverage}x${item.marginMode ? ` ${item.marginMode}` : ''}`,
+    },
+    {
+      key: 'liquidationPrice',
+      header: 'Liq. Price',
+      render: (item: Position) => (item.liquidationPrice ? `$${item.liquidationPrice.toFixed(2)}` : '-'),
     },
   ];
 
@@ -46,6 +46,34 @@ export const apiClient = {
     return response.data;
   },
 
+  async getPortfolioHistory(params: { from?: number; to?: number; interval?: '1m' | '1h' | '1d' }) {
+    const response = await client.get('/portfolio/history', { params });
+    return response.data;
+  },
+
+  async getAlerts(params?: {
+    severity?: string;
+    type?: string;
+    exchange?: string;
+    from?: number;
+    to?: number;
+    acknowledged?: boolean;
+    limit?: number;
+  }) {
+    const response = await client.get('/alerts', { params });
+    return response.data;
+  },
+
+  async acknowledgeAlert(id: number) {
+    const response = await client.post(`/alerts/${id}/ack`);
+    return response.data;
+  },
+
+  async resolveAlert(id: number) {
+    const response = await client.post(`/alerts/${id}/resolve`);
+    return response.data;
+  },
+
   async getExchanges() {
     const response = await client.get('/exchanges');
     return response.data;
@@ -6,6 +6,8 @@ export interface UnifiedBalance {
   exchange: string;
   timestamp: number;
   accountType?: 'spot' | 'futures';
+  priceSource?: string;
+  priceAge?: number;
 }
 
 export interface UnifiedPosition {
@@ -16,6 +18,8 @@ export interface UnifiedPosition {
   markPrice: number;
   unrealizedPnl: number;
   leverage: number;
+  liquidationPrice?: number;
+  marginMode?: 'cross' | 'isolated';
   exchange: string;
   timestamp: number;
 }
@@ -56,4 +60,33 @@ export interface PortfolioSnapshot {
   positions: UnifiedPosition[];
   balances: UnifiedBalance[];
   change24h?: number;
+  changes?: Partial<Record<ChangeWindow, EquityChange>>;
+}
+
+export type ChangeWindow = '1h' | '24h' | '7d' | '30d';
+
+export interface EquityChange {
+  percent: number;
+  usd: number;
+  referenceTimestamp: number;
+}
+
+export type HistoryInterval = '1m' | '1h' | '1d';
+
+export interface EquityPoint {
+  timestamp: number;
+  totalNetEquity: number;
+  totalUnrealizedPnl: number;
+}
+
+export interface AlertEvent {
+  id?: number;
+  type: string;
+  severity: 'info' | 'warning' | 'critical';
+  message: string;
+  exchange?: string;
+  timestamp: number;
+  data?: any;
+  acknowledgedAt?: number;
+  resolvedAt?: number;
 }
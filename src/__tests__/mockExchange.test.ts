@@ -0,0 +1,120 @@
+/**
+ * Offline end-to-end run: mock exchange -> execution engine -> streamed updates -> portfolio snapshot
+ */
+
+import { MockExchangeConnector } from '../connectors/mock';
+import { PortfolioManager } from '../portfolio/manager';
+import { ExecutionEngine } from '../execution/executor';
+import { RiskManager } from '../execution/riskManager';
+import { EventBus } from '../realtime/eventBus';
+import { RealtimeUpdate } from '../types';
+import { snapshotStore } from '../portfolio/snapshotStore';
+
+// No database: order and snapshot persistence are recorded, not written
+jest.mock('../execution/orderStore', () => ({
+  orderStore: { storeOrder: jest.fn(), updateOrder: jest.fn() },
+}));
+jest.mock('../portfolio/snapshotStore', () => ({
+  snapshotStore: {
+    storeSnapshot: jest.fn(),
+    getClosestSnapshot: jest.fn().mockResolvedValue(null),
+    getSnapshotsInRange: jest.fn().mockResolvedValue([]),
+  },
+}));
+
+const USER_ID = 1;
+
+describe('mock exchange end to end', () => {
+  let exchange: MockExchangeConnector;
+  let portfolioManager: PortfolioManager;
+  let executionEngine: ExecutionEngine;
+  let published: RealtimeUpdate[];
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    exchange = new MockExchangeConnector(undefined, {
+      seed: 7,
+      tickMs: 0,
+      prices: { BTCUSDT: 60000 },
+      balances: { USDT: 10000 },
+    });
+    const eventBus = new EventBus(); // Not initialized: updates reach local listeners only
+    portfolioManager = new PortfolioManager(USER_ID);
+    executionEngine = new ExecutionEngine(portfolioManager, eventBus, USER_ID, new RiskManager());
+    portfolioManager.registerConnector(exchange);
+    executionEngine.registerConnector(exchange);
+
+    published = [];
+    eventBus.onUpdatePublished((update) => published.push(update));
+    await exchange.subscribeRealtimeUpdates((update) => {
+      portfolioManager.applyRealtimeUpdate(update);
+      eventBus.publishUpdate(update, USER_ID);
+    });
+    await portfolioManager.takeSnapshot();
+  });
+
+  afterEach(async () => {
+    await exchange.unsubscribeRealtimeUpdates();
+    jest.restoreAllMocks();
+  });
+
+  it('fills a market buy and reflects it in the next snapshot from live state', async () => {
+    const result = await executionEngine.placeOrder('mock', {
+      symbol: 'BTCUSDT',
+      side: 'buy',
+      type: 'market',
+      quantity: 0.1,
+      market: 'spot',
+    });
+
+    expect(result.status.toLowerCase()).toBe('filled');
+    const trade = published.find((u) => u.type === 'trade')!.data as any;
+    expect(trade).toMatchObject({ symbol: 'BTCUSDT', side: 'buy', quantity: 0.1, exchange: 'mock' });
+    expect(trade.price).toBeCloseTo(60006); // Ask at 2bp spread
+
+    const snapshot = await portfolioManager.takeSnapshot();
+    const btc = snapshot.balances.find((b) => b.asset === 'BTC')!;
+    const usdt = snapshot.balances.find((b) => b.asset === 'USDT')!;
+    expect(btc.total).toBeCloseTo(0.1);
+    expect(btc.usdValue).toBeCloseTo(6000);
+    expect(usdt.total).toBeCloseTo(10000 - 6000.6 - 6.0006);
+    expect(snapshot.partial).toBeUndefined();
+    expect(snapshotStore.storeSnapshot).toHaveBeenLastCalledWith(snapshot, USER_ID);
+  });
+
+  it('rests a limit order with funds locked and fills it when the price crosses', async () => {
+    const result = await executionEngine.placeOrder('mock', {
+      symbol: 'BTCUSDT',
+      side: 'buy',
+      type: 'limit',
+      price: 59000,
+      quantity: 0.1,
+      market: 'spot',
+    });
+    expect(result.status.toLowerCase()).toBe('new');
+
+    expect(await exchange.getOpenOrders('BTCUSDT')).toEqual([expect.objectContaining({ orderId: result.orderId })]);
+    let snapshot = await portfolioManager.takeSnapshot();
+    const locked = snapshot.balances.find((b) => b.asset === 'USDT')!;
+    expect(locked.total).toBeCloseTo(10000);
+    expect(locked.available).toBeCloseTo(10000 - 5900);
+
+    exchange.setPrice('BTCUSDT', 58900);
+
+    expect(await exchange.getOpenOrders('BTCUSDT')).toHaveLength(0);
+    snapshot = await portfolioManager.takeSnapshot();
+    expect(snapshot.balances.find((b) => b.asset === 'BTC')!.total).toBeCloseTo(0.1);
+    expect(published.some((u) => u.type === 'trade' && (u.data as any).orderId === result.orderId)).toBe(true);
+  });
+
+  it('rejects an order the account cannot fund before it reaches the exchange', async () => {
+    const placeOrder = jest.spyOn(exchange, 'placeOrder');
+
+    await expect(
+      executionEngine.placeOrder('mock', { symbol: 'BTCUSDT', side: 'buy', type: 'market', quantity: 1, market: 'spot' })
+    ).rejects.toThrow(/rejected by risk manager/);
+    expect(placeOrder).not.toHaveBeenCalled();
+  });
+});
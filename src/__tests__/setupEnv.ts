@@ -0,0 +1,6 @@
+/**
+ * Test environment: offline defaults read by src/config at import time
+ */
+
+process.env.ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || 'test-encryption-key-0123456789abcdef';
+process.env.MOCK_EXCHANGE_ENABLED = 'true';
@@ -0,0 +1,131 @@
+/**
+ * Alert API routes (protected by JWT; history and rules are per user)
+ */
+
+import { Router, Request, Response } from 'express';
+import { UserContextService } from '../auth/userContextService';
+import { requireAuth } from './jwtMiddleware';
+import { parseAlertRule } from '../realtime/ruleEngine';
+import { getRulesByUserId, createRule, deleteRule } from '../database/alertRules';
+import { getAlerts, acknowledgeAlert, resolveAlert } from '../database/alerts';
+import { AlertQuery } from '../types';
+
+export function createAlertRoutes(userContextService: UserContextService): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  /**
+   * GET /api/alerts?severity&type&exchange&from&to&acknowledged&limit
+   */
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const { severity, type, exchange, from, to, acknowledged, limit } = req.query;
+      if (severity && !['info', 'warning', 'critical'].includes(severity as string)) {
+        return res.status(400).json({ error: "severity must be 'info', 'warning' or 'critical'" });
+      }
+      const query: AlertQuery = {
+        severity: severity as AlertQuery['severity'],
+        type: type as string | undefined,
+        exchange: exchange ? (exchange as string).toLowerCase() : undefined,
+        from: from ? parseInt(from as string, 10) : undefined,
+        to: to ? parseInt(to as string, 10) : undefined,
+        acknowledged: acknowledged !== undefined ? acknowledged === 'true' : undefined,
+        limit: limit ? Math.min(parseInt(limit as string, 10) || 100, 1000) : 100,
+      };
+      if ((query.from !== undefined && isNaN(query.from)) || (query.to !== undefined && isNaN(query.to))) {
+        return res.status(400).json({ error: 'Invalid time range' });
+      }
+      const alerts = await getAlerts(req.userId!, query);
+      res.json({ alerts });
+    } catch (error: any) {
+      console.error('[API] Error listing alerts:', error);
+      res.status(500).json({ error: error.message || 'Failed to list alerts' });
+    }
+  });
+
+  /**
+   * GET /api/alerts/rules
+   */
+  router.get('/rules', async (req: Request, res: Response) => {
+    try {
+      const rules = await getRulesByUserId(req.userId!);
+      res.json({ rules });
+    } catch (error: any) {
+      console.error('[API] Error listing alert rules:', error);
+      res.status(500).json({ error: error.message || 'Failed to list alert rules' });
+    }
+  });
+
+  /**
+   * POST /api/alerts/rules
+   * { type, params: { threshold, symbol?, asset?, exchange?, direction?, unit? }, severity?, cooldownMs?, enabled? }
+   */
+  router.post('/rules', async (req: Request, res: Response) => {
+    try {
+      const userId = req.userId!;
+      const { rule, error } = parseAlertRule(req.body);
+      if (!rule) {
+        return res.status(400).json({ error: 'Invalid alert rule', details: error });
+      }
+      const created = await createRule(userId, rule);
+      await userContextService.reloadAlertRules(userId);
+      res.status(201).json({ success: true, rule: created });
+    } catch (error: any) {
+      console.error('[API] Error creating alert rule:', error);
+      res.status(500).json({ error: error.message || 'Failed to create alert rule' });
+    }
+  });
+
+  /**
+   * DELETE /api/alerts/rules/:id
+   */
+  router.delete('/rules/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = req.userId!;
+      const ruleId = parseInt(req.params.id, 10);
+      if (isNaN(ruleId)) return res.status(400).json({ error: 'Invalid rule id' });
+      const deleted = await deleteRule(userId, ruleId);
+      if (!deleted) return res.status(404).json({ error: 'Alert rule not found' });
+      await userContextService.reloadAlertRules(userId);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[API] Error deleting alert rule:', error);
+      res.status(500).json({ error: error.message || 'Failed to delete alert rule' });
+    }
+  });
+
+  /**
+   * POST /api/alerts/:id/ack
+   */
+  router.post('/:id/ack', async (req: Request, res: Response) => {
+    try {
+      const alertId = parseInt(req.params.id, 10);
+      if (isNaN(alertId)) return res.status(400).json({ error: 'Invalid alert id' });
+      const alert = await acknowledgeAlert(req.userId!, alertId);
+      if (!alert) return res.status(404).json({ error: 'Alert not found' });
+      res.json({ success: true, alert });
+    } catch (error: any) {
+      console.error('[API] Error acknowledging alert:', error);
+      res.status(500).json({ error: error.message || 'Failed to acknowledge alert' });
+    }
+  });
+
+  /**
+   * POST /api/alerts/:id/resolve
+   */
+  router.post('/:id/resolve', async (req: Request, res: Response) => {
+    try {
+      const alertId = parseInt(req.params.id, 10);
+      if (isNaN(alertId)) return res.status(400).json({ error: 'Invalid alert id' });
+      const alert = await resolveAlert(req.userId!, alertId);
+      if (!alert) return res.status(404).json({ error: 'Alert not found' });
+      res.json({ success: true, alert });
+    } catch (error: any) {
+      console.error('[API] Error resolving alert:', error);
+      res.status(500).json({ error: error.message || 'Failed to resolve alert' });
+    }
+  });
+
+  return router;
+}
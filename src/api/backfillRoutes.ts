@@ -0,0 +1,115 @@
+/**
+ * Backfill API routes (protected by JWT; jobs are per user)
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from './jwtMiddleware';
+import { BackfillService } from '../execution/backfillService';
+import { BackfillTarget } from '../types';
+
+const MARKETS = ['spot', 'futures'];
+
+function parseTime(value: any): number | undefined | null {
+  if (value === undefined) return undefined;
+  const time = typeof value === 'number' ? value : new Date(value).getTime();
+  return Number.isFinite(time) ? time : null;
+}
+
+export function createBackfillRoutes(backfillService: BackfillService): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  /**
+   * GET /api/backfill
+   */
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const jobs = await backfillService.getJobs(req.userId!);
+      res.json({ jobs });
+    } catch (error: any) {
+      console.error('[API] Error listing backfill jobs:', error);
+      res.status(500).json({ error: error.message || 'Failed to list backfill jobs' });
+    }
+  });
+
+  /**
+   * POST /api/backfill
+   * { exchange, symbols?: [{ symbol, market: 'spot' | 'futures' }], from?, to? }
+   * from/to are ms timestamps or ISO dates; symbols default to every symbol the account may have traded ('*' = whole market)
+   */
+  router.post('/', async (req: Request, res: Response) => {
+    try {
+      const { exchange, symbols, from, to } = req.body;
+
+      if (!exchange || typeof exchange !== 'string') {
+        return res.status(400).json({ error: 'exchange is required' });
+      }
+      if (
+        symbols !== undefined &&
+        (!Array.isArray(symbols) ||
+          symbols.some((s: any) => !s || typeof s.symbol !== 'string' || !MARKETS.includes(s.market)))
+      ) {
+        return res.status(400).json({ error: `symbols must be an array of { symbol, market: ${MARKETS.join(' | ')} }` });
+      }
+      const startTime = parseTime(from);
+      const endTime = parseTime(to);
+      if (startTime === null || endTime === null) {
+        return res.status(400).json({ error: 'from/to must be timestamps or ISO dates' });
+      }
+
+      const targets: BackfillTarget[] | undefined = symbols?.map((s: any) => ({
+        symbol: s.symbol.replace('/', '').toUpperCase(),
+        market: s.market,
+      }));
+      const job = await backfillService.start(req.userId!, { exchange, targets, from: startTime, to: endTime });
+      res.status(202).json({ job });
+    } catch (error: any) {
+      console.error('[API] Error starting backfill:', error);
+      res.status(400).json({ error: error.message || 'Failed to start backfill' });
+    }
+  });
+
+  /**
+   * GET /api/backfill/:jobId
+   */
+  router.get('/:jobId', async (req: Request, res: Response) => {
+    try {
+      const jobId = parseInt(req.params.jobId, 10);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ error: 'Invalid job id' });
+      }
+      const job = await backfillService.getJob(req.userId!, jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Backfill job not found' });
+      }
+      res.json({ job });
+    } catch (error: any) {
+      console.error('[API] Error fetching backfill job:', error);
+      res.status(500).json({ error: error.message || 'Failed to fetch backfill job' });
+    }
+  });
+
+  /**
+   * POST /api/backfill/:jobId/resume
+   * Restart a failed job from its last checkpoint
+   */
+  router.post('/:jobId/resume', async (req: Request, res: Response) => {
+    try {
+      const jobId = parseInt(req.params.jobId, 10);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ error: 'Invalid job id' });
+      }
+      const job = await backfillService.resume(req.userId!, jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Backfill job not found' });
+      }
+      res.status(202).json({ job });
+    } catch (error: any) {
+      console.error('[API] Error resuming backfill job:', error);
+      res.status(409).json({ error: error.message || 'Failed to resume backfill job' });
+    }
+  });
+
+  return router;
+}
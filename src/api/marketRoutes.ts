@@ -0,0 +1,49 @@
+/**
+ * Market metadata API routes (protected by JWT; served through the user's connectors)
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from './jwtMiddleware';
+import { UserContextService } from '../auth/userContextService';
+import { connectorRegistry } from '../connectors/registry';
+
+export function createMarketRoutes(userContextService: UserContextService): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  /**
+   * GET /api/markets/:exchange/:symbol?market=spot|futures
+   * Trading rules (tick size, lot size, notional and position limits) for a symbol
+   */
+  router.get('/:exchange/:symbol', async (req: Request, res: Response) => {
+    try {
+      const exchange = req.params.exchange.toLowerCase();
+      const market = (req.query.market || 'spot').toString().toLowerCase();
+      if (market !== 'spot' && market !== 'futures') {
+        return res.status(400).json({ error: 'market must be spot or futures' });
+      }
+
+      const executionEngine = await userContextService.getExecutionEngine(req.userId!);
+      const connector = executionEngine.getConnector(exchange);
+      if (!connector) {
+        return res.status(404).json({ error: `Exchange ${exchange} is not connected` });
+      }
+      const rulesConnector = connectorRegistry.withCapability(connector, 'symbolRules');
+      if (!rulesConnector) {
+        return res.status(400).json({ error: `Exchange ${exchange} does not provide symbol rules` });
+      }
+
+      const rules = await rulesConnector.fetchSymbolRules(req.params.symbol, market);
+      if (!rules) {
+        return res.status(404).json({ error: `Unknown ${market} symbol ${req.params.symbol} on ${exchange}` });
+      }
+      res.json(rules);
+    } catch (error: any) {
+      console.error('[API] Error fetching symbol rules:', error);
+      res.status(500).json({ error: error.message || 'Failed to fetch symbol rules' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,98 @@
+/**
+ * Notification API routes (protected by JWT; channel settings are per user)
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from './jwtMiddleware';
+import { NotificationService } from '../notifications/notificationService';
+import { getChannelsByUserId, saveChannel, removeChannel } from '../database/notificationChannels';
+import { NotificationChannelType } from '../types';
+
+const CHANNEL_TYPES: NotificationChannelType[] = ['email'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+
+export function createNotificationRoutes(notificationService: NotificationService): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  /**
+   * GET /api/notifications/channels
+   */
+  router.get('/channels', async (req: Request, res: Response) => {
+    try {
+      const channels = await getChannelsByUserId(req.userId!);
+      res.json({ channels });
+    } catch (error: any) {
+      console.error('[API] Error listing notification channels:', error);
+      res.status(500).json({ error: error.message || 'Failed to list notification channels' });
+    }
+  });
+
+  /**
+   * PUT /api/notifications/channels/:channel
+   * { target, enabled?, digestEnabled? }
+   */
+  router.put('/channels/:channel', async (req: Request, res: Response) => {
+    try {
+      const userId = req.userId!;
+      const channel = req.params.channel as NotificationChannelType;
+      if (!CHANNEL_TYPES.includes(channel)) {
+        return res.status(400).json({ error: `channel must be one of ${CHANNEL_TYPES.join(', ')}` });
+      }
+      const { target, enabled, digestEnabled } = req.body;
+      if (typeof target !== 'string' || !EMAIL_PATTERN.test(target)) {
+        return res.status(400).json({ error: 'target must be a valid email address' });
+      }
+      const settings = await saveChannel(userId, channel, {
+        target: target.trim(),
+        enabled: enabled !== false,
+        digestEnabled: digestEnabled !== false,
+      });
+      notificationService.invalidate(userId);
+      res.json({ success: true, channel: settings });
+    } catch (error: any) {
+      console.error('[API] Error saving notification channel:', error);
+      res.status(500).json({ error: error.message || 'Failed to save notification channel' });
+    }
+  });
+
+  /**
+   * DELETE /api/notifications/channels/:channel
+   */
+  router.delete('/channels/:channel', async (req: Request, res: Response) => {
+    try {
+      const userId = req.userId!;
+      const channel = req.params.channel as NotificationChannelType;
+      if (!CHANNEL_TYPES.includes(channel)) {
+        return res.status(400).json({ error: `channel must be one of ${CHANNEL_TYPES.join(', ')}` });
+      }
+      const removed = await removeChannel(userId, channel);
+      if (!removed) return res.status(404).json({ error: 'Notification channel not found' });
+      notificationService.invalidate(userId);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[API] Error removing notification channel:', error);
+      res.status(500).json({ error: error.message || 'Failed to remove notification channel' });
+    }
+  });
+
+  /**
+   * POST /api/notifications/channels/:channel/test
+   */
+  router.post('/channels/:channel/test', async (req: Request, res: Response) => {
+    const channel = req.params.channel as NotificationChannelType;
+    if (!CHANNEL_TYPES.includes(channel)) {
+      return res.status(400).json({ error: `channel must be one of ${CHANNEL_TYPES.join(', ')}` });
+    }
+    try {
+      await notificationService.sendTest(req.userId!, channel);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[API] Error sending test notification:', error);
+      res.status(400).json({ success: false, error: error.message || 'Failed to send test notification' });
+    }
+  });
+
+  return router;
+}
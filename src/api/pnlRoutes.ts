@@ -0,0 +1,80 @@
+/**
+ * PnL API routes (protected by JWT; computed from the user's stored spot trades)
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from './jwtMiddleware';
+import { UserContextService } from '../auth/userContextService';
+import { loadPnlEngine } from '../portfolio/pnlEngine';
+import { CostBasisMethod } from '../types';
+import { config } from '../config';
+
+const METHODS: CostBasisMethod[] = ['fifo', 'lifo', 'average'];
+
+export function createPnlRoutes(userContextService: UserContextService): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  function parseMethod(value: any): CostBasisMethod | null {
+    const method = (value || config.pnl.defaultMethod).toString().toLowerCase();
+    return METHODS.includes(method) ? method : null;
+  }
+
+  /**
+   * GET /api/pnl/realized?method=fifo|lifo|average&exchange=&asset=&from=&to=
+   */
+  router.get('/realized', async (req: Request, res: Response) => {
+    try {
+      const method = parseMethod(req.query.method);
+      if (!method) {
+        return res.status(400).json({ error: `method must be one of ${METHODS.join(', ')}` });
+      }
+      const exchange = req.query.exchange ? String(req.query.exchange).toLowerCase() : undefined;
+      const asset = req.query.asset ? String(req.query.asset).toUpperCase() : undefined;
+      const from = req.query.from ? parseInt(req.query.from as string, 10) : undefined;
+      const to = req.query.to ? parseInt(req.query.to as string, 10) : undefined;
+
+      const pm = await userContextService.getPortfolioManager(req.userId!);
+      const engine = await loadPnlEngine(req.userId!, method, pm.getPriceService(), exchange);
+      const trades = engine.getRealizedTrades(from, to).filter((t) => !asset || t.asset === asset);
+
+      // Totals per reporting currency
+      const totals: Record<string, { realizedPnl: number; proceeds: number; costBasis: number; fees: number }> = {};
+      trades.forEach((t) => {
+        const total = (totals[t.quote] ||= { realizedPnl: 0, proceeds: 0, costBasis: 0, fees: 0 });
+        total.realizedPnl += t.realizedPnl;
+        total.proceeds += t.proceeds;
+        total.costBasis += t.costBasis;
+        total.fees += t.fee;
+      });
+
+      res.json({ method, trades, totals });
+    } catch (error: any) {
+      console.error('[API] Error computing realized PnL:', error);
+      res.status(500).json({ error: error.message || 'Failed to compute realized PnL' });
+    }
+  });
+
+  /**
+   * GET /api/pnl/cost-basis?method=fifo|lifo|average&exchange=
+   */
+  router.get('/cost-basis', async (req: Request, res: Response) => {
+    try {
+      const method = parseMethod(req.query.method);
+      if (!method) {
+        return res.status(400).json({ error: `method must be one of ${METHODS.join(', ')}` });
+      }
+      const exchange = req.query.exchange ? String(req.query.exchange).toLowerCase() : undefined;
+
+      const pm = await userContextService.getPortfolioManager(req.userId!);
+      const engine = await loadPnlEngine(req.userId!, method, pm.getPriceService(), exchange);
+      res.json({ method, positions: engine.getCostBasis() });
+    } catch (error: any) {
+      console.error('[API] Error computing cost basis:', error);
+      res.status(500).json({ error: error.message || 'Failed to compute cost basis' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,56 @@
+/**
+ * Report API routes (protected by JWT; built from the user's stored trades)
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from './jwtMiddleware';
+import { UserContextService } from '../auth/userContextService';
+import { loadPnlEngine } from '../portfolio/pnlEngine';
+import { buildTaxReport, taxReportToCsv } from '../portfolio/taxReport';
+import { CostBasisMethod } from '../types';
+import { config } from '../config';
+
+const METHODS: CostBasisMethod[] = ['fifo', 'lifo', 'average'];
+
+export function createReportRoutes(userContextService: UserContextService): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  /**
+   * GET /api/reports/tax?year=2025&method=fifo|lifo|average&format=csv|json&exchange=
+   */
+  router.get('/tax', async (req: Request, res: Response) => {
+    try {
+      const year = parseInt(req.query.year as string, 10);
+      if (isNaN(year) || year < 2009 || year > new Date().getUTCFullYear()) {
+        return res.status(400).json({ error: 'year must be a valid past or current year' });
+      }
+      const method = String(req.query.method || config.pnl.defaultMethod).toLowerCase() as CostBasisMethod;
+      if (!METHODS.includes(method)) {
+        return res.status(400).json({ error: `method must be one of ${METHODS.join(', ')}` });
+      }
+      const format = String(req.query.format || 'json').toLowerCase();
+      if (format !== 'csv' && format !== 'json') {
+        return res.status(400).json({ error: 'format must be csv or json' });
+      }
+      const exchange = req.query.exchange ? String(req.query.exchange).toLowerCase() : undefined;
+
+      const pm = await userContextService.getPortfolioManager(req.userId!);
+      const engine = await loadPnlEngine(req.userId!, method, pm.getPriceService(), exchange);
+      const report = buildTaxReport(engine, year, method);
+
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="tax-report-${year}-${method}.csv"`);
+        return res.send(taxReportToCsv(report));
+      }
+      res.json(report);
+    } catch (error: any) {
+      console.error('[API] Error generating tax report:', error);
+      res.status(500).json({ error: error.message || 'Failed to generate tax report' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,215 @@
+/**
+ * Risk API routes (protected by JWT; limits are per user)
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from './jwtMiddleware';
+import { UserContextService } from '../auth/userContextService';
+import { getLimitsByUserId, saveLimits, removeLimits } from '../database/riskLimits';
+import { connectorRegistry } from '../connectors/registry';
+import { RiskLimitEntry } from '../types';
+
+/**
+ * Parse the optional exchange/symbol scope (null if the exchange is unknown)
+ */
+function parseScope(exchange: any, symbol: any): { exchange?: string; symbol?: string } | null {
+  const scope = {
+    exchange: exchange ? String(exchange).toLowerCase() : undefined,
+    symbol: symbol ? String(symbol).replace('/', '').toUpperCase() : undefined,
+  };
+  if (scope.exchange && !connectorRegistry.has(scope.exchange)) return null;
+  return scope;
+}
+
+// Must be sent verbatim to lift a halt
+const RESET_CONFIRMATION = 'RESUME_TRADING';
+
+export function createRiskRoutes(userContextService: UserContextService): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  /**
+   * GET /api/risk/limits?exchange=&symbol=
+   * Stored overrides plus the limits in effect for the given scope
+   */
+  router.get('/limits', async (req: Request, res: Response) => {
+    try {
+      const scope = parseScope(req.query.exchange, req.query.symbol);
+      if (!scope) {
+        return res.status(400).json({ error: `Unsupported exchange: ${req.query.exchange}` });
+      }
+      const riskManager = await userContextService.getRiskManager(req.userId!);
+      const overrides = await getLimitsByUserId(req.userId!);
+      res.json({
+        effective: riskManager.getLimits(scope.exchange, scope.symbol),
+        overrides,
+      });
+    } catch (error: any) {
+      console.error('[API] Error fetching risk limits:', error);
+      res.status(500).json({ error: error.message || 'Failed to fetch risk limits' });
+    }
+  });
+
+  /**
+   * PUT /api/risk/limits
+   * { exchange?, symbol?, maxOrderSize?, maxPositionSize?, maxDrawdown?, minBalance?, maxDailyLoss?,
+   *   maxLeverage?, minLiquidationDistance? }
+   * Replaces the override for that scope; omitted/null limits inherit from broader scopes
+   */
+  router.put('/limits', async (req: Request, res: Response) => {
+    try {
+      const userId = req.userId!;
+      const { maxOrderSize, maxPositionSize, maxDrawdown, minBalance, maxDailyLoss, maxLeverage, minLiquidationDistance } =
+        req.body;
+      const scope = parseScope(req.body.exchange, req.body.symbol);
+      if (!scope) {
+        return res.status(400).json({ error: `Unsupported exchange: ${req.body.exchange}` });
+      }
+
+      const isSet = (value: any) => value !== undefined && value !== null;
+      const invalidAmount = (value: any) => isSet(value) && (typeof value !== 'number' || !(value >= 0));
+      if (
+        invalidAmount(maxOrderSize) ||
+        invalidAmount(maxPositionSize) ||
+        invalidAmount(minBalance) ||
+        invalidAmount(maxDailyLoss)
+      ) {
+        return res.status(400).json({ error: 'maxOrderSize, maxPositionSize, minBalance and maxDailyLoss must be non-negative numbers' });
+      }
+      if (isSet(maxDailyLoss) && (scope.exchange || scope.symbol)) {
+        return res.status(400).json({ error: 'maxDailyLoss applies to the whole account and cannot be scoped' });
+      }
+      if (isSet(maxDrawdown) && (typeof maxDrawdown !== 'number' || maxDrawdown < -1 || maxDrawdown > 0)) {
+        return res.status(400).json({ error: 'maxDrawdown must be between -1 and 0 (e.g. -0.1 = -10%)' });
+      }
+      if (isSet(maxLeverage) && (typeof maxLeverage !== 'number' || !(maxLeverage >= 1))) {
+        return res.status(400).json({ error: 'maxLeverage must be a number of at least 1' });
+      }
+      if (
+        isSet(minLiquidationDistance) &&
+        (typeof minLiquidationDistance !== 'number' || !(minLiquidationDistance >= 0 && minLiquidationDistance < 1))
+      ) {
+        return res.status(400).json({ error: 'minLiquidationDistance must be between 0 and 1 (e.g. 0.1 = 10%)' });
+      }
+      if (
+        ![maxOrderSize, maxPositionSize, maxDrawdown, minBalance, maxDailyLoss, maxLeverage, minLiquidationDistance].some(
+          isSet
+        )
+      ) {
+        return res.status(400).json({ error: 'At least one limit is required (use DELETE to remove an override)' });
+      }
+
+      const entry: RiskLimitEntry = {
+        ...scope,
+        maxOrderSize: maxOrderSize ?? undefined,
+        maxPositionSize: maxPositionSize ?? undefined,
+        maxDrawdown: maxDrawdown ?? undefined,
+        minBalance: minBalance ?? undefined,
+        maxDailyLoss: maxDailyLoss ?? undefined,
+        maxLeverage: maxLeverage ?? undefined,
+        minLiquidationDistance: minLiquidationDistance ?? undefined,
+      };
+      const saved = await saveLimits(userId, entry);
+      await userContextService.reloadRiskLimits(userId);
+      res.json({ override: saved });
+    } catch (error: any) {
+      console.error('[API] Error saving risk limits:', error);
+      res.status(500).json({ error: error.message || 'Failed to save risk limits' });
+    }
+  });
+
+  /**
+   * DELETE /api/risk/limits?exchange=&symbol=
+   */
+  router.delete('/limits', async (req: Request, res: Response) => {
+    try {
+      const userId = req.userId!;
+      const scope = parseScope(req.query.exchange, req.query.symbol);
+      if (!scope) {
+        return res.status(400).json({ error: `Unsupported exchange: ${req.query.exchange}` });
+      }
+      const removed = await removeLimits(userId, scope.exchange, scope.symbol);
+      if (!removed) {
+        return res.status(404).json({ error: 'Risk limit override not found' });
+      }
+      await userContextService.reloadRiskLimits(userId);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[API] Error removing risk limits:', error);
+      res.status(500).json({ error: error.message || 'Failed to remove risk limits' });
+    }
+  });
+
+  /**
+   * GET /api/risk/kill-switch
+   */
+  router.get('/kill-switch', async (req: Request, res: Response) => {
+    try {
+      const killSwitch = await userContextService.getKillSwitch(req.userId!);
+      res.json(killSwitch.getState());
+    } catch (error: any) {
+      console.error('[API] Error fetching kill switch state:', error);
+      res.status(500).json({ error: error.message || 'Failed to fetch kill switch state' });
+    }
+  });
+
+  /**
+   * PUT /api/risk/kill-switch
+   * { cancelOrdersOnHalt: boolean } - whether the daily loss limit also cancels open orders
+   */
+  router.put('/kill-switch', async (req: Request, res: Response) => {
+    try {
+      const { cancelOrdersOnHalt } = req.body;
+      if (typeof cancelOrdersOnHalt !== 'boolean') {
+        return res.status(400).json({ error: 'cancelOrdersOnHalt must be a boolean' });
+      }
+      const killSwitch = await userContextService.getKillSwitch(req.userId!);
+      res.json(await killSwitch.setCancelOrdersOnHalt(cancelOrdersOnHalt));
+    } catch (error: any) {
+      console.error('[API] Error updating kill switch settings:', error);
+      res.status(500).json({ error: error.message || 'Failed to update kill switch settings' });
+    }
+  });
+
+  /**
+   * POST /api/risk/kill-switch
+   * { reason?, cancelOrders?: boolean } - halt trading now
+   */
+  router.post('/kill-switch', async (req: Request, res: Response) => {
+    try {
+      const { reason, cancelOrders } = req.body;
+      if (reason !== undefined && typeof reason !== 'string') {
+        return res.status(400).json({ error: 'reason must be a string' });
+      }
+      const killSwitch = await userContextService.getKillSwitch(req.userId!);
+      const result = await killSwitch.engage('manual', reason || 'Manual kill switch', cancelOrders === true);
+      res.json(result);
+    } catch (error: any) {
+      console.error('[API] Error engaging kill switch:', error);
+      res.status(500).json({ error: error.message || 'Failed to engage kill switch' });
+    }
+  });
+
+  /**
+   * POST /api/risk/kill-switch/reset
+   * { confirm: 'RESUME_TRADING' }
+   */
+  router.post('/kill-switch/reset', async (req: Request, res: Response) => {
+    try {
+      if (req.body.confirm !== RESET_CONFIRMATION) {
+        return res.status(400).json({ error: `Send { "confirm": "${RESET_CONFIRMATION}" } to resume trading` });
+      }
+      const killSwitch = await userContextService.getKillSwitch(req.userId!);
+      if (!killSwitch.getState().halted) {
+        return res.status(409).json({ error: 'Trading is not halted' });
+      }
+      res.json(await killSwitch.reset());
+    } catch (error: any) {
+      console.error('[API] Error resetting kill switch:', error);
+      res.status(500).json({ error: error.message || 'Failed to reset kill switch' });
+    }
+  });
+
+  return router;
+}
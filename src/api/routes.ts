@@ -5,9 +5,11 @@
 import { Router, Request, Response } from 'express';
 import { EventBus } from '../realtime/eventBus';
 import { UserContextService } from '../auth/userContextService';
-import { ExchangeCredentials, OrderParams } from '../types';
+import { ExchangeCredentials, OrderParams, HistoryInterval } from '../types';
 import { orderStore } from '../execution/orderStore';
+import { snapshotStore, HISTORY_INTERVALS } from '../portfolio/snapshotStore';
 import { requireAuth } from './jwtMiddleware';
+import { connectorRegistry } from '../connectors/registry';
 
 export function createRoutes(eventBus: EventBus, userContextService: UserContextService): Router {
   const router = Router();
@@ -26,13 +28,16 @@ export function createRoutes(eventBus: EventBus, userContextService: UserContext
   router.use(requireAuth);
 
   /**
-   * GET /api/portfolio/snapshot
+   * GET /api/portfolio/snapshot?refresh=true
+   * Served from live state where possible; refresh=true forces a full REST fetch
    */
   router.get('/portfolio/snapshot', async (req: Request, res: Response) => {
     try {
       const userId = req.userId!;
       const portfolioManager = await userContextService.getPortfolioManager(userId);
-      const snapshot = await portfolioManager.fetchPortfolioSnapshot();
+      const snapshot = req.query.refresh === 'true'
+        ? await portfolioManager.fetchPortfolioSnapshot()
+        : await portfolioManager.takeSnapshot();
       res.json(snapshot);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -57,6 +62,30 @@ export function createRoutes(eventBus: EventBus, userContextService: UserContext
     }
   });
 
+  /**
+   * GET /api/portfolio/history?from&to&interval
+   * Downsampled equity curve (interval: 1m | 1h | 1d; from/to in ms, default last 24h)
+   */
+  router.get('/portfolio/history', async (req: Request, res: Response) => {
+    try {
+      const userId = req.userId!;
+      const interval = ((req.query.interval as string) || '1h') as HistoryInterval;
+      if (!HISTORY_INTERVALS[interval]) {
+        return res.status(400).json({ error: 'Invalid interval', allowed: Object.keys(HISTORY_INTERVALS) });
+      }
+      const to = req.query.to ? parseInt(req.query.to as string, 10) : Date.now();
+      const from = req.query.from ? parseInt(req.query.from as string, 10) : to - 24 * 60 * 60 * 1000;
+      if (isNaN(from) || isNaN(to) || from > to) {
+        return res.status(400).json({ error: 'Invalid time range' });
+      }
+      const points = await snapshotStore.getEquityHistory(userId, from, to, interval);
+      res.json({ from, to, interval, points });
+    } catch (error: any) {
+      console.error('[API] Error getting portfolio history:', error);
+      res.status(500).json({ error: error.message || 'Failed to get portfolio history' });
+    }
+  });
+
   /**
    * GET /api/portfolio/summary
    */
@@ -90,6 +119,19 @@ export function createRoutes(eventBus: EventBus, userContextService: UserContext
     }
   });
 
+  /**
+   * GET /api/exchanges/health
+   */
+  router.get('/exchanges/health', async (req: Request, res: Response) => {
+    try {
+      const userId = req.userId!;
+      const portfolioManager = await userContextService.getPortfolioManager(userId);
+      res.json({ exchanges: portfolioManager.getHealth() });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   /**
    * GET /api/trade/exchanges
    */
@@ -110,21 +152,32 @@ export function createRoutes(eventBus: EventBus, userContextService: UserContext
     try {
       const userId = req.userId!;
       const { exchange, apiKey, apiSecret, passphrase, sandbox } = req.body;
-      if (!exchange || !apiKey || !apiSecret) {
+      if (!exchange) {
+        return res.status(400).json({ error: 'Missing required fields', details: 'Exchange is required' });
+      }
+      const definition = connectorRegistry.get(exchange);
+      if (!definition) {
+        return res.status(400).json({ error: `Unsupported exchange: ${exchange}` });
+      }
+      const requiresCredentials = definition.requiresCredentials !== false;
+      if (requiresCredentials && (!apiKey || !apiSecret)) {
         return res.status(400).json({
           error: 'Missing required fields',
           details: 'Exchange, API Key, and API Secret are required',
         });
       }
       const credentials: ExchangeCredentials = {
-        exchange: exchange.toLowerCase(),
-        apiKey,
-        apiSecret,
+        exchange: definition.exchange,
+        apiKey: apiKey || definition.exchange,
+        apiSecret: apiSecret || definition.exchange,
         passphrase,
         sandbox: sandbox || false,
       };
-      if (credentials.exchange !== 'binance') {
-        return res.status(400).json({ error: `Unsupported exchange: ${exchange}` });
+      if (definition.requiresPassphrase && !passphrase) {
+        return res.status(400).json({
+          error: 'Missing required fields',
+          details: `${definition.exchange} requires an API passphrase`,
+        });
       }
       await userContextService.registerExchange(userId, credentials);
       const portfolioManager = await userContextService.getPortfolioManager(userId);
@@ -135,7 +188,7 @@ export function createRoutes(eventBus: EventBus, userContextService: UserContext
       }
       res.json({
         success: true,
-        exchange: 'binance',
+        exchange: credentials.exchange,
         message: 'Exchange registered successfully',
       });
     } catch (error: any) {
@@ -162,30 +215,29 @@ export function createRoutes(eventBus: EventBus, userContextService: UserContext
   });
 
   /**
-   * POST /api/trade/order
+   * Validate an order request body (error message if invalid)
    */
-  router.post('/trade/order', async (req: Request, res: Response) => {
-    try {
-      const userId = req.userId!;
-      const executionEngine = await userContextService.getExecutionEngine(userId);
-      const { exchange, ...orderParams } = req.body;
-      if (!exchange) return res.status(400).json({ error: 'Exchange is required' });
-      if (!orderParams.symbol || !orderParams.side || !orderParams.type || !orderParams.quantity) {
-        return res.status(400).json({
-          error: 'Missing required fields',
-          required: ['symbol', 'side', 'type', 'quantity'],
-        });
-      }
-      if (orderParams.type === 'limit' && !orderParams.price) {
-        return res.status(400).json({ error: 'Price is required for limit orders' });
-      }
-      if (orderParams.leverage !== undefined) {
-        const leverageNum = parseInt(orderParams.leverage, 10);
-        if (Number.isNaN(leverageNum) || leverageNum < 1 || leverageNum > 125) {
-          return res.status(400).json({ error: 'Leverage must be between 1 and 125' });
-        }
+  function parseOrderRequest(body: any): { exchange: string; order: OrderParams } | { error: string; required?: string[] } {
+    const { exchange, ...orderParams } = body;
+    if (!exchange) return { error: 'Exchange is required' };
+    if (!orderParams.symbol || !orderParams.side || !orderParams.type || !orderParams.quantity) {
+      return { error: 'Missing required fields', required: ['symbol', 'side', 'type', 'quantity'] };
+    }
+    if (orderParams.type === 'limit' && !orderParams.price) {
+      return { error: 'Price is required for limit orders' };
+    }
+    if (orderParams.leverage !== undefined) {
+      const leverageNum = parseInt(orderParams.leverage, 10);
+      if (Number.isNaN(leverageNum) || leverageNum < 1 || leverageNum > 125) {
+        return { error: 'Leverage must be between 1 and 125' };
       }
-      const order: OrderParams = {
+    }
+    if (orderParams.marginMode !== undefined && !['cross', 'isolated'].includes(orderParams.marginMode)) {
+      return { error: 'marginMode must be cross or isolated' };
+    }
+    return {
+      exchange,
+      order: {
         symbol: orderParams.symbol.toUpperCase(),
         side: orderParams.side.toLowerCase() as 'buy' | 'sell',
         type: orderParams.type.toLowerCase() as 'market' | 'limit',
@@ -193,12 +245,25 @@ export function createRoutes(eventBus: EventBus, userContextService: UserContext
         price: orderParams.price ? parseFloat(orderParams.price) : undefined,
         market: orderParams.market === 'futures' ? 'futures' : 'spot',
         leverage: orderParams.leverage ? parseInt(orderParams.leverage, 10) : undefined,
+        marginMode: orderParams.marginMode,
         reduceOnly: orderParams.reduceOnly || false,
         timeInForce: orderParams.timeInForce || 'GTC',
         stopPrice: orderParams.stopPrice ? parseFloat(orderParams.stopPrice) : undefined,
         postOnly: orderParams.postOnly || false,
-      };
-      const result = await executionEngine.placeOrder(exchange, order);
+      },
+    };
+  }
+
+  /**
+   * POST /api/trade/order
+   */
+  router.post('/trade/order', async (req: Request, res: Response) => {
+    try {
+      const userId = req.userId!;
+      const executionEngine = await userContextService.getExecutionEngine(userId);
+      const parsed = parseOrderRequest(req.body);
+      if ('error' in parsed) return res.status(400).json(parsed);
+      const result = await executionEngine.placeOrder(parsed.exchange, parsed.order);
       res.json(result);
     } catch (error: any) {
       console.error('[API] Error placing order:', error);
@@ -206,6 +271,25 @@ export function createRoutes(eventBus: EventBus, userContextService: UserContext
     }
   });
 
+  /**
+   * POST /api/trade/order/check
+   * Same body as /trade/order; returns the risk check (incl. estimated fill price, slippage and
+   * futures liquidation estimate)
+   */
+  router.post('/trade/order/check', async (req: Request, res: Response) => {
+    try {
+      const userId = req.userId!;
+      const executionEngine = await userContextService.getExecutionEngine(userId);
+      const parsed = parseOrderRequest(req.body);
+      if ('error' in parsed) return res.status(400).json(parsed);
+      const riskCheck = await executionEngine.checkOrder(parsed.exchange, parsed.order);
+      res.json(riskCheck);
+    } catch (error: any) {
+      console.error('[API] Error checking order:', error);
+      res.status(400).json({ error: error.message || 'Failed to check order' });
+    }
+  });
+
   /**
    * POST /api/trade/cancel
    */
@@ -271,8 +355,11 @@ export function createRoutes(eventBus: EventBus, userContextService: UserContext
 
       if (exchange && symbol && market) {
         const executionEngine = await userContextService.getExecutionEngine(userId);
-        const connector = executionEngine.getConnector(exchange as string) as any;
-        if (connector && typeof connector.fetchOrderHistory === 'function') {
+        const connector = connectorRegistry.withCapability(
+          executionEngine.getConnector(exchange as string),
+          market === 'futures' ? 'futures' : 'spot'
+        );
+        if (connector) {
           const orders = await connector.fetchOrderHistory(symbol as string, market as 'spot' | 'futures', limitNum);
           return res.json({ orders });
         }
@@ -302,8 +389,11 @@ export function createRoutes(eventBus: EventBus, userContextService: UserContext
 
       if (exchange && symbol && market) {
         const executionEngine = await userContextService.getExecutionEngine(userId);
-        const connector = executionEngine.getConnector(exchange as string) as any;
-        if (connector && typeof connector.fetchTradesBySymbol === 'function') {
+        const connector = connectorRegistry.withCapability(
+          executionEngine.getConnector(exchange as string),
+          market === 'futures' ? 'futures' : 'spot'
+        );
+        if (connector) {
           const trades = await connector.fetchTradesBySymbol(symbol as string, market as 'spot' | 'futures', limitNum);
           return res.json({ trades });
         }
@@ -332,15 +422,17 @@ export function createRoutes(eventBus: EventBus, userContextService: UserContext
       if (!exchange) return res.status(400).json({ error: 'Exchange is required' });
 
       const executionEngine = await userContextService.getExecutionEngine(userId);
-      const connector = executionEngine.getConnector(exchange as string) as any;
-      if (market === 'futures' && connector && typeof connector.fetchFuturesIncome === 'function') {
-        const transactions = await connector.fetchFuturesIncome(limitNum);
+      const connector = executionEngine.getConnector(exchange as string);
+      const incomeConnector = connectorRegistry.withCapability(connector, 'income');
+      if (market === 'futures' && incomeConnector) {
+        const transactions = await incomeConnector.fetchFuturesIncome(limitNum);
         return res.json({ transactions });
       }
-      if (market === 'spot' && connector && typeof connector.fetchTradesBySymbol === 'function') {
+      const spotConnector = connectorRegistry.withCapability(connector, 'spot');
+      if (market === 'spot' && spotConnector) {
         if (!symbol) return res.status(400).json({ error: 'Symbol is required for spot transactions' });
-        const trades = await connector.fetchTradesBySymbol(symbol as string, 'spot', limitNum);
-        const transactions = trades.map((t: any) => ({
+        const trades = await spotConnector.fetchTradesBySymbol(symbol as string, 'spot', limitNum);
+        const transactions = trades.map((t) => ({
           time: t.timestamp,
           exchange: exchange,
           type: 'Trade',
@@ -368,13 +460,15 @@ export function createRoutes(eventBus: EventBus, userContextService: UserContext
       if (!exchange) return res.status(400).json({ error: 'Exchange is required' });
 
       const executionEngine = await userContextService.getExecutionEngine(userId);
-      const connector = executionEngine.getConnector(exchange as string) as any;
-      if (market === 'futures' && connector && typeof connector.fetchFuturesAssets === 'function') {
-        const assets = await connector.fetchFuturesAssets();
+      const connector = executionEngine.getConnector(exchange as string);
+      const futuresConnector = connectorRegistry.withCapability(connector, 'futures');
+      if (market === 'futures' && futuresConnector) {
+        const assets = await futuresConnector.fetchFuturesAssets();
         return res.json({ assets });
       }
-      if (market === 'spot' && connector && typeof connector.fetchSpotAssets === 'function') {
-        const assets = await connector.fetchSpotAssets();
+      const spotConnector = connectorRegistry.withCapability(connector, 'spot');
+      if (market === 'spot' && spotConnector) {
+        const assets = await spotConnector.fetchSpotAssets();
         return res.json({ assets });
       }
       res.status(400).json({ error: 'Assets not supported for this exchange' });
@@ -390,7 +484,7 @@ export function createRoutes(eventBus: EventBus, userContextService: UserContext
     try {
       const userId = req.userId!;
       const portfolioManager = await userContextService.getPortfolioManager(userId);
-      const binanceConnector = portfolioManager.getConnector('binance') as any;
+      const binanceConnector = portfolioManager.getConnector('binance');
       if (!binanceConnector) {
         return res.status(400).json({
           error: 'Binance connector not registered',
@@ -456,23 +550,19 @@ export function createRoutes(eventBus: EventBus, userContextService: UserContext
     try {
       const userId = req.userId!;
       const portfolioManager = await userContextService.getPortfolioManager(userId);
-      const binanceConnector = portfolioManager.getConnector('binance') as any;
+      const binanceConnector = connectorRegistry.withCapability(portfolioManager.getConnector('binance'), 'listenKey');
       if (!binanceConnector) {
         return res.status(400).json({
           error: 'Binance connector not registered',
           suggestion: 'Please register Binance exchange first',
         });
       }
-      if (typeof binanceConnector.setupSpotUserDataStream === 'function') {
-        await binanceConnector.setupSpotUserDataStream();
-      }
+      await binanceConnector.setupSpotUserDataStream();
       const listenKey = await binanceConnector.getSpotUserDataStreamListenKey();
       res.json({
         success: true,
         listenKey,
-        wsUrl: binanceConnector.credentials?.sandbox
-          ? `wss://testnet.binance.vision/ws/${listenKey}`
-          : `wss://stream.binance.com:9443/ws/${listenKey}`,
+        wsUrl: binanceConnector.getSpotUserDataStreamUrl(listenKey),
       });
     } catch (error: any) {
       console.error('[API] Error getting Binance listen key:', error);
@@ -489,7 +579,7 @@ export function createRoutes(eventBus: EventBus, userContextService: UserContext
       const portfolioManager = await userContextService.getPortfolioManager(userId);
       const { listenKey } = req.body;
       if (!listenKey) return res.status(400).json({ error: 'listenKey is required' });
-      const binanceConnector = portfolioManager.getConnector('binance') as any;
+      const binanceConnector = connectorRegistry.withCapability(portfolioManager.getConnector('binance'), 'listenKey');
       if (!binanceConnector) return res.status(400).json({ error: 'Binance connector not registered' });
       await binanceConnector.keepSpotListenKeyAlive(listenKey);
       res.json({ success: true, message: 'Listen key kept alive' });
@@ -508,7 +598,7 @@ export function createRoutes(eventBus: EventBus, userContextService: UserContext
       const portfolioManager = await userContextService.getPortfolioManager(userId);
       const { listenKey } = req.query;
       if (!listenKey) return res.status(400).json({ error: 'listenKey is required' });
-      const binanceConnector = portfolioManager.getConnector('binance') as any;
+      const binanceConnector = connectorRegistry.withCapability(portfolioManager.getConnector('binance'), 'listenKey');
       if (!binanceConnector) return res.status(400).json({ error: 'Binance connector not registered' });
       await binanceConnector.closeSpotUserDataStream(listenKey as string);
       res.json({ success: true, message: 'User Data Stream closed' });
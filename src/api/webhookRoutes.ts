@@ -0,0 +1,145 @@
+/**
+ * Webhook API routes (protected by JWT; endpoints are per user)
+ */
+
+import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
+import { requireAuth } from './jwtMiddleware';
+import { WebhookDispatcher } from '../realtime/webhookDispatcher';
+import { getEndpointsByUserId, createEndpoint, deleteEndpoint, getDeadLetters } from '../database/webhooks';
+import { assertPublicUrl } from '../security/urlGuard';
+import { WebhookEndpoint, WebhookEventType } from '../types';
+
+const EVENT_TYPES: WebhookEventType[] = ['alert', 'order', 'trade'];
+const SEVERITIES = ['info', 'warning', 'critical'];
+
+/**
+ * Secrets are only returned once, on creation
+ */
+function withoutSecret(endpoint: WebhookEndpoint): Omit<WebhookEndpoint, 'secret'> {
+  const { secret, ...rest } = endpoint;
+  return rest;
+}
+
+export function createWebhookRoutes(webhookDispatcher: WebhookDispatcher): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  /**
+   * GET /api/webhooks
+   */
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const endpoints = await getEndpointsByUserId(req.userId!);
+      res.json({ endpoints: endpoints.map(withoutSecret) });
+    } catch (error: any) {
+      console.error('[API] Error listing webhooks:', error);
+      res.status(500).json({ error: error.message || 'Failed to list webhooks' });
+    }
+  });
+
+  /**
+   * POST /api/webhooks
+   * { url, events: ['alert' | 'order' | 'trade'], severities?, orderStatuses?, secret?, enabled? }
+   */
+  router.post('/', async (req: Request, res: Response) => {
+    try {
+      const userId = req.userId!;
+      const { url, events, severities, orderStatuses, secret, enabled } = req.body;
+
+      let parsedUrl: URL;
+      try {
+        parsedUrl = new URL(url);
+      } catch {
+        return res.status(400).json({ error: 'url must be a valid http(s) URL' });
+      }
+      if (!['http:', 'https:'].includes(parsedUrl.protocol)) {
+        return res.status(400).json({ error: 'url must be a valid http(s) URL' });
+      }
+      try {
+        await assertPublicUrl(parsedUrl.toString());
+      } catch (error: any) {
+        return res.status(400).json({ error: `url must point to a public host: ${error.message}` });
+      }
+      if (!Array.isArray(events) || events.length === 0 || events.some((e: any) => !EVENT_TYPES.includes(e))) {
+        return res.status(400).json({ error: `events must be a non-empty array of ${EVENT_TYPES.join(', ')}` });
+      }
+      if (severities !== undefined && (!Array.isArray(severities) || severities.some((s: any) => !SEVERITIES.includes(s)))) {
+        return res.status(400).json({ error: `severities must be an array of ${SEVERITIES.join(', ')}` });
+      }
+      if (orderStatuses !== undefined && (!Array.isArray(orderStatuses) || orderStatuses.some((s: any) => typeof s !== 'string'))) {
+        return res.status(400).json({ error: 'orderStatuses must be an array of strings' });
+      }
+      if (secret !== undefined && (typeof secret !== 'string' || secret.length < 16)) {
+        return res.status(400).json({ error: 'secret must be at least 16 characters' });
+      }
+
+      const endpoint = await createEndpoint(userId, {
+        url: parsedUrl.toString(),
+        secret: secret || crypto.randomBytes(32).toString('hex'),
+        events,
+        severities,
+        orderStatuses: orderStatuses?.map((s: string) => s.toUpperCase()),
+        enabled: enabled !== false,
+      });
+      webhookDispatcher.invalidate(userId);
+      res.status(201).json({ success: true, endpoint });
+    } catch (error: any) {
+      console.error('[API] Error creating webhook:', error);
+      res.status(500).json({ error: error.message || 'Failed to create webhook' });
+    }
+  });
+
+  /**
+   * GET /api/webhooks/dead-letters?limit
+   */
+  router.get('/dead-letters', async (req: Request, res: Response) => {
+    try {
+      const limit = req.query.limit ? Math.min(parseInt(req.query.limit as string, 10) || 100, 1000) : 100;
+      const deadLetters = await getDeadLetters(req.userId!, limit);
+      res.json({ deadLetters });
+    } catch (error: any) {
+      console.error('[API] Error listing webhook dead letters:', error);
+      res.status(500).json({ error: error.message || 'Failed to list dead letters' });
+    }
+  });
+
+  /**
+   * DELETE /api/webhooks/:id
+   */
+  router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = req.userId!;
+      const endpointId = parseInt(req.params.id, 10);
+      if (isNaN(endpointId)) return res.status(400).json({ error: 'Invalid webhook id' });
+      const deleted = await deleteEndpoint(userId, endpointId);
+      if (!deleted) return res.status(404).json({ error: 'Webhook not found' });
+      webhookDispatcher.invalidate(userId);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[API] Error deleting webhook:', error);
+      res.status(500).json({ error: error.message || 'Failed to delete webhook' });
+    }
+  });
+
+  /**
+   * POST /api/webhooks/:id/test
+   */
+  router.post('/:id/test', async (req: Request, res: Response) => {
+    try {
+      const endpointId = parseInt(req.params.id, 10);
+      if (isNaN(endpointId)) return res.status(400).json({ error: 'Invalid webhook id' });
+      const endpoints = await getEndpointsByUserId(req.userId!);
+      const endpoint = endpoints.find((e) => e.id === endpointId);
+      if (!endpoint) return res.status(404).json({ error: 'Webhook not found' });
+      const result = await webhookDispatcher.sendTest(endpoint);
+      res.json(result);
+    } catch (error: any) {
+      console.error('[API] Error testing webhook:', error);
+      res.status(500).json({ error: error.message || 'Failed to send test webhook' });
+    }
+  });
+
+  return router;
+}
@@ -1,79 +1,248 @@
 /**
  * User Context Service
- * Per-user PortfolioManager and ExecutionEngine (loaded from exchange_accounts)
+ * Per-user PortfolioManager, ExecutionEngine, monitor, alert rules, risk limits and kill switch (loaded from DB)
  */
 
 import { PortfolioManager } from '../portfolio/manager';
 import { ExecutionEngine } from '../execution/executor';
 import { EventBus } from '../realtime/eventBus';
+import { RealtimeMonitor } from '../realtime/monitor';
+import { AlertRuleEngine } from '../realtime/ruleEngine';
+import { AlertDispatcher } from '../realtime/alertDispatcher';
+import { FillRecorder } from '../execution/fillRecorder';
+import { RiskManager } from '../execution/riskManager';
+import { KillSwitch } from '../execution/killSwitch';
 import { getCredentialsByUserId, saveCredentials, removeCredentials } from '../database/exchangeAccounts';
-import { ExchangeCredentials } from '../types';
-import { BinanceConnector } from '../connectors/binance';
+import { getRulesByUserId } from '../database/alertRules';
+import { getLimitsByUserId } from '../database/riskLimits';
+import { ExchangeCredentials, IncomeRecord, UnifiedTrade } from '../types';
+import { connectorRegistry, RegisteredConnector } from '../connectors/registry';
+
+// Income record types of funding payments (Binance incomeType, Bybit transaction log type, OKX bill subType)
+const FUNDING_INCOME_TYPES = ['FUNDING_FEE', 'SETTLEMENT', '173', '174'];
+const FUNDING_INCOME_LIMIT = 100;
 
 interface UserContext {
   portfolioManager: PortfolioManager;
   executionEngine: ExecutionEngine;
+  monitor: RealtimeMonitor;
+  ruleEngine: AlertRuleEngine;
+  riskManager: RiskManager;
+  killSwitch: KillSwitch;
 }
 
 export class UserContextService {
-  private cache = new Map<number, UserContext>();
+  private cache = new Map<number, Promise<UserContext>>(); // Pending builds too, so concurrent callers share one
   private eventBus: EventBus;
+  private alertDispatcher: AlertDispatcher;
 
   constructor(eventBus: EventBus) {
     this.eventBus = eventBus;
+    this.alertDispatcher = new AlertDispatcher(eventBus);
+  }
+
+  /**
+   * Get or create the user's context (loads connectors and alert rules from DB)
+   */
+  private async getContext(userId: number): Promise<UserContext> {
+    let pending = this.cache.get(userId);
+    if (!pending) {
+      pending = this.buildUserContext(userId);
+      this.cache.set(userId, pending);
+      const built = pending;
+      built.catch(() => {
+        if (this.cache.get(userId) === built) this.cache.delete(userId);
+      });
+    }
+    const ctx = await pending;
+    // Invalidated while building: that context has been torn down, use a fresh one
+    if (this.cache.get(userId) !== pending) {
+      return this.getContext(userId);
+    }
+    return ctx;
+  }
+
+  /**
+   * The user's context if one is built or being built, without creating it
+   */
+  private async getCachedContext(userId: number): Promise<UserContext | undefined> {
+    const pending = this.cache.get(userId);
+    if (!pending) return undefined;
+    try {
+      return await pending;
+    } catch {
+      return undefined;
+    }
   }
 
   /**
    * Get or create PortfolioManager for user (loads connectors from DB)
    */
   async getPortfolioManager(userId: number): Promise<PortfolioManager> {
-    let ctx = this.cache.get(userId);
-    if (!ctx) {
-      ctx = await this.buildUserContext(userId);
-      this.cache.set(userId, ctx);
-    }
-    return ctx.portfolioManager;
+    return (await this.getContext(userId)).portfolioManager;
   }
 
   /**
    * Get or create ExecutionEngine for user
    */
   async getExecutionEngine(userId: number): Promise<ExecutionEngine> {
-    let ctx = this.cache.get(userId);
-    if (!ctx) {
-      ctx = await this.buildUserContext(userId);
-      this.cache.set(userId, ctx);
+    return (await this.getContext(userId)).executionEngine;
+  }
+
+  /**
+   * Get or create the RealtimeMonitor fed by the user's snapshots
+   */
+  async getMonitor(userId: number): Promise<RealtimeMonitor> {
+    return (await this.getContext(userId)).monitor;
+  }
+
+  /**
+   * Get or create the user's alert rules engine
+   */
+  async getRuleEngine(userId: number): Promise<AlertRuleEngine> {
+    return (await this.getContext(userId)).ruleEngine;
+  }
+
+  /**
+   * Get or create the user's risk manager
+   */
+  async getRiskManager(userId: number): Promise<RiskManager> {
+    return (await this.getContext(userId)).riskManager;
+  }
+
+  /**
+   * Get or create the user's kill switch
+   */
+  async getKillSwitch(userId: number): Promise<KillSwitch> {
+    return (await this.getContext(userId)).killSwitch;
+  }
+
+  /**
+   * Reload risk limits from DB after they change
+   */
+  async reloadRiskLimits(userId: number): Promise<void> {
+    const ctx = await this.getCachedContext(userId);
+    if (ctx) {
+      ctx.riskManager.setOverrides(await getLimitsByUserId(userId));
+    }
+  }
+
+  /**
+   * Reload alert rules from DB after they change
+   */
+  async reloadAlertRules(userId: number): Promise<void> {
+    const ctx = await this.getCachedContext(userId);
+    if (ctx) {
+      ctx.ruleEngine.setRules(await getRulesByUserId(userId));
     }
-    return ctx.executionEngine;
   }
 
   private async buildUserContext(userId: number): Promise<UserContext> {
     const credentialsList = await getCredentialsByUserId(userId);
-    const portfolioManager = new PortfolioManager();
-    const executionEngine = new ExecutionEngine(portfolioManager, this.eventBus, userId);
+    const portfolioManager = new PortfolioManager(userId);
+    const riskManager = new RiskManager();
+    try {
+      riskManager.setOverrides(await getLimitsByUserId(userId));
+    } catch (err: any) {
+      console.warn(`[UserContext] Failed to load risk limits for user ${userId}:`, err.message);
+    }
+    const executionEngine = new ExecutionEngine(portfolioManager, this.eventBus, userId, riskManager);
+    const killSwitch = new KillSwitch(
+      userId,
+      riskManager,
+      executionEngine,
+      (alert) => {
+        this.alertDispatcher.dispatch(alert);
+      },
+      {
+        getFundingPayments: async () => {
+          const payments: IncomeRecord[] = [];
+          for (const exchange of portfolioManager.getRegisteredExchanges()) {
+            const connector = connectorRegistry.withCapability(portfolioManager.getConnector(exchange), 'income');
+            if (!connector) continue;
+            try {
+              const records = await connector.fetchFuturesIncome(FUNDING_INCOME_LIMIT);
+              payments.push(...records.filter((r) => FUNDING_INCOME_TYPES.includes(r.type)));
+            } catch (e: any) {
+              console.warn(`[UserContext] Failed to fetch funding payments from ${exchange}:`, e.message);
+            }
+          }
+          return payments;
+        },
+      }
+    );
+    try {
+      await killSwitch.load();
+    } catch (err: any) {
+      console.warn(`[UserContext] Failed to load kill switch state for user ${userId}:`, err.message);
+    }
+    portfolioManager.onSnapshot((snapshot) => {
+      killSwitch.evaluateSnapshot(snapshot).catch((e) => {
+        console.error('[UserContext] Daily loss check failed:', e);
+      });
+    });
+    const monitor = new RealtimeMonitor(userId);
+    monitor.onAlert((alert) => {
+      this.alertDispatcher.dispatch(alert);
+    });
+    portfolioManager.onSnapshot((snapshot) => monitor.processSnapshot(snapshot));
+
+    const ruleEngine = new AlertRuleEngine(userId, {
+      getPrice: async (asset, exchange) => (await portfolioManager.getPriceService().getQuote(asset, exchange)).price,
+      getFundingRates: async (symbols) => {
+        const rates: Record<string, Record<string, number>> = {};
+        for (const exchange of portfolioManager.getRegisteredExchanges()) {
+          const connector = connectorRegistry.withCapability(portfolioManager.getConnector(exchange), 'funding');
+          if (!connector) continue;
+          try {
+            rates[exchange] = await connector.fetchFundingRates(symbols);
+          } catch (e: any) {
+            console.warn(`[UserContext] Failed to fetch funding rates from ${exchange}:`, e.message);
+          }
+        }
+        return rates;
+      },
+    });
+    ruleEngine.onAlert((alert) => {
+      this.alertDispatcher.dispatch(alert);
+    });
+    try {
+      ruleEngine.setRules(await getRulesByUserId(userId));
+    } catch (err: any) {
+      console.warn(`[UserContext] Failed to load alert rules for user ${userId}:`, err.message);
+    }
+    portfolioManager.onSnapshot((snapshot) => {
+      ruleEngine.evaluateSnapshot(snapshot).catch((e) => {
+        console.error('[UserContext] Alert rule evaluation failed:', e);
+      });
+    });
+
+    const fillRecorder = new FillRecorder(userId);
 
     for (const creds of credentialsList) {
       try {
-        if (creds.exchange.toLowerCase() === 'binance') {
-          const connector = new BinanceConnector(creds);
-          portfolioManager.registerConnector(connector);
-          const connectorAny = connector as any;
-          if (
-            typeof connectorAny.placeOrder === 'function' &&
-            typeof connectorAny.cancelOrder === 'function' &&
-            typeof connectorAny.getOpenOrders === 'function'
-          ) {
-            executionEngine.registerConnector(connectorAny);
+        if (!connectorRegistry.has(creds.exchange)) continue;
+        const connector = connectorRegistry.create(creds);
+        this.watchHealth(userId, connector);
+        portfolioManager.registerConnector(connector);
+        executionEngine.registerConnector(connector);
+        await connector.subscribeRealtimeUpdates((update) => {
+          portfolioManager.applyRealtimeUpdate(update);
+          fillRecorder.record(update);
+          if (update.type === 'trade') {
+            killSwitch.recordTrade(update.data as UnifiedTrade).catch((e) => {
+              console.error('[UserContext] Daily loss fee accounting failed:', e);
+            });
           }
-          await connector.subscribeRealtimeUpdates((update) => {
-            this.eventBus.publishUpdate(update, userId);
-          });
-          if (typeof connectorAny.setupSpotUserDataStream === 'function') {
-            try {
-              await connectorAny.setupSpotUserDataStream();
-            } catch (e) {
-              // ignore
-            }
+          this.eventBus.publishUpdate(update, userId);
+          ruleEngine.evaluateUpdate(update);
+        });
+        const listenKeyConnector = connectorRegistry.withCapability(connector, 'listenKey');
+        if (listenKeyConnector) {
+          try {
+            await listenKeyConnector.setupSpotUserDataStream();
+          } catch (e) {
+            // ignore
           }
         }
       } catch (err: any) {
@@ -81,14 +250,49 @@ export class UserContextService {
       }
     }
 
-    return { portfolioManager, executionEngine };
+    return { portfolioManager, executionEngine, monitor, ruleEngine, riskManager, killSwitch };
+  }
+
+  /**
+   * Emit connection_lost when a connector goes down and connection_restored once it is healthy again
+   */
+  private watchHealth(userId: number, connector: RegisteredConnector): void {
+    let lost = false;
+    connector.health.onChange((status) => {
+      if (status.state === 'down' && !lost) {
+        lost = true;
+        this.alertDispatcher.dispatch({
+          type: 'connection_lost',
+          severity: 'critical',
+          message: `Connection to ${status.exchange} lost: ${status.lastError || 'repeated failures'}`,
+          exchange: status.exchange,
+          userId,
+          timestamp: Date.now(),
+          data: {
+            consecutiveFailures: status.consecutiveFailures,
+            lastError: status.lastError,
+            lastSuccessAt: status.lastSuccessAt,
+          },
+        });
+      } else if (status.state === 'healthy' && lost) {
+        lost = false;
+        this.alertDispatcher.dispatch({
+          type: 'connection_restored',
+          severity: 'info',
+          message: `Connection to ${status.exchange} restored`,
+          exchange: status.exchange,
+          userId,
+          timestamp: Date.now(),
+        });
+      }
+    });
   }
 
   /**
    * Register a new exchange for user (test, save to DB, invalidate cache)
    */
   async registerExchange(userId: number, credentials: ExchangeCredentials): Promise<void> {
-    const connector = new BinanceConnector(credentials);
+    const connector = connectorRegistry.create(credentials);
     await connector.testConnection();
     await saveCredentials(userId, credentials);
     this.invalidate(userId);
@@ -99,7 +303,7 @@ export class UserContextService {
    */
   async removeExchange(userId: number, exchange: string): Promise<void> {
     await removeCredentials(userId, exchange);
-    const ctx = this.cache.get(userId);
+    const ctx = await this.getCachedContext(userId);
     if (ctx) {
       ctx.portfolioManager.removeConnector(exchange);
       ctx.executionEngine.removeConnector(exchange);
@@ -107,15 +311,28 @@ export class UserContextService {
   }
 
   /**
-   * Invalidate cache for a user (e.g. after password change or force reload)
+   * Invalidate cache for a user (e.g. after password change or force reload).
+   * The old context is torn down once built so it can't keep streaming or trading.
    */
   invalidate(userId: number): void {
-    const ctx = this.cache.get(userId);
-    if (ctx) {
-      ctx.portfolioManager.getRegisteredExchanges().forEach((ex) => {
-        ctx!.portfolioManager.removeConnector(ex);
-      });
+    const pending = this.cache.get(userId);
+    if (pending) {
       this.cache.delete(userId);
+      pending.then((ctx) => this.disposeContext(ctx)).catch(() => {});
     }
   }
+
+  /**
+   * Disconnect a context's connectors and detach its kill switch and monitors from snapshots
+   * (kill switch and risk limits live in the DB and are reloaded by the next context)
+   */
+  private disposeContext(ctx: UserContext): void {
+    ctx.portfolioManager.getRegisteredExchanges().forEach((ex) => {
+      ctx.portfolioManager.removeConnector(ex);
+    });
+    ctx.executionEngine.getRegisteredExchanges().forEach((ex) => {
+      ctx.executionEngine.removeConnector(ex);
+    });
+    ctx.portfolioManager.clearSnapshotCallbacks();
+  }
 }
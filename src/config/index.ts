@@ -30,11 +30,86 @@ export const config = {
     expiresIn: process.env.JWT_EXPIRES_IN || '7d',
   },
   rateLimits: {
-    binance: parseInt(process.env.BINANCE_RATE_LIMIT || '1200', 10),
+    binance: parseInt(process.env.BINANCE_RATE_LIMIT || '2400', 10), // Request weight (spot and futures share one budget)
     bybit: parseInt(process.env.BYBIT_RATE_LIMIT || '120', 10),
     okx: parseInt(process.env.OKX_RATE_LIMIT || '60', 10),
     coinbase: parseInt(process.env.COINBASE_RATE_LIMIT || '10000', 10),
   },
+  scheduler: {
+    enabled: process.env.SNAPSHOT_SCHEDULER_ENABLED !== 'false',
+    intervalMs: parseInt(process.env.SNAPSHOT_INTERVAL_MS || '60000', 10),
+    jitterMs: parseInt(process.env.SNAPSHOT_JITTER_MS || '5000', 10),
+    maxBackoffMs: parseInt(process.env.SNAPSHOT_MAX_BACKOFF_MS || '900000', 10), // 15 min
+    minRateLimitRemaining: parseInt(process.env.SNAPSHOT_MIN_RATE_LIMIT_REMAINING || '10', 10),
+    // Stored history: full resolution for rawRetentionMs, then one snapshot per downsampleMs until retentionMs
+    rawRetentionMs: parseInt(process.env.SNAPSHOT_RAW_RETENTION_MS || String(7 * 24 * 60 * 60 * 1000), 10),
+    downsampleMs: parseInt(process.env.SNAPSHOT_DOWNSAMPLE_MS || '3600000', 10),
+    retentionMs: parseInt(process.env.SNAPSHOT_RETENTION_MS || String(365 * 24 * 60 * 60 * 1000), 10),
+    pruneIntervalMs: parseInt(process.env.SNAPSHOT_PRUNE_INTERVAL_MS || '3600000', 10),
+  },
+  webhooks: {
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10),
+    retryBaseMs: parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '1000', 10), // doubled per attempt
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+  },
+  backfill: {
+    windowMs: parseInt(process.env.BACKFILL_WINDOW_MS || String(7 * 24 * 60 * 60 * 1000), 10), // Checkpoint granularity
+    defaultLookbackMs: parseInt(process.env.BACKFILL_DEFAULT_LOOKBACK_MS || String(365 * 24 * 60 * 60 * 1000), 10),
+    maxAttempts: parseInt(process.env.BACKFILL_MAX_ATTEMPTS || '3', 10), // Per window before the job fails
+    minRateLimitRemaining: parseInt(process.env.BACKFILL_MIN_RATE_LIMIT_REMAINING || '20', 10),
+  },
+  pnl: {
+    defaultMethod: (process.env.PNL_COST_BASIS_METHOD || 'fifo') as 'fifo' | 'lifo' | 'average',
+  },
+  reports: {
+    longTermDays: parseInt(process.env.TAX_LONG_TERM_DAYS || '365', 10), // Holding period beyond which gains are long-term
+  },
+  liveState: {
+    enabled: process.env.LIVE_STATE_ENABLED !== 'false',
+    reconcileIntervalMs: parseInt(process.env.LIVE_STATE_RECONCILE_MS || '900000', 10), // REST re-baseline for streamed exchanges
+  },
+  health: {
+    downAfterFailures: parseInt(process.env.HEALTH_DOWN_AFTER_FAILURES || '3', 10), // consecutive failures of one source
+    reconnectBaseMs: parseInt(process.env.WS_RECONNECT_BASE_MS || '5000', 10),
+    reconnectMaxMs: parseInt(process.env.WS_RECONNECT_MAX_MS || '300000', 10),
+  },
+  smtp: {
+    host: process.env.SMTP_HOST || 'localhost',
+    port: parseInt(process.env.SMTP_PORT || '1025', 10), // Default matches local SMTP catchers (MailHog, smtp4dev)
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER || '',
+    password: process.env.SMTP_PASSWORD || '',
+    from: process.env.SMTP_FROM || 'Portfolio Monitor <alerts@localhost>',
+  },
+  notifications: {
+    digestIntervalMs: parseInt(process.env.NOTIFICATION_DIGEST_INTERVAL_MS || '3600000', 10),
+  },
+  markets: {
+    rulesTtlMs: parseInt(process.env.SYMBOL_RULES_TTL_MS || '3600000', 10), // exchangeInfo/instrument cache
+  },
+  pricing: {
+    ttlMs: parseInt(process.env.PRICE_CACHE_TTL_MS || '30000', 10),
+  },
+  mock: {
+    // Off by default: simulated fills would otherwise be stored and reported like real ones
+    enabled: process.env.MOCK_EXCHANGE_ENABLED === 'true',
+    seed: parseInt(process.env.MOCK_EXCHANGE_SEED || '42', 10),
+    tickMs: parseInt(process.env.MOCK_EXCHANGE_TICK_MS || '1000', 10), // 0 = advance manually
+    volatility: parseFloat(process.env.MOCK_EXCHANGE_VOLATILITY || '0.001'), // per-tick stddev of log returns
+    initialUsdt: parseFloat(process.env.MOCK_EXCHANGE_INITIAL_USDT || '100000'),
+  },
+  risk: {
+    // Defaults for users without stored limits
+    maxOrderSize: parseFloat(process.env.RISK_MAX_ORDER_SIZE || '100000'), // USD per order
+    maxPositionSize: parseFloat(process.env.RISK_MAX_POSITION_SIZE || '500000'), // USD per position
+    maxDrawdown: parseFloat(process.env.RISK_MAX_DRAWDOWN || '-0.1'),
+    minBalance: parseFloat(process.env.RISK_MIN_BALANCE || '100'),
+    maxDailyLoss: parseFloat(process.env.RISK_MAX_DAILY_LOSS || '0'), // USD; 0 = disabled
+    slippageWarning: parseFloat(process.env.RISK_SLIPPAGE_WARNING || '0.005'), // Warn above 0.5% estimated slippage
+    maxLeverage: parseFloat(process.env.RISK_MAX_LEVERAGE || '20'),
+    minLiquidationDistance: parseFloat(process.env.RISK_MIN_LIQUIDATION_DISTANCE || '0.05'), // 0 = disabled
+    maintenanceMarginRate: parseFloat(process.env.RISK_MAINTENANCE_MARGIN_RATE || '0.005'), // For liquidation estimates
+  },
   alerts: {
     largeBalanceChangeThreshold: 10000, // USD
     largePositionThreshold: 50000, // USD
@@ -0,0 +1,163 @@
+/**
+ * BinanceConnector user data stream handling against captured stream messages
+ */
+
+import { BinanceConnector } from '../binance';
+import { RealtimeUpdate } from '../../types';
+import accountUpdate from './fixtures/binance/futures-account-update.json';
+import futuresBalance from './fixtures/binance/futures-balance.json';
+import orderTradeUpdate from './fixtures/binance/futures-order-trade-update.json';
+import marginCall from './fixtures/binance/futures-margin-call.json';
+import executionReport from './fixtures/binance/spot-execution-report.json';
+import outboundAccountPosition from './fixtures/binance/spot-outbound-account-position.json';
+import balanceUpdate from './fixtures/binance/spot-balance-update.json';
+
+describe('BinanceConnector user data streams', () => {
+  let connector: BinanceConnector;
+  let updates: RealtimeUpdate[];
+
+  const futuresMessage = (message: object) => (connector as any).handleWebSocketMessage(message);
+  const spotMessage = (message: object) => (connector as any).handleSpotUserDataStreamMessage(message);
+
+  beforeEach(() => {
+    connector = new BinanceConnector({ exchange: 'binance', apiKey: 'key', apiSecret: 'secret' });
+    updates = [];
+    // Collect emitted updates without opening the stream sockets
+    (connector as any).realtimeCallbacks = [(update: RealtimeUpdate) => updates.push(update)];
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await connector.unsubscribeRealtimeUpdates();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('futures', () => {
+    it('emits positions from ACCOUNT_UPDATE with the mark price derived from unrealized PnL', () => {
+      jest.useFakeTimers();
+      futuresMessage(accountUpdate);
+
+      expect(updates).toHaveLength(1);
+      expect(updates[0].type).toBe('position');
+      expect(updates[0].data).toMatchObject({
+        symbol: 'BTCUSDT',
+        side: 'long',
+        size: 0.01,
+        entryPrice: 67250.5,
+        marginMode: 'cross',
+        exchange: 'binance',
+      });
+      expect((updates[0].data as any).markPrice).toBeCloseTo(67890.1);
+      expect((updates[0].data as any).unrealizedPnl).toBeCloseTo(6.396);
+    });
+
+    it('re-reads balances over REST after ACCOUNT_UPDATE so free is the available balance', async () => {
+      jest.useFakeTimers();
+      const request = jest.fn().mockResolvedValue(futuresBalance);
+      (connector as any).authenticatedRequest = request;
+
+      futuresMessage(accountUpdate);
+      futuresMessage(accountUpdate);
+      await jest.advanceTimersByTimeAsync(250);
+
+      // Both events share one request
+      expect(request).toHaveBeenCalledTimes(1);
+      expect(request.mock.calls[0][1]).toBe('/fapi/v2/balance');
+      const balances = updates.filter((u) => u.type === 'balance').map((u) => u.data as any);
+      expect(balances).toHaveLength(2);
+      const usdt = balances.find((b) => b.asset === 'USDT');
+      expect(usdt).toMatchObject({ accountType: 'futures', exchange: 'binance' });
+      expect(usdt.available).toBeCloseTo(350.8033);
+      expect(usdt.total).toBeCloseTo(1015.9688);
+      expect(usdt.usdValue).toBeCloseTo(1015.9688);
+      // BNB is gone from the REST response
+      expect(balances.find((b) => b.asset === 'BNB')).toMatchObject({ total: 0, available: 0 });
+    });
+
+    it('emits an order and a trade for a filled ORDER_TRADE_UPDATE', () => {
+      futuresMessage(orderTradeUpdate);
+
+      expect(updates.map((u) => u.type)).toEqual(['order', 'trade']);
+      expect(updates[0].data).toMatchObject({
+        symbol: 'BTCUSDT',
+        side: 'buy',
+        type: 'market',
+        quantity: 0.01,
+        status: 'filled',
+        orderId: '412345678901',
+        filledQuantity: 0.01,
+        averagePrice: 67250.5,
+        clientOrderId: 'web_8xZq2LkP4uTt',
+        market: 'futures',
+      });
+      expect(updates[1].data).toMatchObject({
+        symbol: 'BTCUSDT',
+        side: 'buy',
+        price: 67250.5,
+        quantity: 0.01,
+        fee: 0.269002,
+        feeAsset: 'USDT',
+        timestamp: 1717999000117,
+        tradeId: '5012345678',
+        orderId: '412345678901',
+        market: 'futures',
+      });
+    });
+
+    it('emits positions from MARGIN_CALL with the entry price derived from unrealized PnL', () => {
+      futuresMessage(marginCall);
+
+      expect(updates).toHaveLength(1);
+      const position = updates[0].data as any;
+      expect(position).toMatchObject({ symbol: 'ETHUSDT', side: 'long', size: 1.327, markPrice: 3187.17127 });
+      expect(position.unrealizedPnl).toBeCloseTo(-1.166074);
+      expect(position.entryPrice).toBeCloseTo(3187.17127 + 1.166074 / 1.327);
+    });
+  });
+
+  describe('spot', () => {
+    it('emits an order with the average fill price and a trade for executionReport', () => {
+      spotMessage(executionReport);
+
+      expect(updates.map((u) => u.type)).toEqual(['order', 'trade']);
+      const order = updates[0].data as any;
+      expect(order).toMatchObject({
+        symbol: 'ETHBTC',
+        side: 'buy',
+        type: 'limit',
+        price: 0.054,
+        quantity: 0.5,
+        status: 'partially_filled',
+        orderId: '1732145678',
+        filledQuantity: 0.3,
+        market: 'spot',
+      });
+      expect(order.averagePrice).toBeCloseTo(0.01619 / 0.3);
+      expect(updates[1].data).toMatchObject({
+        price: 0.054,
+        quantity: 0.2,
+        fee: 0.0000215,
+        feeAsset: 'BNB',
+        tradeId: '482915634',
+        market: 'spot',
+      });
+    });
+
+    it('emits balances from outboundAccountPosition and applies later balanceUpdate deltas', () => {
+      spotMessage(balanceUpdate);
+      // No account snapshot yet, so the delta has nothing to apply to
+      expect(updates).toHaveLength(0);
+
+      spotMessage(outboundAccountPosition);
+      spotMessage(balanceUpdate);
+
+      const balances = updates.map((u) => u.data as any);
+      expect(balances).toHaveLength(3);
+      expect(balances[0]).toMatchObject({ asset: 'ETH', total: 0.5, available: 0.3, accountType: 'spot' });
+      expect(balances[1]).toMatchObject({ asset: 'USDT', total: 1250, available: 1250, usdValue: 1250 });
+      expect(balances[2]).toMatchObject({ asset: 'USDT', total: 1000, available: 1000, usdValue: 1000 });
+    });
+  });
+});
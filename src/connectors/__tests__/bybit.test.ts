@@ -0,0 +1,157 @@
+/**
+ * BybitConnector against recorded v5 REST responses
+ */
+
+import { BybitApiError, BybitConnector } from '../bybit';
+import walletUnified from './fixtures/bybit/wallet-balance-unified.json';
+import walletNotUnified from './fixtures/bybit/wallet-balance-not-unified.json';
+import walletContract from './fixtures/bybit/wallet-balance-contract.json';
+import invalidApiKey from './fixtures/bybit/invalid-api-key.json';
+import positionList from './fixtures/bybit/position-list.json';
+import executionList from './fixtures/bybit/execution-list.json';
+
+type Route = (params: URLSearchParams) => object;
+
+/**
+ * Answer the connector's signed requests from fixtures keyed by path
+ */
+function replay(connector: BybitConnector, routes: Record<string, Route>): jest.Mock {
+  const request = jest.fn(async ({ url }: { url: string }) => {
+    const [path, query] = url.split('?');
+    const route = routes[path];
+    if (!route) throw new Error(`No fixture for ${url}`);
+    return { data: route(new URLSearchParams(query)) };
+  });
+  (connector as any).client.request = request;
+  return request;
+}
+
+describe('BybitConnector', () => {
+  let connector: BybitConnector;
+
+  beforeEach(() => {
+    connector = new BybitConnector({ exchange: 'bybit', apiKey: 'key', apiSecret: 'secret' });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('maps unified wallet coins and drops empty ones', async () => {
+    replay(connector, { '/v5/account/wallet-balance': () => walletUnified });
+
+    const balances = await connector.fetchBalances();
+
+    expect(balances).toHaveLength(2);
+    const usdt = balances.find((b) => b.asset === 'USDT')!;
+    expect(usdt.free).toBeCloseTo(9770.16233065);
+    expect(usdt.locked).toBeCloseTo(250.5);
+    expect(usdt.accountType).toBeUndefined();
+    const btc = balances.find((b) => b.asset === 'BTC')!;
+    expect(btc.free).toBeCloseTo(0.05);
+    expect(btc.usdPrice).toBeCloseTo(72378.4994);
+  });
+
+  it('falls back to classic accounts when the wallet is not unified', async () => {
+    replay(connector, {
+      '/v5/account/wallet-balance': (params) => {
+        const accountType = params.get('accountType');
+        if (accountType === 'UNIFIED') return walletNotUnified;
+        if (accountType === 'CONTRACT') return walletContract;
+        return invalidApiKey;
+      },
+    });
+
+    const balances = await connector.fetchBalances();
+
+    expect(balances).toEqual([expect.objectContaining({ asset: 'USDT', free: 500, locked: 0, accountType: 'futures' })]);
+  });
+
+  it('throws instead of returning an empty wallet when no account can be read', async () => {
+    replay(connector, { '/v5/account/wallet-balance': () => invalidApiKey });
+
+    await expect(connector.fetchBalances()).rejects.toThrow(/Failed to fetch Bybit balances/);
+  });
+
+  it('maps open linear positions and reports a missing liquidation price as undefined', async () => {
+    replay(connector, { '/v5/position/list': () => positionList });
+
+    const positions = await connector.fetchPositions();
+
+    expect(positions).toHaveLength(2);
+    expect(positions[0]).toMatchObject({
+      symbol: 'BTCUSDT',
+      side: 'long',
+      size: 0.01,
+      entryPrice: 67250.5,
+      markPrice: 67890.1,
+      leverage: 10,
+      liquidationPrice: 60812.3,
+    });
+    expect(positions[1]).toMatchObject({ symbol: 'ETHUSDT', side: 'short', size: 0.5, liquidationPrice: undefined });
+  });
+
+  it('throws instead of returning no positions when the position list cannot be read', async () => {
+    replay(connector, { '/v5/position/list': () => invalidApiKey });
+
+    await expect(connector.fetchPositions()).rejects.toThrow('Bybit API error (10003): API key is invalid.');
+  });
+
+  it('throws instead of returning partial open orders when a category cannot be read', async () => {
+    replay(connector, {
+      '/v5/order/realtime': (params) =>
+        params.get('category') === 'spot' ? { retCode: 0, retMsg: 'OK', result: { list: [] } } : invalidApiKey,
+    });
+
+    await expect(connector.fetchOpenOrders()).rejects.toThrow(BybitApiError);
+  });
+
+  it('keeps only trade executions from the execution list', async () => {
+    replay(connector, {
+      '/v5/execution/list': (params) =>
+        params.get('category') === 'spot' ? executionList : { retCode: 0, retMsg: 'OK', result: { list: [] } },
+    });
+
+    const trades = await connector.fetchTradeHistory(1717990000000, 1718000000000);
+
+    expect(trades).toEqual([
+      {
+        symbol: 'BTCUSDT',
+        side: 'buy',
+        price: 67250.5,
+        quantity: 0.05,
+        fee: 0.00005,
+        feeAsset: 'BTC',
+        timestamp: 1717999000000,
+        tradeId: '2100000000055340839',
+        orderId: '1718000000000123456',
+        market: 'spot',
+      },
+    ]);
+  });
+
+  it('fetches executions for one symbol in a time range', async () => {
+    const request = replay(connector, { '/v5/execution/list': () => executionList });
+
+    const trades = await connector.fetchTradesInRange('BTC/USDT', 'spot', 1717990000000, 1718000000000);
+
+    expect(request.mock.calls[0][0].url).toContain('category=spot');
+    expect(request.mock.calls[0][0].url).toContain('symbol=BTCUSDT');
+    expect(trades).toEqual([
+      {
+        symbol: 'BTCUSDT',
+        side: 'buy',
+        price: 67250.5,
+        quantity: 0.05,
+        fee: 0.00005,
+        feeAsset: 'BTC',
+        timestamp: 1717999000000,
+        tradeId: '2100000000055340839',
+        orderId: '1718000000000123456',
+        market: 'spot',
+      },
+    ]);
+  });
+});
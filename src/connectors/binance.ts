@@ -14,12 +14,62 @@ import {
   RawOrder,
   RawTrade,
   RealtimeCallback,
+  RealtimeUpdate,
   ExchangeCredentials,
   OrderParams,
   OrderResult,
+  OrderBook,
+  AccountAsset,
+  IncomeRecord,
+  SymbolRules,
 } from '../types';
+import { config } from '../config';
 import { rateLimiter } from '../security/rateLimiter';
 import { BinanceNormalizer } from '../normalizer';
+import { ConnectorHealth } from './health';
+
+// Maximum startTime/endTime span accepted by /myTrades and /fapi/v1/userTrades
+const SPOT_TRADE_WINDOW_MS = 24 * 60 * 60 * 1000;
+const FUTURES_TRADE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const TRADE_PAGE_LIMIT = 1000;
+
+// Request weight of endpoints heavier than 1 (Binance limits weight per minute, not request count)
+const REQUEST_WEIGHTS: Record<string, number> = {
+  '/account': 20,
+  '/myTrades': 20,
+  '/allOrders': 20,
+  '/exchangeInfo': 20,
+  '/ticker/price': 4,
+  '/fapi/v2/account': 5,
+  '/fapi/v2/balance': 5,
+  '/fapi/v2/positionRisk': 5,
+  '/fapi/v1/userTrades': 5,
+  '/fapi/v1/allOrders': 5,
+  '/fapi/v1/income': 30,
+  '/fapi/v1/premiumIndex': 10,
+  '/fapi/v1/ticker/price': 2,
+};
+
+/**
+ * Weight of a request (open orders cost more across all symbols; order placement and cancels weigh 1)
+ */
+function requestWeight(endpoint: string, params: Record<string, any> = {}, method: string = 'GET'): number {
+  if (method !== 'GET') return 1;
+  if (endpoint === '/openOrders') return params.symbol ? 6 : 80;
+  if (endpoint === '/fapi/v1/openOrders') return params.symbol ? 1 : 40;
+  return REQUEST_WEIGHTS[endpoint] ?? 1;
+}
+
+/**
+ * Weight of an order book request for a depth limit
+ */
+function depthWeight(market: 'spot' | 'futures', limit: number): number {
+  if (market === 'futures') return limit <= 50 ? 2 : limit <= 100 ? 5 : limit <= 500 ? 10 : 20;
+  return limit <= 100 ? 5 : limit <= 500 ? 25 : 50;
+}
+
+// Delay before re-reading futures balances after ACCOUNT_UPDATE
+const BALANCE_REFRESH_DELAY_MS = 250;
 
 interface BinanceSpotBalance {
   asset: string;
@@ -34,9 +84,75 @@ interface BinanceFuturesPosition {
   markPrice: string;
   unRealizedProfit: string;
   leverage: string;
+  liquidationPrice: string;
+  marginType: 'cross' | 'isolated';
   positionSide: 'LONG' | 'SHORT' | 'BOTH';
 }
 
+interface BinanceSymbolInfo {
+  symbol: string;
+  status: string;
+  baseAsset: string;
+  quoteAsset: string;
+  filters: Array<{ filterType: string; [key: string]: any }>;
+}
+
+// Spot executionReport (single-letter fields as pushed by the user data stream)
+interface BinanceExecutionReport {
+  e: 'executionReport';
+  E: number; // Event time
+  s: string; // Symbol
+  c: string; // Client order id
+  S: 'BUY' | 'SELL';
+  o: string; // Order type
+  q: string; // Order quantity
+  p: string; // Order price
+  x: string; // Execution type (NEW, TRADE, CANCELED, ...)
+  X: string; // Order status
+  i: number; // Order id
+  l: string; // Last executed quantity
+  z: string; // Cumulative filled quantity
+  L: string; // Last executed price
+  n: string; // Commission amount
+  N: string | null; // Commission asset
+  T: number; // Transaction time
+  t: number; // Trade id (-1 if not a trade)
+  Z: string; // Cumulative quote quantity
+}
+
+// Futures ORDER_TRADE_UPDATE payload (`o` field)
+interface BinanceFuturesOrderUpdate {
+  s: string;
+  c: string;
+  S: 'BUY' | 'SELL';
+  o: string;
+  q: string;
+  p: string;
+  ap: string; // Average price
+  x: string;
+  X: string;
+  i: number;
+  l: string;
+  z: string;
+  L: string;
+  N?: string;
+  n?: string;
+  T: number;
+  t: number;
+  rp: string; // Realized profit of the trade
+}
+
+// Futures position as pushed in ACCOUNT_UPDATE (`a.P`) and MARGIN_CALL (`p`)
+interface BinanceStreamPosition {
+  s: string;
+  pa: string; // Position amount (signed in one-way mode)
+  ep?: string; // Entry price (ACCOUNT_UPDATE only)
+  mp?: string; // Mark price (MARGIN_CALL only)
+  up: string; // Unrealized PnL
+  mt?: 'cross' | 'isolated'; // Margin type
+  ps: 'LONG' | 'SHORT' | 'BOTH';
+}
+
 interface BinanceOrder {
   symbol: string;
   orderId: number;
@@ -62,13 +178,22 @@ interface BinanceTrade {
 
 export class BinanceConnector implements ExchangeConnector, TradingConnector {
   readonly exchangeName = 'binance';
+  readonly health = new ConnectorHealth('binance');
   private credentials: ExchangeCredentials;
   private spotClient: AxiosInstance;
   private futuresClient: AxiosInstance;
   private wsConnections: WebSocket[] = [];
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private balanceRefreshTimer: NodeJS.Timeout | null = null;
+  private balanceRefreshAssets: Set<string> = new Set(); // Futures assets changed by ACCOUNT_UPDATE
+  private listenKeyKeepAliveInterval: NodeJS.Timeout | null = null;
   private spotUserDataStream: WebSocket | null = null;
   private spotListenKey: string | null = null;
   private spotListenKeyKeepAliveInterval: NodeJS.Timeout | null = null;
+  private spotReconnectTimer: NodeJS.Timeout | null = null;
+  private spotBalances: Map<string, RawBalance> = new Map(); // Last pushed spot balances (for balanceUpdate deltas)
+  private positionLeverage: Map<string, number> = new Map(); // Stream positions don't carry leverage
+  private symbolRules: Map<'spot' | 'futures', { rules: Map<string, SymbolRules>; fetchedAt: number }> = new Map();
   private realtimeCallbacks: RealtimeCallback[] = [];
   private normalizer: BinanceNormalizer;
 
@@ -105,9 +230,6 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
       baseURL: futuresBaseURL,
       timeout: 10000,
     });
-
-    // Set rate limit
-    rateLimiter.setLimit('binance', 1200, 60000); // 1200 requests per minute
   }
 
   /**
@@ -145,7 +267,7 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
     params: Record<string, any> = {},
     method: 'GET' | 'POST' | 'DELETE' = 'GET'
   ): Promise<any> {
-    await rateLimiter.checkLimit('binance');
+    await rateLimiter.checkLimit('binance', requestWeight(endpoint, params, method));
 
     const timestamp = Date.now();
     const queryParams = {
@@ -228,18 +350,9 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
           return hasBalance;
         })
         .map((b: any) => {
-          const balance = parseFloat(b.balance || '0');
-          const available = parseFloat(b.availableBalance || '0');
-          const locked = balance - available;
-          
-          console.log(`[Binance] Futures balance: ${b.asset} = ${balance} (available: ${available}, locked: ${locked})`);
-          
-          return {
-            asset: b.asset,
-            free: available,
-            locked: locked,
-            accountType: 'futures' as const,
-          };
+          const raw = this.mapFuturesBalance(b);
+          console.log(`[Binance] Futures balance: ${b.asset} = ${b.balance} (available: ${raw.free}, locked: ${raw.locked})`);
+          return raw;
         });
       
       console.log(`[Binance] ✓ Fetched ${futuresBalances.length} futures balances (from ${futuresData.length} total)`);
@@ -274,6 +387,31 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
     return allBalances;
   }
 
+  /**
+   * Fetch last spot prices (falls back to futures tickers when spot is unavailable)
+   */
+  async fetchTickerPrices(): Promise<Record<string, number>> {
+    await rateLimiter.checkLimit('binance', requestWeight('/ticker/price'));
+
+    let tickers: Array<{ symbol: string; price: string }>;
+    try {
+      const response = await this.spotClient.get('/ticker/price');
+      tickers = response.data;
+    } catch (spotError: any) {
+      console.warn(`[Binance] Spot ticker prices unavailable (${spotError.message}), using futures tickers`);
+      await rateLimiter.checkLimit('binance', requestWeight('/fapi/v1/ticker/price'));
+      const response = await this.futuresClient.get('/fapi/v1/ticker/price');
+      tickers = response.data;
+    }
+
+    const prices: Record<string, number> = {};
+    tickers.forEach((t) => {
+      const price = parseFloat(t.price);
+      if (price > 0) prices[t.symbol] = price;
+    });
+    return prices;
+  }
+
   /**
    * Fetch positions from Futures account
    */
@@ -291,6 +429,7 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
         .map((p: BinanceFuturesPosition) => {
           const size = Math.abs(parseFloat(p.positionAmt));
           const side = parseFloat(p.positionAmt) > 0 ? 'long' : 'short';
+          this.positionLeverage.set(p.symbol, parseInt(p.leverage));
 
           return {
             symbol: p.symbol,
@@ -299,6 +438,9 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
             entryPrice: parseFloat(p.entryPrice),
             markPrice: parseFloat(p.markPrice),
             leverage: parseInt(p.leverage),
+            // "0" when there is no liquidation price
+            liquidationPrice: parseFloat(p.liquidationPrice) > 0 ? parseFloat(p.liquidationPrice) : undefined,
+            marginMode: p.marginType,
           };
         });
 
@@ -483,10 +625,61 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
     }));
   }
 
+  /**
+   * Fetch all fills for a symbol in a time range
+   */
+  async fetchTradesInRange(
+    symbol: string,
+    market: 'spot' | 'futures',
+    startTime: number,
+    endTime: number
+  ): Promise<RawTrade[]> {
+    const symbolClean = symbol.replace('/', '');
+    const isFutures = market === 'futures';
+    const client = isFutures ? this.futuresClient : this.spotClient;
+    const endpoint = isFutures ? '/fapi/v1/userTrades' : '/myTrades';
+    const windowMs = isFutures ? FUTURES_TRADE_WINDOW_MS : SPOT_TRADE_WINDOW_MS;
+    const trades = new Map<string, RawTrade>();
+
+    for (let windowStart = startTime; windowStart < endTime; windowStart += windowMs) {
+      const windowEnd = Math.min(windowStart + windowMs, endTime);
+      let pageStart = windowStart;
+      // Full pages continue from the last trade's time (same-ms trades are de-duplicated by id)
+      while (true) {
+        const data = await this.authenticatedRequest(client, endpoint, {
+          symbol: symbolClean,
+          startTime: pageStart,
+          endTime: windowEnd,
+          limit: TRADE_PAGE_LIMIT,
+        });
+        const page = Array.isArray(data) ? data : [];
+        page.forEach((t: any) => {
+          trades.set(t.id.toString(), {
+            symbol: t.symbol,
+            side: t.side?.toLowerCase() as 'buy' | 'sell',
+            price: parseFloat(t.price),
+            quantity: parseFloat(t.qty),
+            fee: parseFloat(t.commission || '0'),
+            feeAsset: t.commissionAsset,
+            timestamp: t.time,
+            tradeId: t.id.toString(),
+            orderId: t.orderId?.toString(),
+            realizedPnl: t.realizedPnl !== undefined ? parseFloat(t.realizedPnl) : undefined,
+          });
+        });
+        const lastTime = page.length > 0 ? page[page.length - 1].time : pageStart;
+        if (page.length < TRADE_PAGE_LIMIT || lastTime <= pageStart) break;
+        pageStart = lastTime;
+      }
+    }
+
+    return Array.from(trades.values()).sort((a, b) => a.timestamp - b.timestamp);
+  }
+
   /**
    * Fetch futures account assets (wallet/margin/available)
    */
-  async fetchFuturesAssets(): Promise<any[]> {
+  async fetchFuturesAssets(): Promise<AccountAsset[]> {
     const data = await this.authenticatedRequest(this.futuresClient, '/fapi/v2/account');
     const assets = Array.isArray(data?.assets) ? data.assets : [];
     return assets.map((a: any) => ({
@@ -501,7 +694,7 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
   /**
    * Fetch spot account assets (wallet/available)
    */
-  async fetchSpotAssets(): Promise<any[]> {
+  async fetchSpotAssets(): Promise<AccountAsset[]> {
     const data = await this.authenticatedRequest(this.spotClient, '/account');
     const balances = Array.isArray(data?.balances) ? data.balances : [];
     return balances.map((b: any) => {
@@ -517,10 +710,26 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
     });
   }
 
+  /**
+   * Fetch last funding rates for USDⓈ-M perpetuals (all symbols unless filtered)
+   */
+  async fetchFundingRates(symbols?: string[]): Promise<Record<string, number>> {
+    await rateLimiter.checkLimit('binance', requestWeight('/fapi/v1/premiumIndex'));
+    const response = await this.futuresClient.get('/fapi/v1/premiumIndex');
+    const wanted = symbols ? new Set(symbols.map((s) => s.replace('/', '').toUpperCase())) : null;
+
+    const rates: Record<string, number> = {};
+    (response.data as Array<{ symbol: string; lastFundingRate: string }>).forEach((p) => {
+      if (wanted && !wanted.has(p.symbol)) return;
+      rates[p.symbol] = parseFloat(p.lastFundingRate || '0');
+    });
+    return rates;
+  }
+
   /**
    * Fetch futures income/transaction history
    */
-  async fetchFuturesIncome(limit: number = 20): Promise<any[]> {
+  async fetchFuturesIncome(limit: number = 20): Promise<IncomeRecord[]> {
     const data = await this.authenticatedRequest(this.futuresClient, '/fapi/v1/income', {
       limit,
     });
@@ -563,13 +772,14 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
       const listenKey = await this.getUserDataStreamListenKey();
 
       const wsUrl = this.credentials.sandbox
-        ? 'wss://testnet.binance.vision/ws'
+        ? 'wss://stream.binancefuture.com/ws'
         : 'wss://fstream.binance.com/ws';
 
       const ws = new WebSocket(`${wsUrl}/${listenKey}`);
 
       ws.on('open', () => {
         console.log(`[Binance] WebSocket connected`);
+        this.health.recordSuccess('websocket');
       });
 
       ws.on('message', (data: WebSocket.Data) => {
@@ -586,16 +796,21 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
       });
 
       ws.on('close', () => {
-        console.log('[Binance] WebSocket closed, reconnecting...');
-        setTimeout(() => {
-          this.setupWebSocketConnections().catch(console.error);
-        }, 5000);
+        if (!this.wsConnections.includes(ws)) {
+          return; // Closed intentionally via unsubscribeRealtimeUpdates
+        }
+        this.wsConnections = this.wsConnections.filter((c) => c !== ws);
+        this.health.recordFailure('websocket', 'connection closed');
+        this.scheduleReconnect();
       });
 
       this.wsConnections.push(ws);
 
       // Keep listen key alive (required every 30 minutes)
-      setInterval(() => {
+      if (this.listenKeyKeepAliveInterval) {
+        clearInterval(this.listenKeyKeepAliveInterval);
+      }
+      this.listenKeyKeepAliveInterval = setInterval(() => {
         this.keepAliveListenKey(listenKey).catch(console.error);
       }, 20 * 60 * 1000); // Every 20 minutes
     } catch (error: any) {
@@ -604,16 +819,35 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
     }
   }
 
+  /**
+   * Reconnect the futures stream with exponential backoff (retries until it succeeds or is unsubscribed)
+   */
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer || this.realtimeCallbacks.length === 0) return;
+    const delay = this.health.reconnectDelay();
+    console.log(`[Binance] WebSocket closed, reconnecting in ${Math.round(delay / 1000)}s...`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.setupWebSocketConnections().catch(() => this.scheduleReconnect());
+    }, delay);
+  }
+
   /**
    * Get user data stream listen key
    */
   private async getUserDataStreamListenKey(): Promise<string> {
-    const response = await this.futuresClient.post('/fapi/v1/listenKey', null, {
-      headers: {
-        'X-MBX-APIKEY': this.credentials.apiKey,
-      },
-    });
-    return response.data.listenKey;
+    try {
+      const response = await this.futuresClient.post('/fapi/v1/listenKey', null, {
+        headers: {
+          'X-MBX-APIKEY': this.credentials.apiKey,
+        },
+      });
+      this.health.recordSuccess('listenKey');
+      return response.data.listenKey;
+    } catch (error: any) {
+      this.health.recordFailure('listenKey', error.message);
+      throw error;
+    }
   }
 
   /**
@@ -627,30 +861,170 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
           'X-MBX-APIKEY': this.credentials.apiKey,
         },
       });
-    } catch (error) {
+      this.health.recordSuccess('listenKey');
+    } catch (error: any) {
       console.error('[Binance] Failed to keep listen key alive:', error);
+      this.health.recordFailure('listenKey', error.message);
     }
   }
 
   /**
-   * Handle WebSocket messages
+   * Normalize futures user data stream events into RealtimeUpdates
    */
   private handleWebSocketMessage(message: any): void {
-    // Handle account update (balance changes)
-    if (message.e === 'ACCOUNT_UPDATE') {
-      // Process balance updates
-      // This is simplified - actual implementation would normalize and emit
+    this.emitUpdates(this.parseFuturesUserDataEvent(message));
+  }
+
+  /**
+   * ACCOUNT_UPDATE, ORDER_TRADE_UPDATE, MARGIN_CALL and ACCOUNT_CONFIG_UPDATE
+   */
+  private parseFuturesUserDataEvent(message: any): RealtimeUpdate[] {
+    const updates: RealtimeUpdate[] = [];
+
+    if (message.e === 'ACCOUNT_UPDATE' && message.a) {
+      // The event has wallet and cross-wallet balances but not availableBalance (which also nets
+      // unrealized PnL and margin in use), so balances are re-read over REST to match fetchBalances
+      const assets: string[] = (message.a.B || []).map((b: { a: string }) => b.a);
+      if (assets.length > 0) this.scheduleBalanceRefresh(assets);
+      (message.a.P || []).forEach((p: BinanceStreamPosition) => {
+        updates.push({
+          type: 'position',
+          data: this.normalizer.normalizePosition(this.mapStreamPosition(p), this.exchangeName),
+        });
+      });
+    } else if (message.e === 'ORDER_TRADE_UPDATE' && message.o) {
+      const o: BinanceFuturesOrderUpdate = message.o;
+      updates.push({
+        type: 'order',
+        data: this.normalizer.normalizeOrder(
+          {
+            symbol: o.s,
+            side: o.S.toLowerCase() as 'buy' | 'sell',
+            type: o.o.toLowerCase(),
+            price: parseFloat(o.p || '0'),
+            quantity: parseFloat(o.q || '0'),
+            status: this.mapBinanceStatus(o.X),
+            orderId: o.i.toString(),
+            timestamp: o.T || message.E || Date.now(),
+            filledQuantity: parseFloat(o.z || '0'),
+            averagePrice: parseFloat(o.ap || '0'),
+            clientOrderId: o.c,
+            market: 'futures',
+          },
+          this.exchangeName
+        ),
+      });
+      if (o.x === 'TRADE') {
+        updates.push({
+          type: 'trade',
+          data: this.normalizer.normalizeTrade(
+            {
+              symbol: o.s,
+              side: o.S.toLowerCase() as 'buy' | 'sell',
+              price: parseFloat(o.L || '0'),
+              quantity: parseFloat(o.l || '0'),
+              fee: parseFloat(o.n || '0'),
+              feeAsset: o.N || '',
+              timestamp: o.T || message.E || Date.now(),
+              tradeId: o.t.toString(),
+              orderId: o.i.toString(),
+              realizedPnl: parseFloat(o.rp || '0'),
+              market: 'futures',
+            },
+            this.exchangeName
+          ),
+        });
+      }
+    } else if (message.e === 'MARGIN_CALL') {
+      const positions: BinanceStreamPosition[] = message.p || [];
+      console.warn(`[Binance] Margin call: ${positions.map((p) => p.s).join(', ')} (cross wallet ${message.cw})`);
+      positions.forEach((p) => {
+        updates.push({
+          type: 'position',
+          data: this.normalizer.normalizePosition(this.mapStreamPosition(p), this.exchangeName),
+        });
+      });
+    } else if (message.e === 'ACCOUNT_CONFIG_UPDATE' && message.ac) {
+      this.positionLeverage.set(message.ac.s, Number(message.ac.l));
     }
 
-    // Handle order update
-    if (message.e === 'ORDER_TRADE_UPDATE') {
-      // Process order updates
+    return updates;
+  }
+
+  /**
+   * Stream positions carry entry price + unrealized PnL (ACCOUNT_UPDATE) or mark price (MARGIN_CALL);
+   * derive the missing price so the normalizer's PnL matches the exchange's
+   */
+  private mapStreamPosition(p: BinanceStreamPosition): RawPosition {
+    const amount = parseFloat(p.pa || '0');
+    const unrealizedPnl = parseFloat(p.up || '0');
+    let entryPrice = parseFloat(p.ep || '0');
+    let markPrice = parseFloat(p.mp || '0');
+    if (amount !== 0) {
+      if (!p.mp) markPrice = entryPrice + unrealizedPnl / amount;
+      if (!p.ep) entryPrice = markPrice - unrealizedPnl / amount;
     }
 
-    // Emit to all callbacks
-    this.realtimeCallbacks.forEach((callback) => {
-      // Normalize and emit updates
-      // Implementation depends on message type
+    return {
+      symbol: p.s,
+      side: p.ps === 'LONG' ? 'long' : p.ps === 'SHORT' ? 'short' : 'both',
+      size: p.ps === 'SHORT' ? -Math.abs(amount) : amount,
+      entryPrice,
+      markPrice,
+      leverage: this.positionLeverage.get(p.s),
+      marginMode: p.mt,
+    };
+  }
+
+  private isStablecoin(asset: string): boolean {
+    return ['USDT', 'USDC', 'BUSD', 'FDUSD'].includes(asset.toUpperCase());
+  }
+
+  /**
+   * REST futures balance (/fapi/v2/balance) as a RawBalance: free is what can be used for new margin
+   */
+  private mapFuturesBalance(b: any): RawBalance {
+    const balance = parseFloat(b.balance || '0');
+    const available = parseFloat(b.availableBalance || '0');
+    return { asset: b.asset, free: available, locked: balance - available, accountType: 'futures' };
+  }
+
+  /**
+   * Re-read futures balances shortly after ACCOUNT_UPDATE (bursts of events share one request)
+   */
+  private scheduleBalanceRefresh(assets: string[]): void {
+    assets.forEach((asset) => this.balanceRefreshAssets.add(asset));
+    if (this.balanceRefreshTimer) return;
+    this.balanceRefreshTimer = setTimeout(() => {
+      this.balanceRefreshTimer = null;
+      this.refreshFuturesBalances().catch((error: any) => {
+        // The next reconcile re-reads balances anyway
+        console.warn('[Binance] Failed to refresh futures balances after ACCOUNT_UPDATE:', error.message || error);
+      });
+    }, BALANCE_REFRESH_DELAY_MS);
+  }
+
+  private async refreshFuturesBalances(): Promise<void> {
+    const assets = Array.from(this.balanceRefreshAssets);
+    this.balanceRefreshAssets.clear();
+    const data = await this.authenticatedRequest(this.futuresClient, '/fapi/v2/balance');
+    const rows: any[] = Array.isArray(data) ? data : [];
+    this.emitUpdates(
+      assets.map((asset) => {
+        const row = rows.find((b) => b.asset === asset);
+        // Assets missing from the response have been emptied
+        const raw = row ? this.mapFuturesBalance(row) : { asset, free: 0, locked: 0, accountType: 'futures' as const };
+        return {
+          type: 'balance' as const,
+          data: this.normalizer.normalizeBalance(raw, this.exchangeName, this.isStablecoin(asset) ? 1 : 0),
+        };
+      })
+    );
+  }
+
+  private emitUpdates(updates: RealtimeUpdate[]): void {
+    updates.forEach((update) => {
+      this.realtimeCallbacks.forEach((callback) => callback(update));
     });
   }
 
@@ -659,8 +1033,22 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
    */
   async unsubscribeRealtimeUpdates(): Promise<void> {
     this.realtimeCallbacks = [];
-    this.wsConnections.forEach((ws) => ws.close());
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.balanceRefreshTimer) {
+      clearTimeout(this.balanceRefreshTimer);
+      this.balanceRefreshTimer = null;
+      this.balanceRefreshAssets.clear();
+    }
+    if (this.listenKeyKeepAliveInterval) {
+      clearInterval(this.listenKeyKeepAliveInterval);
+      this.listenKeyKeepAliveInterval = null;
+    }
+    const connections = this.wsConnections;
     this.wsConnections = [];
+    connections.forEach((ws) => ws.close());
   }
 
   /**
@@ -743,6 +1131,98 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
 
   // ==================== TradingConnector Implementation ====================
 
+  /**
+   * Fetch the order book (public depth endpoint)
+   */
+  async fetchOrderBook(symbol: string, market: 'spot' | 'futures', depth: number = 100): Promise<OrderBook> {
+    const symbolClean = symbol.replace('/', '').toUpperCase();
+    // Both APIs only accept fixed depths
+    const limit = [5, 10, 20, 50, 100, 500, 1000].find((l) => l >= depth) || 1000;
+    await rateLimiter.checkLimit('binance', depthWeight(market, limit));
+    const response =
+      market === 'futures'
+        ? await this.futuresClient.get('/fapi/v1/depth', { params: { symbol: symbolClean, limit } })
+        : await this.spotClient.get('/depth', { params: { symbol: symbolClean, limit } });
+
+    const toLevels = (levels: string[][] = []) =>
+      levels.map(([price, quantity]) => ({ price: parseFloat(price), quantity: parseFloat(quantity) }));
+    return {
+      symbol: symbolClean,
+      bids: toLevels(response.data.bids),
+      asks: toLevels(response.data.asks),
+      timestamp: response.data.E || response.data.T || Date.now(),
+    };
+  }
+
+  /**
+   * Trading rules for a symbol from exchangeInfo (cached per market for config.markets.rulesTtlMs)
+   */
+  async fetchSymbolRules(symbol: string, market: 'spot' | 'futures'): Promise<SymbolRules | null> {
+    const rules = await this.loadSymbolRules(market);
+    return rules.get(symbol.replace('/', '').toUpperCase()) || null;
+  }
+
+  /**
+   * Every symbol in exchangeInfo for a market
+   */
+  async fetchSymbols(market: 'spot' | 'futures'): Promise<string[]> {
+    return Array.from((await this.loadSymbolRules(market)).keys());
+  }
+
+  private async loadSymbolRules(market: 'spot' | 'futures'): Promise<Map<string, SymbolRules>> {
+    const cached = this.symbolRules.get(market);
+    if (!cached || Date.now() - cached.fetchedAt > config.markets.rulesTtlMs) {
+      await rateLimiter.checkLimit('binance', requestWeight(market === 'futures' ? '/fapi/v1/exchangeInfo' : '/exchangeInfo'));
+      const response =
+        market === 'futures'
+          ? await this.futuresClient.get('/fapi/v1/exchangeInfo')
+          : await this.spotClient.get('/exchangeInfo');
+      const rules = new Map<string, SymbolRules>();
+      (response.data.symbols || []).forEach((info: BinanceSymbolInfo) => {
+        rules.set(info.symbol, this.mapSymbolRules(info, market));
+      });
+      this.symbolRules.set(market, { rules, fetchedAt: Date.now() });
+    }
+    return this.symbolRules.get(market)!.rules;
+  }
+
+  private mapSymbolRules(info: BinanceSymbolInfo, market: 'spot' | 'futures'): SymbolRules {
+    const filter = (type: string) => info.filters.find((f) => f.filterType === type);
+    // Binance reports "no limit" as 0
+    const limit = (value: string | undefined) => (value && parseFloat(value) > 0 ? parseFloat(value) : undefined);
+
+    const price = filter('PRICE_FILTER');
+    const lot = filter('LOT_SIZE');
+    const marketLot = filter('MARKET_LOT_SIZE');
+    // Spot: NOTIONAL (or legacy MIN_NOTIONAL with minNotional); futures: MIN_NOTIONAL with notional
+    const notional = filter('NOTIONAL');
+    const minNotional = filter('MIN_NOTIONAL');
+    const maxPosition = filter('MAX_POSITION');
+
+    return {
+      exchange: 'binance',
+      symbol: info.symbol,
+      market,
+      baseAsset: info.baseAsset,
+      quoteAsset: info.quoteAsset,
+      trading: info.status === 'TRADING',
+      tickSize: limit(price?.tickSize) || 0,
+      minPrice: limit(price?.minPrice),
+      maxPrice: limit(price?.maxPrice),
+      stepSize: limit(lot?.stepSize) || 0,
+      minQuantity: limit(lot?.minQty) || 0,
+      maxQuantity: limit(lot?.maxQty),
+      marketMinQuantity: limit(marketLot?.minQty),
+      marketMaxQuantity: limit(marketLot?.maxQty),
+      minNotional: limit(notional?.minNotional ?? minNotional?.minNotional ?? minNotional?.notional),
+      minNotionalAppliesToMarket: notional
+        ? notional.applyMinToMarket !== false
+        : minNotional?.applyToMarket !== false,
+      maxNotional: limit(notional?.maxNotional),
+      maxPosition: limit(maxPosition?.maxPosition),
+    };
+  }
+
   /**
    * Place a new order
    */
@@ -757,6 +1237,23 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
       endpoint = isFutures ? '/fapi/v1/order' : '/order';
       const client = isFutures ? this.futuresClient : this.spotClient;
 
+      if (isFutures && params.marginMode) {
+        try {
+          await this.authenticatedRequest(
+            this.futuresClient,
+            '/fapi/v1/marginType',
+            { symbol, marginType: params.marginMode === 'isolated' ? 'ISOLATED' : 'CROSSED' },
+            'POST'
+          );
+        } catch (marginError: any) {
+          // -4046: margin type already set
+          if (marginError.response?.data?.code !== -4046) {
+            const marginMsg = marginError.response?.data?.msg || marginError.message || 'Failed to set margin type';
+            throw new Error(`Binance margin type set failed: ${marginMsg}`);
+          }
+        }
+      }
+
       if (isFutures && params.leverage) {
         try {
           await this.authenticatedRequest(
@@ -941,31 +1438,31 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
   }
 
   /**
-   * Cancel all open orders
+   * Cancel all open orders on spot and futures (one symbol, or every symbol with open orders)
    */
   async cancelAllOrders(symbol?: string): Promise<void> {
-    try {
-      if (symbol) {
-        const symbolClean = symbol.replace('/', '');
-        const isFutures = symbol.includes('USDT') && symbol.endsWith('USDT');
-        
-        const endpoint = isFutures ? '/fapi/v1/allOpenOrders' : '/openOrders';
-        const client = isFutures ? this.futuresClient : this.spotClient;
-
-        await this.authenticatedRequest(
-          client,
-          endpoint,
-          {
-            symbol: symbolClean,
-          },
-          'DELETE'
-        );
-      } else {
-        // Cancel all orders across all symbols (futures only)
-        await this.authenticatedRequest(this.futuresClient, '/fapi/v1/allOpenOrders', {}, 'DELETE');
+    const symbolClean = symbol?.replace('/', '').toUpperCase();
+    const markets = [
+      { client: this.spotClient, openEndpoint: '/openOrders', cancelEndpoint: '/openOrders' },
+      { client: this.futuresClient, openEndpoint: '/fapi/v1/openOrders', cancelEndpoint: '/fapi/v1/allOpenOrders' },
+    ];
+    const errors: string[] = [];
+
+    for (const { client, openEndpoint, cancelEndpoint } of markets) {
+      try {
+        // Both cancel endpoints require a symbol, and spot rejects symbols without open orders
+        const open = await this.authenticatedRequest(client, openEndpoint, symbolClean ? { symbol: symbolClean } : {});
+        const symbols = new Set<string>((Array.isArray(open) ? open : []).map((o: any) => o.symbol));
+        for (const s of symbols) {
+          await this.authenticatedRequest(client, cancelEndpoint, { symbol: s }, 'DELETE');
+        }
+      } catch (error: any) {
+        errors.push(`${openEndpoint}: ${error.response?.data?.msg || error.message}`);
       }
-    } catch (error: any) {
-      throw new Error(`Binance cancelAllOrders failed: ${error.message}`);
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Binance cancelAllOrders failed: ${errors.join('; ')}`);
     }
   }
 
@@ -1112,14 +1609,25 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
       });
       const listenKey = response.data.listenKey;
       this.spotListenKey = listenKey;
+      this.health.recordSuccess('listenKey');
       console.log(`[Binance] Spot User Data Stream listen key obtained`);
       return listenKey;
     } catch (error: any) {
       console.error('[Binance] Failed to get Spot User Data Stream listen key:', error.message);
+      this.health.recordFailure('listenKey', error.message);
       throw new Error(`Failed to get Spot User Data Stream listen key: ${error.message}`);
     }
   }
 
+  /**
+   * WebSocket URL for a Spot User Data Stream listen key
+   */
+  getSpotUserDataStreamUrl(listenKey: string): string {
+    return this.credentials.sandbox
+      ? `wss://testnet.binance.vision/ws/${listenKey}`
+      : `wss://stream.binance.com:9443/ws/${listenKey}`;
+  }
+
   /**
    * Keep Spot listen key alive
    */
@@ -1132,8 +1640,10 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
         },
       });
       console.log(`[Binance] Spot listen key kept alive`);
+      this.health.recordSuccess('listenKey');
     } catch (error: any) {
       console.error('[Binance] Failed to keep Spot listen key alive:', error.message);
+      this.health.recordFailure('listenKey', error.message);
       throw error;
     }
   }
@@ -1168,10 +1678,7 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
       // Get listen key
       const listenKey = await this.getSpotUserDataStreamListenKey();
 
-      // Determine WebSocket URL
-      const wsUrl = this.credentials.sandbox
-        ? `wss://testnet.binance.vision/ws/${listenKey}`
-        : `wss://stream.binance.com:9443/ws/${listenKey}`;
+      const wsUrl = this.getSpotUserDataStreamUrl(listenKey);
 
       console.log(`[Binance] Connecting to Spot User Data Stream: ${wsUrl.replace(listenKey, '***')}`);
 
@@ -1179,6 +1686,7 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
 
       ws.on('open', () => {
         console.log(`[Binance] Spot User Data Stream WebSocket connected`);
+        this.health.recordSuccess('websocket');
       });
 
       ws.on('message', (data: WebSocket.Data) => {
@@ -1195,12 +1703,12 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
       });
 
       ws.on('close', () => {
-        console.log('[Binance] Spot User Data Stream WebSocket closed, reconnecting...');
+        if (this.spotUserDataStream !== ws) {
+          return; // Closed intentionally
+        }
         this.spotUserDataStream = null;
-        // Reconnect after 5 seconds
-        setTimeout(() => {
-          this.setupSpotUserDataStream().catch(console.error);
-        }, 5000);
+        this.health.recordFailure('websocket', 'spot user data stream closed');
+        this.scheduleSpotReconnect();
       });
 
       this.spotUserDataStream = ws;
@@ -1221,67 +1729,105 @@ export class BinanceConnector implements ExchangeConnector, TradingConnector {
   }
 
   /**
-   * Handle Spot User Data Stream messages
+   * Reconnect the Spot User Data Stream with exponential backoff
+   */
+  private scheduleSpotReconnect(): void {
+    if (this.spotReconnectTimer) return;
+    const delay = this.health.reconnectDelay();
+    console.log(`[Binance] Spot User Data Stream WebSocket closed, reconnecting in ${Math.round(delay / 1000)}s...`);
+    this.spotReconnectTimer = setTimeout(() => {
+      this.spotReconnectTimer = null;
+      this.setupSpotUserDataStream().catch(() => this.scheduleSpotReconnect());
+    }, delay);
+  }
+
+  /**
+   * Normalize Spot User Data Stream messages into RealtimeUpdates
    */
   private handleSpotUserDataStreamMessage(message: any): void {
-    // Handle execution report (order updates)
-    if (message.e === 'executionReport') {
-      const executionReport = message;
-      
-      const orderUpdate = {
-        orderId: executionReport.i?.toString() || executionReport.c,
-        symbol: executionReport.s,
-        side: executionReport.S?.toLowerCase(),
-        type: executionReport.o?.toLowerCase(),
-        status: this.mapBinanceStatus(executionReport.X),
-        price: parseFloat(executionReport.p || '0'),
-        quantity: parseFloat(executionReport.q || '0'),
-        filledQuantity: parseFloat(executionReport.z || '0'),
-        remainingQuantity: parseFloat(executionReport.q || '0') - parseFloat(executionReport.z || '0'),
-        timestamp: executionReport.E || Date.now(),
-        exchange: this.exchangeName,
-        clientOrderId: executionReport.c,
-      };
+    this.emitUpdates(this.parseSpotUserDataEvent(message));
+  }
+
+  /**
+   * executionReport, outboundAccountPosition and balanceUpdate
+   */
+  private parseSpotUserDataEvent(message: any): RealtimeUpdate[] {
+    const updates: RealtimeUpdate[] = [];
 
-      // Notify callbacks
-      this.realtimeCallbacks.forEach((callback) => {
-        callback({
-          type: 'order',
-          data: orderUpdate as any,
+    if (message.e === 'executionReport') {
+      const r: BinanceExecutionReport = message;
+      const filledQuantity = parseFloat(r.z || '0');
+      const cumulativeQuote = parseFloat(r.Z || '0');
+      updates.push({
+        type: 'order',
+        data: this.normalizer.normalizeOrder(
+          {
+            symbol: r.s,
+            side: r.S.toLowerCase() as 'buy' | 'sell',
+            type: r.o.toLowerCase(),
+            price: parseFloat(r.p || '0'),
+            quantity: parseFloat(r.q || '0'),
+            status: this.mapBinanceStatus(r.X),
+            orderId: r.i.toString(),
+            timestamp: r.T || r.E || Date.now(),
+            filledQuantity,
+            averagePrice: filledQuantity > 0 ? cumulativeQuote / filledQuantity : 0,
+            clientOrderId: r.c,
+            market: 'spot',
+          },
+          this.exchangeName
+        ),
+      });
+      if (r.x === 'TRADE') {
+        updates.push({
+          type: 'trade',
+          data: this.normalizer.normalizeTrade(
+            {
+              symbol: r.s,
+              side: r.S.toLowerCase() as 'buy' | 'sell',
+              price: parseFloat(r.L || '0'),
+              quantity: parseFloat(r.l || '0'),
+              fee: parseFloat(r.n || '0'),
+              feeAsset: r.N || '',
+              timestamp: r.T || r.E || Date.now(),
+              tradeId: r.t.toString(),
+              orderId: r.i.toString(),
+              market: 'spot',
+            },
+            this.exchangeName
+          ),
+        });
+      }
+      console.log(`[Binance] Order update: ${r.s} ${r.S} ${r.X}`);
+    } else if (message.e === 'outboundAccountPosition' && Array.isArray(message.B)) {
+      message.B.forEach((b: { a: string; f: string; l: string }) => {
+        const raw: RawBalance = {
+          asset: b.a,
+          free: parseFloat(b.f || '0'),
+          locked: parseFloat(b.l || '0'),
+          accountType: 'spot',
+        };
+        this.spotBalances.set(raw.asset, raw);
+        updates.push({
+          type: 'balance',
+          data: this.normalizer.normalizeBalance(raw, this.exchangeName, this.isStablecoin(b.a) ? 1 : 0),
         });
       });
-
-      console.log(`[Binance] Order update: ${executionReport.s} ${executionReport.S} ${executionReport.X}`);
-    }
-
-    // Handle account position update (balance changes)
-    if (message.e === 'outboundAccountPosition') {
-      const accountPosition = message;
-      
-      if (accountPosition.B && Array.isArray(accountPosition.B)) {
-        accountPosition.B.forEach((balance: any) => {
-          const rawBalance: RawBalance = {
-            asset: balance.a,
-            free: parseFloat(balance.f || '0'),
-            locked: parseFloat(balance.l || '0'),
-          };
-
-          const normalized = this.normalizer.normalizeBalance(
-            rawBalance,
-            this.exchangeName,
-            0 // USD price would need to be fetched separately
-          );
-
-          this.realtimeCallbacks.forEach((callback) => {
-            callback({
-              type: 'balance',
-              data: normalized,
-            });
-          });
+    } else if (message.e === 'balanceUpdate') {
+      // Deposits, withdrawals and transfers push a delta; apply it to the last known balance
+      const known = this.spotBalances.get(message.a);
+      if (known) {
+        const raw: RawBalance = { ...known, free: known.free + parseFloat(message.d || '0') };
+        this.spotBalances.set(raw.asset, raw);
+        updates.push({
+          type: 'balance',
+          data: this.normalizer.normalizeBalance(raw, this.exchangeName, this.isStablecoin(raw.asset) ? 1 : 0),
         });
-
-        console.log(`[Binance] Account balance updated`);
+      } else {
+        console.log(`[Binance] Balance delta for ${message.a} (${message.d}) before first account snapshot, skipped`);
       }
     }
+
+    return updates;
   }
 }
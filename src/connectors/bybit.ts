@@ -0,0 +1,1082 @@
+/**
+ * Bybit Exchange Connector
+ * Unified v5 REST API (spot + linear perpetuals) and private WebSocket stream
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import WebSocket from 'ws';
+import crypto from 'crypto';
+import {
+  ExchangeConnector,
+  TradingConnector,
+  RawBalance,
+  RawPosition,
+  RawOrder,
+  RawTrade,
+  RealtimeCallback,
+  RealtimeUpdate,
+  ExchangeCredentials,
+  OrderParams,
+  OrderResult,
+  OrderBook,
+  AccountAsset,
+  IncomeRecord,
+  SymbolRules,
+} from '../types';
+import { config } from '../config';
+import { rateLimiter } from '../security/rateLimiter';
+import { BybitNormalizer } from '../normalizer';
+import { ConnectorHealth } from './health';
+
+type BybitCategory = 'spot' | 'linear';
+
+interface BybitResponse<T = any> {
+  retCode: number;
+  retMsg: string;
+  result: T;
+  time: number;
+}
+
+interface BybitCoinBalance {
+  coin: string;
+  walletBalance: string;
+  locked: string;
+  equity: string;
+  usdValue: string;
+  unrealisedPnl: string;
+  availableToWithdraw?: string;
+}
+
+interface BybitPosition {
+  symbol: string;
+  side: 'Buy' | 'Sell' | '';
+  size: string;
+  avgPrice?: string;
+  entryPrice?: string;
+  markPrice: string;
+  leverage: string;
+  liqPrice?: string; // '' when there is none
+  tradeMode?: number; // 0 cross, 1 isolated (classic accounts)
+  unrealisedPnl: string;
+  positionIdx: number;
+}
+
+interface BybitOrder {
+  orderId: string;
+  orderLinkId: string;
+  symbol: string;
+  side: 'Buy' | 'Sell';
+  orderType: string;
+  price: string;
+  qty: string;
+  cumExecQty: string;
+  leavesQty: string;
+  orderStatus: string;
+  createdTime: string;
+  updatedTime: string;
+}
+
+interface BybitExecution {
+  symbol: string;
+  side: 'Buy' | 'Sell';
+  orderId: string;
+  execId: string;
+  execPrice: string;
+  execQty: string;
+  execFee: string;
+  feeCurrency?: string;
+  execTime: string;
+  execType?: string;
+  closedSize?: string;
+}
+
+// instruments-info entry (spot uses basePrecision/minOrderAmt, linear qtyStep/minNotionalValue)
+interface BybitInstrument {
+  symbol: string;
+  status: string;
+  baseCoin: string;
+  quoteCoin: string;
+  priceFilter: { tickSize: string; minPrice?: string; maxPrice?: string };
+  lotSizeFilter: {
+    basePrecision?: string;
+    qtyStep?: string;
+    minOrderQty: string;
+    maxOrderQty: string;
+    maxMktOrderQty?: string;
+    minOrderAmt?: string;
+    maxOrderAmt?: string;
+    minNotionalValue?: string;
+  };
+}
+
+// Bybit limits execution/list queries to a 7-day window
+const EXECUTION_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// retCodes that mean "order not found in this category" when probing spot vs linear
+const ORDER_NOT_FOUND_CODES = [110001, 170213];
+
+export class BybitApiError extends Error {
+  constructor(public readonly retCode: number, message: string) {
+    super(message);
+    this.name = 'BybitApiError';
+  }
+}
+
+export class BybitConnector implements ExchangeConnector, TradingConnector {
+  readonly exchangeName = 'bybit';
+  readonly health = new ConnectorHealth('bybit');
+  private credentials: ExchangeCredentials;
+  private client: AxiosInstance;
+  private recvWindow = 5000;
+  private privateStream: WebSocket | null = null;
+  private pingInterval: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private realtimeCallbacks: RealtimeCallback[] = [];
+  private normalizer: BybitNormalizer;
+  private symbolRules: Map<string, { rules: SymbolRules | null; fetchedAt: number }> = new Map(); // market:symbol
+
+  constructor(credentials: ExchangeCredentials) {
+    this.credentials = credentials;
+    this.normalizer = new BybitNormalizer();
+
+    const baseURL = credentials.sandbox
+      ? process.env.BYBIT_TESTNET_BASE_URL || 'https://api-testnet.bybit.com'
+      : process.env.BYBIT_BASE_URL || 'https://api.bybit.com';
+
+    this.client = axios.create({
+      baseURL: baseURL.replace(/\/+$/, ''),
+      timeout: 10000,
+    });
+  }
+
+  /**
+   * Build a stable, URL-encoded query string
+   */
+  private buildQueryString(params: Record<string, any>): string {
+    const searchParams = new URLSearchParams();
+    Object.entries(params)
+      .filter(([, value]) => value !== undefined && value !== null && value !== '')
+      .sort(([a], [b]) => a.localeCompare(b))
+      .forEach(([key, value]) => searchParams.append(key, String(value)));
+    return searchParams.toString();
+  }
+
+  /**
+   * Sign a request payload: timestamp + apiKey + recvWindow + (queryString | jsonBody)
+   */
+  private generateSignature(timestamp: number, payload: string): string {
+    return crypto
+      .createHmac('sha256', this.credentials.apiSecret)
+      .update(`${timestamp}${this.credentials.apiKey}${this.recvWindow}${payload}`)
+      .digest('hex');
+  }
+
+  /**
+   * Make authenticated request and unwrap the v5 response envelope
+   */
+  private async authenticatedRequest<T = any>(
+    endpoint: string,
+    params: Record<string, any> = {},
+    method: 'GET' | 'POST' = 'GET'
+  ): Promise<T> {
+    await rateLimiter.checkLimit('bybit');
+
+    const timestamp = Date.now();
+    const isGet = method === 'GET';
+    const queryString = isGet ? this.buildQueryString(params) : '';
+    const body = isGet ? '' : JSON.stringify(params);
+    const signature = this.generateSignature(timestamp, isGet ? queryString : body);
+
+    const response = await this.client.request<BybitResponse<T>>({
+      method,
+      url: queryString ? `${endpoint}?${queryString}` : endpoint,
+      data: isGet ? undefined : body,
+      headers: {
+        'X-BAPI-API-KEY': this.credentials.apiKey,
+        'X-BAPI-TIMESTAMP': String(timestamp),
+        'X-BAPI-RECV-WINDOW': String(this.recvWindow),
+        'X-BAPI-SIGN': signature,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    const data = response.data;
+    if (data.retCode !== 0) {
+      throw new BybitApiError(data.retCode, `Bybit API error (${data.retCode}): ${data.retMsg}`);
+    }
+    return data.result;
+  }
+
+  /**
+   * Map Bybit order status to unified status
+   */
+  private mapBybitStatus(status: string): string {
+    const statusMap: Record<string, string> = {
+      New: 'NEW',
+      Created: 'NEW',
+      Untriggered: 'NEW',
+      Triggered: 'NEW',
+      PartiallyFilled: 'PARTIALLY_FILLED',
+      Filled: 'FILLED',
+      Cancelled: 'CANCELED',
+      PartiallyFilledCanceled: 'CANCELED',
+      Deactivated: 'CANCELED',
+      Rejected: 'REJECTED',
+    };
+    return statusMap[status] || status.toUpperCase();
+  }
+
+  private mapCoinBalance(c: BybitCoinBalance, accountType?: 'spot' | 'futures'): RawBalance {
+    const wallet = parseFloat(c.walletBalance || '0');
+    const locked = parseFloat(c.locked || '0');
+    const usdValue = parseFloat(c.usdValue || '0');
+    return {
+      asset: c.coin,
+      free: Math.max(0, wallet - locked),
+      locked,
+      accountType,
+      usdPrice: wallet > 0 && usdValue > 0 ? usdValue / wallet : undefined,
+    };
+  }
+
+  private mapPosition(p: BybitPosition): RawPosition {
+    return {
+      symbol: p.symbol,
+      side: p.side === 'Sell' ? 'short' : 'long',
+      size: Math.abs(parseFloat(p.size || '0')),
+      entryPrice: parseFloat(p.avgPrice || p.entryPrice || '0'),
+      markPrice: parseFloat(p.markPrice || '0'),
+      leverage: parseFloat(p.leverage || '1'),
+      liquidationPrice: parseFloat(p.liqPrice || '') > 0 ? parseFloat(p.liqPrice!) : undefined,
+      marginMode: p.tradeMode === 1 ? 'isolated' : p.tradeMode === 0 ? 'cross' : undefined,
+      unrealizedPnl: parseFloat(p.unrealisedPnl || '0'),
+    };
+  }
+
+  private mapOrder(o: BybitOrder): RawOrder {
+    return {
+      symbol: o.symbol,
+      side: o.side.toLowerCase() as 'buy' | 'sell',
+      type: o.orderType,
+      price: parseFloat(o.price || '0'),
+      quantity: parseFloat(o.qty || '0'),
+      status: this.mapBybitStatus(o.orderStatus).toLowerCase(),
+      orderId: o.orderId,
+      timestamp: parseInt(o.updatedTime || o.createdTime, 10) || Date.now(),
+      filledQuantity: parseFloat(o.cumExecQty || '0'),
+      clientOrderId: o.orderLinkId || undefined,
+    };
+  }
+
+  private mapOrderResult(o: BybitOrder): OrderResult {
+    const quantity = parseFloat(o.qty || '0');
+    const filled = parseFloat(o.cumExecQty || '0');
+    return {
+      orderId: o.orderId,
+      symbol: o.symbol,
+      side: o.side.toLowerCase() as 'buy' | 'sell',
+      type: o.orderType.toLowerCase(),
+      status: this.mapBybitStatus(o.orderStatus),
+      price: parseFloat(o.price || '0'),
+      quantity,
+      filledQuantity: filled,
+      remainingQuantity: o.leavesQty !== undefined ? parseFloat(o.leavesQty) : quantity - filled,
+      timestamp: parseInt(o.updatedTime || o.createdTime, 10) || Date.now(),
+      exchange: this.exchangeName,
+      clientOrderId: o.orderLinkId || undefined,
+    };
+  }
+
+  private mapExecution(e: BybitExecution, category: BybitCategory): RawTrade {
+    return {
+      symbol: e.symbol,
+      side: e.side.toLowerCase() as 'buy' | 'sell',
+      price: parseFloat(e.execPrice || '0'),
+      quantity: parseFloat(e.execQty || '0'),
+      fee: parseFloat(e.execFee || '0'),
+      // Linear contracts settle fees in USDT; spot reports feeCurrency explicitly
+      feeAsset: e.feeCurrency || (category === 'linear' ? 'USDT' : ''),
+      timestamp: parseInt(e.execTime, 10),
+      tradeId: e.execId,
+      orderId: e.orderId,
+      market: category === 'spot' ? 'spot' : 'futures',
+    };
+  }
+
+  /**
+   * Fetch wallet balances (Unified Trading Account, falling back to classic accounts)
+   */
+  async fetchBalances(): Promise<RawBalance[]> {
+    let unifiedMessage: string;
+    try {
+      const result = await this.authenticatedRequest('/v5/account/wallet-balance', {
+        accountType: 'UNIFIED',
+      });
+      const coins: BybitCoinBalance[] = result.list?.[0]?.coin || [];
+      // A unified account backs spot and derivatives with one wallet, so no accountType tag
+      const balances = coins
+        .map((c) => this.mapCoinBalance(c))
+        .filter((b) => b.free + b.locked > 0);
+      console.log(`[Bybit] Fetched ${balances.length} unified balances`);
+      return balances;
+    } catch (unifiedError: any) {
+      console.warn(`[Bybit] Unified wallet unavailable (${unifiedError.message}), trying classic accounts`);
+      unifiedMessage = unifiedError.message;
+    }
+
+    const balances: RawBalance[] = [];
+    const failures: string[] = [];
+    for (const [accountType, tag] of [
+      ['CONTRACT', 'futures'],
+      ['SPOT', 'spot'],
+    ] as const) {
+      try {
+        const result = await this.authenticatedRequest('/v5/account/wallet-balance', { accountType });
+        const coins: BybitCoinBalance[] = result.list?.[0]?.coin || [];
+        coins
+          .map((c) => this.mapCoinBalance(c, tag))
+          .filter((b) => b.free + b.locked > 0)
+          .forEach((b) => balances.push(b));
+      } catch (error: any) {
+        console.warn(`[Bybit] Failed to fetch ${accountType} balances: ${error.message}`);
+        failures.push(`${accountType}: ${error.message}`);
+      }
+    }
+
+    // Nothing could be read: report the outage instead of an empty (zero-equity) wallet
+    if (failures.length === 2) {
+      throw new Error(`Failed to fetch Bybit balances (UNIFIED: ${unifiedMessage}; ${failures.join('; ')})`);
+    }
+
+    console.log(`[Bybit] Fetched ${balances.length} classic account balances`);
+    return balances;
+  }
+
+  /**
+   * Fetch last spot prices (public market endpoint)
+   */
+  async fetchTickerPrices(): Promise<Record<string, number>> {
+    await rateLimiter.checkLimit('bybit');
+    const response = await this.client.get<BybitResponse<{ list: Array<{ symbol: string; lastPrice: string }> }>>(
+      '/v5/market/tickers',
+      { params: { category: 'spot' } }
+    );
+    if (response.data.retCode !== 0) {
+      throw new BybitApiError(response.data.retCode, `Bybit API error (${response.data.retCode}): ${response.data.retMsg}`);
+    }
+
+    const prices: Record<string, number> = {};
+    (response.data.result.list || []).forEach((t) => {
+      const price = parseFloat(t.lastPrice);
+      if (price > 0) prices[t.symbol] = price;
+    });
+    return prices;
+  }
+
+  /**
+   * Fetch the order book (public market endpoint)
+   */
+  async fetchOrderBook(symbol: string, market: 'spot' | 'futures', depth: number = 100): Promise<OrderBook> {
+    await rateLimiter.checkLimit('bybit');
+    const category: BybitCategory = market === 'futures' ? 'linear' : 'spot';
+    const symbolClean = symbol.replace('/', '').toUpperCase();
+    const response = await this.client.get<BybitResponse<{ s: string; b: string[][]; a: string[][]; ts: number }>>(
+      '/v5/market/orderbook',
+      { params: { category, symbol: symbolClean, limit: Math.min(depth, category === 'spot' ? 200 : 500) } }
+    );
+    if (response.data.retCode !== 0) {
+      throw new BybitApiError(response.data.retCode, `Bybit API error (${response.data.retCode}): ${response.data.retMsg}`);
+    }
+
+    const book = response.data.result;
+    const toLevels = (levels: string[][] = []) =>
+      levels.map(([price, quantity]) => ({ price: parseFloat(price), quantity: parseFloat(quantity) }));
+    return { symbol: symbolClean, bids: toLevels(book.b), asks: toLevels(book.a), timestamp: book.ts || Date.now() };
+  }
+
+  /**
+   * Trading rules for a symbol from instruments-info (cached for config.markets.rulesTtlMs)
+   */
+  async fetchSymbolRules(symbol: string, market: 'spot' | 'futures'): Promise<SymbolRules | null> {
+    const symbolClean = symbol.replace('/', '').toUpperCase();
+    const key = `${market}:${symbolClean}`;
+    const cached = this.symbolRules.get(key);
+    if (cached && Date.now() - cached.fetchedAt <= config.markets.rulesTtlMs) return cached.rules;
+
+    await rateLimiter.checkLimit('bybit');
+    const category: BybitCategory = market === 'futures' ? 'linear' : 'spot';
+    const response = await this.client.get<BybitResponse<{ list: BybitInstrument[] }>>('/v5/market/instruments-info', {
+      params: { category, symbol: symbolClean },
+    });
+    if (response.data.retCode !== 0) {
+      throw new BybitApiError(response.data.retCode, `Bybit API error (${response.data.retCode}): ${response.data.retMsg}`);
+    }
+
+    const instrument = (response.data.result.list || []).find((i) => i.symbol === symbolClean);
+    const rules = instrument ? this.mapSymbolRules(instrument, market) : null;
+    this.symbolRules.set(key, { rules, fetchedAt: Date.now() });
+    return rules;
+  }
+
+  /**
+   * Every symbol in instruments-info for a market (linear is paginated)
+   */
+  async fetchSymbols(market: 'spot' | 'futures'): Promise<string[]> {
+    const category: BybitCategory = market === 'futures' ? 'linear' : 'spot';
+    const symbols: string[] = [];
+    let cursor: string | undefined;
+    do {
+      await rateLimiter.checkLimit('bybit');
+      const response = await this.client.get<BybitResponse<{ list: BybitInstrument[]; nextPageCursor?: string }>>(
+        '/v5/market/instruments-info',
+        { params: { category, limit: 1000, cursor } }
+      );
+      if (response.data.retCode !== 0) {
+        throw new BybitApiError(response.data.retCode, `Bybit API error (${response.data.retCode}): ${response.data.retMsg}`);
+      }
+      (response.data.result.list || []).forEach((i) => symbols.push(i.symbol));
+      cursor = response.data.result.nextPageCursor || undefined;
+    } while (cursor);
+    return symbols;
+  }
+
+  private mapSymbolRules(instrument: BybitInstrument, market: 'spot' | 'futures'): SymbolRules {
+    const limit = (value: string | undefined) => (value && parseFloat(value) > 0 ? parseFloat(value) : undefined);
+    const lot = instrument.lotSizeFilter;
+    return {
+      exchange: 'bybit',
+      symbol: instrument.symbol,
+      market,
+      baseAsset: instrument.baseCoin,
+      quoteAsset: instrument.quoteCoin,
+      trading: instrument.status === 'Trading',
+      tickSize: limit(instrument.priceFilter.tickSize) || 0,
+      minPrice: limit(instrument.priceFilter.minPrice),
+      maxPrice: limit(instrument.priceFilter.maxPrice),
+      stepSize: limit(lot.qtyStep ?? lot.basePrecision) || 0,
+      minQuantity: limit(lot.minOrderQty) || 0,
+      maxQuantity: limit(lot.maxOrderQty),
+      marketMaxQuantity: limit(lot.maxMktOrderQty),
+      minNotional: limit(lot.minNotionalValue ?? lot.minOrderAmt),
+      minNotionalAppliesToMarket: true,
+      maxNotional: limit(lot.maxOrderAmt),
+    };
+  }
+
+  /**
+   * Fetch open linear (USDT perpetual) positions
+   */
+  async fetchPositions(): Promise<RawPosition[]> {
+    const result = await this.authenticatedRequest('/v5/position/list', {
+      category: 'linear',
+      settleCoin: 'USDT',
+    });
+    const positions = (result.list || [])
+      .filter((p: BybitPosition) => parseFloat(p.size || '0') !== 0)
+      .map((p: BybitPosition) => this.mapPosition(p));
+    console.log(`[Bybit] Fetched ${positions.length} positions`);
+    return positions;
+  }
+
+  /**
+   * Fetch raw open orders for a category
+   */
+  private async fetchOpenOrdersByCategory(
+    category: BybitCategory,
+    symbol?: string
+  ): Promise<BybitOrder[]> {
+    const params: Record<string, any> = { category, limit: 50 };
+    if (symbol) {
+      params.symbol = symbol;
+    } else if (category === 'linear') {
+      params.settleCoin = 'USDT';
+    }
+
+    const orders: BybitOrder[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.authenticatedRequest('/v5/order/realtime', { ...params, cursor });
+      orders.push(...(result.list || []));
+      cursor = result.nextPageCursor || undefined;
+    } while (cursor);
+    return orders;
+  }
+
+  /**
+   * Fetch open orders (spot + linear)
+   */
+  async fetchOpenOrders(): Promise<RawOrder[]> {
+    const orders: RawOrder[] = [];
+    for (const category of ['spot', 'linear'] as BybitCategory[]) {
+      const list = await this.fetchOpenOrdersByCategory(category);
+      orders.push(...list.map((o) => this.mapOrder(o)));
+    }
+    return orders;
+  }
+
+  /**
+   * Fetch executions for a category, walking 7-day windows and cursor pages
+   */
+  private async fetchExecutions(
+    category: BybitCategory,
+    startTime: number,
+    endTime: number,
+    symbol?: string
+  ): Promise<RawTrade[]> {
+    const trades: RawTrade[] = [];
+    for (let windowStart = startTime; windowStart < endTime; windowStart += EXECUTION_WINDOW_MS) {
+      const windowEnd = Math.min(windowStart + EXECUTION_WINDOW_MS, endTime);
+      let cursor: string | undefined;
+      do {
+        const result = await this.authenticatedRequest('/v5/execution/list', {
+          category,
+          symbol,
+          startTime: windowStart,
+          endTime: windowEnd,
+          limit: 100,
+          cursor,
+        });
+        (result.list || [])
+          .filter((e: BybitExecution) => !e.execType || e.execType === 'Trade')
+          .forEach((e: BybitExecution) => trades.push(this.mapExecution(e, category)));
+        cursor = result.nextPageCursor || undefined;
+      } while (cursor);
+    }
+    return trades;
+  }
+
+  /**
+   * Fetch trade history
+   */
+  async fetchTradeHistory(startTime: number, endTime: number): Promise<RawTrade[]> {
+    try {
+      const [spotTrades, linearTrades] = await Promise.all([
+        this.fetchExecutions('spot', startTime, endTime),
+        this.fetchExecutions('linear', startTime, endTime),
+      ]);
+      return [...spotTrades, ...linearTrades];
+    } catch (error: any) {
+      throw new Error(`Bybit fetchTradeHistory failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Fetch all fills for a symbol in a time range
+   */
+  async fetchTradesInRange(
+    symbol: string,
+    market: 'spot' | 'futures',
+    startTime: number,
+    endTime: number
+  ): Promise<RawTrade[]> {
+    const category: BybitCategory = market === 'futures' ? 'linear' : 'spot';
+    return this.fetchExecutions(category, startTime, endTime, symbol.replace('/', ''));
+  }
+
+  /**
+   * Fetch all fills of a market in a time range (execution/list without a symbol)
+   */
+  async fetchAccountTradesInRange(market: 'spot' | 'futures', startTime: number, endTime: number): Promise<RawTrade[]> {
+    return this.fetchExecutions(market === 'futures' ? 'linear' : 'spot', startTime, endTime);
+  }
+
+  /**
+   * Fetch order history for a symbol (Spot/Futures)
+   */
+  async fetchOrderHistory(symbol: string, market: 'spot' | 'futures', limit: number = 50): Promise<RawOrder[]> {
+    const result = await this.authenticatedRequest('/v5/order/history', {
+      category: market === 'futures' ? 'linear' : 'spot',
+      symbol: symbol.replace('/', ''),
+      limit: Math.min(limit, 50),
+    });
+    return (result.list || []).map((o: BybitOrder) => this.mapOrder(o));
+  }
+
+  /**
+   * Fetch trade history for a symbol (Spot/Futures)
+   */
+  async fetchTradesBySymbol(symbol: string, market: 'spot' | 'futures', limit: number = 50): Promise<RawTrade[]> {
+    const category: BybitCategory = market === 'futures' ? 'linear' : 'spot';
+    const result = await this.authenticatedRequest('/v5/execution/list', {
+      category,
+      symbol: symbol.replace('/', ''),
+      limit: Math.min(limit, 100),
+    });
+    return (result.list || []).map((e: BybitExecution) => this.mapExecution(e, category));
+  }
+
+  /**
+   * Fetch derivatives wallet assets (wallet/margin/available)
+   */
+  async fetchFuturesAssets(): Promise<AccountAsset[]> {
+    const result = await this.authenticatedRequest('/v5/account/wallet-balance', {
+      accountType: 'UNIFIED',
+    });
+    const coins: BybitCoinBalance[] = result.list?.[0]?.coin || [];
+    return coins.map((c) => ({
+      asset: c.coin,
+      walletBalance: parseFloat(c.walletBalance || '0'),
+      unrealizedPnl: parseFloat(c.unrealisedPnl || '0'),
+      marginBalance: parseFloat(c.equity || '0'),
+      availableBalance: Math.max(0, parseFloat(c.walletBalance || '0') - parseFloat(c.locked || '0')),
+    }));
+  }
+
+  /**
+   * Fetch spot wallet assets (wallet/available)
+   */
+  async fetchSpotAssets(): Promise<AccountAsset[]> {
+    const balances = await this.fetchBalances();
+    return balances.map((b) => ({
+      asset: b.asset,
+      walletBalance: b.free + b.locked,
+      unrealizedPnl: 0,
+      marginBalance: b.free + b.locked,
+      availableBalance: b.free,
+    }));
+  }
+
+  /**
+   * Fetch current funding rates for linear perpetuals (all symbols unless filtered)
+   */
+  async fetchFundingRates(symbols?: string[]): Promise<Record<string, number>> {
+    await rateLimiter.checkLimit('bybit');
+    const response = await this.client.get<BybitResponse<{ list: Array<{ symbol: string; fundingRate: string }> }>>(
+      '/v5/market/tickers',
+      { params: { category: 'linear' } }
+    );
+    if (response.data.retCode !== 0) {
+      throw new BybitApiError(response.data.retCode, `Bybit API error (${response.data.retCode}): ${response.data.retMsg}`);
+    }
+    const wanted = symbols ? new Set(symbols.map((s) => s.replace('/', '').toUpperCase())) : null;
+
+    const rates: Record<string, number> = {};
+    (response.data.result.list || []).forEach((t) => {
+      if (!t.fundingRate || (wanted && !wanted.has(t.symbol))) return;
+      rates[t.symbol] = parseFloat(t.fundingRate);
+    });
+    return rates;
+  }
+
+  /**
+   * Fetch derivatives transaction log (funding, fees, realized PnL)
+   */
+  async fetchFuturesIncome(limit: number = 20): Promise<IncomeRecord[]> {
+    const result = await this.authenticatedRequest('/v5/account/transaction-log', {
+      accountType: 'UNIFIED',
+      category: 'linear',
+      limit: Math.min(limit, 50),
+    });
+    return (result.list || []).map((t: any) => ({
+      time: parseInt(t.transactionTime, 10),
+      exchange: this.exchangeName,
+      type: t.type,
+      asset: t.currency,
+      amount: parseFloat(t.change || '0'),
+      status: 'Completed',
+      symbol: t.symbol,
+      txid: t.id,
+    }));
+  }
+
+  // ==================== Private WebSocket Stream ====================
+
+  /**
+   * Subscribe to real-time updates via WebSocket
+   */
+  async subscribeRealtimeUpdates(callback: RealtimeCallback): Promise<void> {
+    this.realtimeCallbacks.push(callback);
+
+    if (!this.privateStream) {
+      try {
+        this.setupPrivateStream();
+      } catch (error: any) {
+        console.warn('[Bybit] Failed to setup private stream for real-time updates:', error.message);
+      }
+    }
+  }
+
+  /**
+   * Setup private WebSocket stream (auth, subscribe, heartbeat)
+   */
+  private setupPrivateStream(): void {
+    const wsUrl = this.credentials.sandbox
+      ? 'wss://stream-testnet.bybit.com/v5/private'
+      : 'wss://stream.bybit.com/v5/private';
+
+    const ws = new WebSocket(wsUrl);
+
+    ws.on('open', () => {
+      const expires = Date.now() + 10000;
+      const signature = crypto
+        .createHmac('sha256', this.credentials.apiSecret)
+        .update(`GET/realtime${expires}`)
+        .digest('hex');
+      ws.send(JSON.stringify({ op: 'auth', args: [this.credentials.apiKey, expires, signature] }));
+
+      // Bybit drops idle connections after 10 minutes; ping every 20s as recommended
+      this.pingInterval = setInterval(() => {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(JSON.stringify({ op: 'ping' }));
+        }
+      }, 20000);
+    });
+
+    ws.on('message', (data: WebSocket.Data) => {
+      try {
+        const message = JSON.parse(data.toString());
+        if (message.op === 'auth') {
+          if (message.success) {
+            console.log('[Bybit] Private stream authenticated');
+            this.health.recordSuccess('websocket');
+            ws.send(JSON.stringify({ op: 'subscribe', args: ['wallet', 'position', 'order', 'execution'] }));
+          } else {
+            console.error(`[Bybit] Private stream auth failed: ${message.ret_msg}`);
+            this.health.recordFailure('websocket', `auth failed: ${message.ret_msg}`);
+          }
+          return;
+        }
+        this.handleWebSocketMessage(message);
+      } catch (error) {
+        console.error('[Bybit] WebSocket message parse error:', error);
+      }
+    });
+
+    ws.on('error', (error) => {
+      console.error('[Bybit] WebSocket error:', error);
+    });
+
+    ws.on('close', () => {
+      if (this.pingInterval) {
+        clearInterval(this.pingInterval);
+        this.pingInterval = null;
+      }
+      if (this.privateStream !== ws) {
+        return; // Closed intentionally via unsubscribeRealtimeUpdates
+      }
+      this.privateStream = null;
+      this.health.recordFailure('websocket', 'connection closed');
+      const delay = this.health.reconnectDelay();
+      console.log(`[Bybit] WebSocket closed, reconnecting in ${Math.round(delay / 1000)}s...`);
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        if (this.realtimeCallbacks.length > 0) {
+          this.setupPrivateStream();
+        }
+      }, delay);
+    });
+
+    this.privateStream = ws;
+  }
+
+  /**
+   * Normalize private stream topics into RealtimeUpdates
+   */
+  private handleWebSocketMessage(message: any): void {
+    if (!message.topic || !Array.isArray(message.data)) {
+      return;
+    }
+
+    const updates: RealtimeUpdate[] = [];
+
+    if (message.topic === 'wallet') {
+      message.data.forEach((account: any) => {
+        (account.coin || []).forEach((c: BybitCoinBalance) => {
+          const raw = this.mapCoinBalance(c);
+          updates.push({
+            type: 'balance',
+            data: this.normalizer.normalizeBalance(raw, this.exchangeName, raw.usdPrice || 0),
+          });
+        });
+      });
+    } else if (message.topic === 'position') {
+      message.data.forEach((p: BybitPosition) => {
+        updates.push({
+          type: 'position',
+          data: this.normalizer.normalizePosition(this.mapPosition(p), this.exchangeName),
+        });
+      });
+    } else if (message.topic === 'order') {
+      message.data.forEach((o: BybitOrder) => {
+        updates.push({
+          type: 'order',
+          data: this.normalizer.normalizeOrder(this.mapOrder(o), this.exchangeName),
+        });
+      });
+    } else if (message.topic === 'execution') {
+      message.data
+        .filter((e: BybitExecution) => !e.execType || e.execType === 'Trade')
+        .forEach((e: any) => {
+          const category: BybitCategory = e.category === 'spot' ? 'spot' : 'linear';
+          updates.push({
+            type: 'trade',
+            data: this.normalizer.normalizeTrade(this.mapExecution(e, category), this.exchangeName),
+          });
+        });
+    }
+
+    updates.forEach((update) => {
+      this.realtimeCallbacks.forEach((callback) => callback(update));
+    });
+  }
+
+  /**
+   * Unsubscribe from real-time updates
+   */
+  async unsubscribeRealtimeUpdates(): Promise<void> {
+    this.realtimeCallbacks = [];
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const ws = this.privateStream;
+    this.privateStream = null;
+    ws?.close();
+  }
+
+  /**
+   * Test connection to exchange
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.authenticatedRequest('/v5/user/query-api');
+      console.log('[Bybit] Connection test successful');
+      return true;
+    } catch (error: any) {
+      const statusCode = error.response?.status;
+      const retCode = error instanceof BybitApiError ? error.retCode : undefined;
+
+      console.error('[Bybit] Connection test failed:', {
+        statusCode,
+        retCode,
+        errorMsg: error.message,
+        sandbox: this.credentials.sandbox,
+      });
+
+      if (statusCode === 401 || retCode === 10003 || retCode === 10004) {
+        throw new Error(
+          `Bybit API authentication failed (401). Please check your API key and secret. Sandbox mode: ${this.credentials.sandbox}`
+        );
+      }
+      throw new Error(`Bybit connection test failed: ${error.message}`);
+    }
+  }
+
+  // ==================== TradingConnector Implementation ====================
+
+  /**
+   * Place a new order
+   */
+  async placeOrder(params: OrderParams): Promise<OrderResult> {
+    const symbol = params.symbol.replace('/', '');
+    const isFutures = params.market === 'futures';
+    const category: BybitCategory = isFutures ? 'linear' : 'spot';
+
+    try {
+      if (isFutures && params.marginMode) {
+        // Per-symbol switching needs the leverage to apply; unified accounts only switch margin
+        // mode account-wide and reject this call
+        if (!params.leverage) {
+          throw new Error('Bybit margin mode selection requires leverage');
+        }
+        try {
+          await this.authenticatedRequest(
+            '/v5/position/switch-isolated',
+            {
+              category,
+              symbol,
+              tradeMode: params.marginMode === 'isolated' ? 1 : 0,
+              buyLeverage: String(params.leverage),
+              sellLeverage: String(params.leverage),
+            },
+            'POST'
+          );
+        } catch (marginError: any) {
+          // 110026: margin mode not modified
+          if (!(marginError instanceof BybitApiError && marginError.retCode === 110026)) {
+            throw new Error(`Bybit margin mode set failed: ${marginError.message}`);
+          }
+        }
+      }
+
+      if (isFutures && params.leverage) {
+        try {
+          await this.authenticatedRequest(
+            '/v5/position/set-leverage',
+            {
+              category,
+              symbol,
+              buyLeverage: String(params.leverage),
+              sellLeverage: String(params.leverage),
+            },
+            'POST'
+          );
+        } catch (levError: any) {
+          // 110043: leverage not modified
+          if (!(levError instanceof BybitApiError && levError.retCode === 110043)) {
+            throw new Error(`Bybit leverage set failed: ${levError.message}`);
+          }
+        }
+      }
+
+      const orderParams: Record<string, any> = {
+        category,
+        symbol,
+        side: params.side === 'buy' ? 'Buy' : 'Sell',
+        orderType: params.type === 'limit' ? 'Limit' : 'Market',
+        qty: params.quantity.toString(),
+      };
+
+      if (params.type === 'limit') {
+        if (!params.price) {
+          throw new Error('Price is required for limit orders');
+        }
+        orderParams.price = params.price.toString();
+        orderParams.timeInForce = params.postOnly ? 'PostOnly' : params.timeInForce || 'GTC';
+      } else if (!isFutures) {
+        // Spot market orders default to quote quantity; keep base quantity semantics
+        orderParams.marketUnit = 'baseCoin';
+      }
+
+      if (params.reduceOnly && isFutures) {
+        orderParams.reduceOnly = true;
+      }
+      if (params.stopPrice) {
+        orderParams.triggerPrice = params.stopPrice.toString();
+      }
+
+      console.log('[Bybit] Placing order:', orderParams);
+      const result = await this.authenticatedRequest('/v5/order/create', orderParams, 'POST');
+      console.log('[Bybit] Order placed successfully:', { orderId: result.orderId });
+
+      return {
+        orderId: result.orderId,
+        symbol: params.symbol,
+        side: params.side,
+        type: params.type,
+        status: 'NEW',
+        price: params.price || 0,
+        quantity: params.quantity,
+        filledQuantity: 0,
+        remainingQuantity: params.quantity,
+        timestamp: Date.now(),
+        exchange: this.exchangeName,
+        clientOrderId: result.orderLinkId || undefined,
+      };
+    } catch (error: any) {
+      console.error('[Bybit] placeOrder failed:', {
+        retCode: error instanceof BybitApiError ? error.retCode : undefined,
+        errorMsg: error.message,
+        symbol,
+        side: params.side,
+        type: params.type,
+      });
+      throw new Error(`Bybit placeOrder failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Run an order operation against linear then spot until the order is found
+   */
+  private async withOrderCategory<T>(
+    operation: (category: BybitCategory) => Promise<T>
+  ): Promise<T> {
+    let lastError: any;
+    for (const category of ['linear', 'spot'] as BybitCategory[]) {
+      try {
+        return await operation(category);
+      } catch (error: any) {
+        if (error instanceof BybitApiError && ORDER_NOT_FOUND_CODES.includes(error.retCode)) {
+          lastError = error;
+          continue;
+        }
+        throw error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Cancel an order
+   */
+  async cancelOrder(orderId: string, symbol: string): Promise<void> {
+    const symbolClean = symbol.replace('/', '');
+    try {
+      await this.withOrderCategory((category) =>
+        this.authenticatedRequest('/v5/order/cancel', { category, symbol: symbolClean, orderId }, 'POST')
+      );
+    } catch (error: any) {
+      throw new Error(`Bybit cancelOrder failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Cancel all open orders (spot + linear)
+   */
+  async cancelAllOrders(symbol?: string): Promise<void> {
+    const symbolClean = symbol?.replace('/', '');
+    const errors: string[] = [];
+
+    for (const category of ['linear', 'spot'] as BybitCategory[]) {
+      const params: Record<string, any> = { category };
+      if (symbolClean) {
+        params.symbol = symbolClean;
+      } else if (category === 'linear') {
+        params.settleCoin = 'USDT';
+      }
+      try {
+        await this.authenticatedRequest('/v5/order/cancel-all', params, 'POST');
+      } catch (error: any) {
+        errors.push(`${category}: ${error.message}`);
+      }
+    }
+
+    if (errors.length === 2) {
+      throw new Error(`Bybit cancelAllOrders failed: ${errors.join('; ')}`);
+    }
+  }
+
+  /**
+   * Get order status (open orders first, then order history)
+   */
+  async getOrderStatus(orderId: string, symbol: string): Promise<OrderResult> {
+    const symbolClean = symbol.replace('/', '');
+    try {
+      for (const category of ['linear', 'spot'] as BybitCategory[]) {
+        for (const endpoint of ['/v5/order/realtime', '/v5/order/history']) {
+          const result = await this.authenticatedRequest(endpoint, {
+            category,
+            symbol: symbolClean,
+            orderId,
+          });
+          const order: BybitOrder | undefined = result.list?.[0];
+          if (order) {
+            return this.mapOrderResult(order);
+          }
+        }
+      }
+      throw new Error(`Order ${orderId} not found`);
+    } catch (error: any) {
+      throw new Error(`Bybit getOrderStatus failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get open orders
+   */
+  async getOpenOrders(symbol?: string): Promise<OrderResult[]> {
+    const symbolClean = symbol?.replace('/', '');
+    const orders: OrderResult[] = [];
+
+    for (const category of ['spot', 'linear'] as BybitCategory[]) {
+      try {
+        const list = await this.fetchOpenOrdersByCategory(category, symbolClean);
+        orders.push(...list.map((o) => this.mapOrderResult(o)));
+      } catch (error: any) {
+        console.warn(`[Bybit] Failed to fetch ${category} orders: ${error.message}`);
+      }
+    }
+
+    return orders;
+  }
+}
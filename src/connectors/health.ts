@@ -0,0 +1,90 @@
+/**
+ * Connector Health
+ * Per-connector state machine: healthy -> degraded (any recent failure) -> down
+ * (a source failing `downAfterFailures` times in a row); any success on a source clears it
+ */
+
+import {
+  ConnectionHealthState,
+  ConnectorHealthStatus,
+  HealthSource,
+  HealthTracker,
+} from '../types';
+import { config } from '../config';
+
+type HealthListener = (status: ConnectorHealthStatus, previous: ConnectionHealthState) => void;
+
+export class ConnectorHealth implements HealthTracker {
+  private exchange: string;
+  private state: ConnectionHealthState = 'healthy';
+  private since = Date.now();
+  private failures: Record<HealthSource, number> = { rest: 0, websocket: 0, listenKey: 0 };
+  private lastError?: string;
+  private lastErrorAt?: number;
+  private lastSuccessAt?: number;
+  private listeners: HealthListener[] = [];
+
+  constructor(exchange: string) {
+    this.exchange = exchange;
+  }
+
+  recordSuccess(source: HealthSource): void {
+    this.failures[source] = 0;
+    this.lastSuccessAt = Date.now();
+    this.evaluate();
+  }
+
+  recordFailure(source: HealthSource, error: string): void {
+    this.failures[source]++;
+    this.lastError = `${source}: ${error}`;
+    this.lastErrorAt = Date.now();
+    this.evaluate();
+  }
+
+  getStatus(): ConnectorHealthStatus {
+    return {
+      exchange: this.exchange,
+      state: this.state,
+      since: this.since,
+      consecutiveFailures: { ...this.failures },
+      lastError: this.lastError,
+      lastErrorAt: this.lastErrorAt,
+      lastSuccessAt: this.lastSuccessAt,
+    };
+  }
+
+  onChange(callback: HealthListener): void {
+    this.listeners.push(callback);
+  }
+
+  reconnectDelay(): number {
+    const failures = Math.max(this.failures.websocket, this.failures.listenKey, 1);
+    const base = Math.min(
+      config.health.reconnectBaseMs * Math.pow(2, failures - 1),
+      config.health.reconnectMaxMs
+    );
+    // Up to 20% jitter so many connectors don't reconnect in lockstep
+    return base + Math.random() * base * 0.2;
+  }
+
+  private evaluate(): void {
+    const worst = Math.max(this.failures.rest, this.failures.websocket, this.failures.listenKey);
+    const next: ConnectionHealthState =
+      worst >= config.health.downAfterFailures ? 'down' : worst > 0 ? 'degraded' : 'healthy';
+    if (next === this.state) return;
+
+    const previous = this.state;
+    this.state = next;
+    this.since = Date.now();
+    console.log(`[Health] ${this.exchange}: ${previous} -> ${next}${this.lastError && next !== 'healthy' ? ` (${this.lastError})` : ''}`);
+
+    const status = this.getStatus();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(status, previous);
+      } catch (error) {
+        console.error('[Health] Listener failed:', error);
+      }
+    });
+  }
+}
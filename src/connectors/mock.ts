@@ -0,0 +1,650 @@
+/**
+ * Mock Exchange Connector
+ * Deterministic in-memory exchange (seeded price path, matching book, simulated fills)
+ * for local development and offline tests
+ */
+
+import {
+  ExchangeConnector,
+  TradingConnector,
+  RawBalance,
+  RawPosition,
+  MarginMode,
+  RawOrder,
+  RawTrade,
+  RealtimeCallback,
+  RealtimeUpdate,
+  ExchangeCredentials,
+  OrderParams,
+  OrderResult,
+  OrderBook,
+  AccountAsset,
+} from '../types';
+import { BaseNormalizer, splitSymbol } from '../normalizer';
+import { config } from '../config';
+import { ConnectorHealth } from './health';
+
+export interface MockExchangeOptions {
+  seed?: number;
+  tickMs?: number; // 0 disables the timer; call advance() manually
+  volatility?: number; // Per-tick stddev of log returns
+  spread?: number; // Relative bid/ask spread applied to market fills
+  feeRate?: number; // Taker/maker fee as a fraction of notional
+  prices?: Record<string, number>; // Starting prices by symbol
+  balances?: Record<string, number>; // Starting wallet by asset
+  now?: () => number;
+}
+
+interface MockOrder {
+  orderId: string;
+  clientOrderId?: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  type: 'market' | 'limit';
+  market: 'spot' | 'futures';
+  price: number;
+  quantity: number;
+  filledQuantity: number;
+  status: string;
+  reduceOnly: boolean;
+  locked: boolean; // Spot funds reserved while resting
+  timestamp: number;
+}
+
+interface MockPosition {
+  size: number; // Signed: positive long, negative short
+  entryPrice: number;
+  leverage: number;
+  marginMode?: MarginMode;
+}
+
+const DEFAULT_PRICES: Record<string, number> = {
+  BTCUSDT: 60000,
+  ETHUSDT: 3000,
+  SOLUSDT: 150,
+};
+
+/**
+ * mulberry32: small, fast, seedable PRNG
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export class MockExchangeConnector implements ExchangeConnector, TradingConnector {
+  readonly exchangeName = 'mock';
+  readonly health = new ConnectorHealth('mock');
+  private random: () => number;
+  private now: () => number;
+  private tickMs: number;
+  private volatility: number;
+  private spread: number;
+  private feeRate: number;
+  private prices: Map<string, number>;
+  private balances: Map<string, { free: number; locked: number }> = new Map();
+  private positions: Map<string, MockPosition> = new Map();
+  private orders: Map<string, MockOrder> = new Map();
+  private trades: RawTrade[] = [];
+  private realtimeCallbacks: RealtimeCallback[] = [];
+  private tickTimer: NodeJS.Timeout | null = null;
+  private normalizer: BaseNormalizer;
+  private orderSequence = 0;
+  private tradeSequence = 0;
+
+  constructor(_credentials?: ExchangeCredentials, options: MockExchangeOptions = {}) {
+    this.random = createRandom(options.seed ?? config.mock.seed);
+    this.now = options.now || Date.now;
+    this.tickMs = options.tickMs ?? config.mock.tickMs;
+    this.volatility = options.volatility ?? config.mock.volatility;
+    this.spread = options.spread ?? 0.0002;
+    this.feeRate = options.feeRate ?? 0.001;
+    this.prices = new Map(Object.entries(options.prices || DEFAULT_PRICES));
+    this.normalizer = new BaseNormalizer();
+
+    const balances = options.balances || { USDT: config.mock.initialUsdt };
+    Object.entries(balances).forEach(([asset, amount]) => {
+      this.balances.set(asset, { free: amount, locked: 0 });
+    });
+  }
+
+  // ==================== Simulation ====================
+
+  /**
+   * Standard normal sample (Box-Muller) from the seeded PRNG
+   */
+  private gaussian(): number {
+    const u = Math.max(this.random(), Number.EPSILON);
+    const v = this.random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  /**
+   * Advance the price path by a number of ticks, matching resting orders after each tick
+   */
+  advance(ticks: number = 1): void {
+    for (let i = 0; i < ticks; i++) {
+      // Iterate symbols in sorted order so the path only depends on the seed
+      Array.from(this.prices.keys())
+        .sort()
+        .forEach((symbol) => {
+          const price = this.prices.get(symbol)!;
+          this.prices.set(symbol, price * Math.exp(this.volatility * this.gaussian()));
+        });
+      this.matchRestingOrders();
+      this.emitPositionMarks();
+    }
+  }
+
+  /**
+   * Current mid price for a symbol
+   */
+  getPrice(symbol: string): number {
+    const price = this.prices.get(symbol.replace('/', '').toUpperCase());
+    if (price === undefined) {
+      throw new Error(`Unknown mock symbol: ${symbol}`);
+    }
+    return price;
+  }
+
+  /**
+   * Override the mid price for a symbol (e.g. to force a fill in tests)
+   */
+  setPrice(symbol: string, price: number): void {
+    this.prices.set(symbol.replace('/', '').toUpperCase(), price);
+    this.matchRestingOrders();
+    this.emitPositionMarks();
+  }
+
+  private usdPrice(asset: string): number {
+    if (['USDT', 'USDC', 'BUSD', 'FDUSD', 'USD'].includes(asset)) return 1;
+    return this.prices.get(`${asset}USDT`) || 0;
+  }
+
+  private wallet(asset: string): { free: number; locked: number } {
+    let entry = this.balances.get(asset);
+    if (!entry) {
+      entry = { free: 0, locked: 0 };
+      this.balances.set(asset, entry);
+    }
+    return entry;
+  }
+
+  private pair(symbol: string): { base: string; quote: string } {
+    const pair = splitSymbol(symbol);
+    if (!pair) {
+      throw new Error(`Unknown mock symbol: ${symbol}`);
+    }
+    return pair;
+  }
+
+  private emit(update: RealtimeUpdate): void {
+    this.realtimeCallbacks.forEach((callback) => {
+      try {
+        callback(update);
+      } catch (error) {
+        console.error('[Mock] Error in realtime callback:', error);
+      }
+    });
+  }
+
+  private emitBalance(asset: string): void {
+    const entry = this.wallet(asset);
+    this.emit({
+      type: 'balance',
+      data: this.normalizer.normalizeBalance(
+        { asset, free: entry.free, locked: entry.locked },
+        this.exchangeName,
+        this.usdPrice(asset)
+      ),
+    });
+  }
+
+  private emitOrder(order: MockOrder): void {
+    this.emit({ type: 'order', data: this.normalizer.normalizeOrder(this.toRawOrder(order), this.exchangeName) });
+  }
+
+  private emitPositionMarks(): void {
+    this.positions.forEach((_position, symbol) => {
+      const raw = this.toRawPosition(symbol);
+      if (raw) {
+        this.emit({ type: 'position', data: this.normalizer.normalizePosition(raw, this.exchangeName) });
+      }
+    });
+  }
+
+  /**
+   * Fill resting limit orders whose price has been crossed
+   */
+  private matchRestingOrders(): void {
+    const resting = Array.from(this.orders.values()).filter(
+      (o) => o.type === 'limit' && (o.status === 'NEW' || o.status === 'PARTIALLY_FILLED')
+    );
+    resting.forEach((order) => {
+      const price = this.prices.get(order.symbol);
+      if (price === undefined) return;
+      const crossed = order.side === 'buy' ? price <= order.price : price >= order.price;
+      if (crossed) {
+        this.fill(order, order.price);
+      }
+    });
+  }
+
+  /**
+   * Fill the remaining quantity of an order at a price and settle balances/positions
+   */
+  private fill(order: MockOrder, price: number): void {
+    const quantity = order.quantity - order.filledQuantity;
+    const notional = quantity * price;
+    const fee = notional * this.feeRate;
+    const { base, quote } = this.pair(order.symbol);
+    const quoteWallet = this.wallet(quote);
+
+    if (order.market === 'spot') {
+      const baseWallet = this.wallet(base);
+      if (order.side === 'buy') {
+        if (order.locked) {
+          quoteWallet.locked -= quantity * order.price;
+          quoteWallet.free += quantity * order.price;
+        }
+        quoteWallet.free -= notional + fee;
+        baseWallet.free += quantity;
+      } else {
+        if (order.locked) {
+          baseWallet.locked -= quantity;
+        } else {
+          baseWallet.free -= quantity;
+        }
+        quoteWallet.free += notional - fee;
+      }
+    } else {
+      const realized = this.applyFuturesFill(order.symbol, order.side === 'buy' ? quantity : -quantity, price);
+      quoteWallet.free += realized - fee;
+    }
+
+    order.filledQuantity = order.quantity;
+    order.status = 'FILLED';
+    order.locked = false;
+    order.timestamp = this.now();
+
+    const trade: RawTrade = {
+      symbol: order.symbol,
+      side: order.side,
+      price,
+      quantity,
+      fee,
+      feeAsset: quote,
+      timestamp: order.timestamp,
+      tradeId: `mock-t-${++this.tradeSequence}`,
+      orderId: order.orderId,
+      market: order.market,
+    };
+    this.trades.push(trade);
+
+    this.emitOrder(order);
+    this.emit({ type: 'trade', data: this.normalizer.normalizeTrade(trade, this.exchangeName) });
+    this.emitBalance(quote);
+    if (order.market === 'spot') {
+      this.emitBalance(base);
+    } else {
+      const raw = this.toRawPosition(order.symbol);
+      if (raw) {
+        this.emit({ type: 'position', data: this.normalizer.normalizePosition(raw, this.exchangeName) });
+      }
+    }
+  }
+
+  /**
+   * Apply a signed fill to a one-way futures position; returns realized PnL
+   */
+  private applyFuturesFill(symbol: string, signedQty: number, price: number): number {
+    const position = this.positions.get(symbol) || { size: 0, entryPrice: 0, leverage: 1 };
+    let realized = 0;
+
+    if (position.size === 0 || Math.sign(position.size) === Math.sign(signedQty)) {
+      const newSize = position.size + signedQty;
+      position.entryPrice =
+        (Math.abs(position.size) * position.entryPrice + Math.abs(signedQty) * price) / Math.abs(newSize);
+      position.size = newSize;
+    } else {
+      const closing = Math.min(Math.abs(signedQty), Math.abs(position.size));
+      realized = (price - position.entryPrice) * closing * Math.sign(position.size);
+      const newSize = position.size + signedQty;
+      if (Math.abs(newSize) < 1e-12) {
+        position.size = 0;
+      } else if (Math.sign(newSize) !== Math.sign(position.size)) {
+        position.size = newSize;
+        position.entryPrice = price; // Flipped: remainder opens at fill price
+      } else {
+        position.size = newSize;
+      }
+    }
+
+    this.positions.set(symbol, position);
+    return realized;
+  }
+
+  private toRawPosition(symbol: string): RawPosition | null {
+    const position = this.positions.get(symbol);
+    if (!position) return null;
+    return {
+      symbol,
+      side: 'both',
+      size: position.size,
+      entryPrice: position.entryPrice,
+      markPrice: this.prices.get(symbol) || position.entryPrice,
+      leverage: position.leverage,
+      marginMode: position.marginMode || 'cross',
+    };
+  }
+
+  private toRawOrder(order: MockOrder): RawOrder {
+    return {
+      symbol: order.symbol,
+      side: order.side,
+      type: order.type.toUpperCase(),
+      price: order.price,
+      quantity: order.quantity,
+      status: order.status.toLowerCase(),
+      orderId: order.orderId,
+      timestamp: order.timestamp,
+      filledQuantity: order.filledQuantity,
+      clientOrderId: order.clientOrderId,
+      market: order.market,
+    };
+  }
+
+  private toOrderResult(order: MockOrder): OrderResult {
+    return {
+      orderId: order.orderId,
+      symbol: order.symbol,
+      side: order.side,
+      type: order.type,
+      status: order.status,
+      price: order.price,
+      quantity: order.quantity,
+      filledQuantity: order.filledQuantity,
+      remainingQuantity: order.quantity - order.filledQuantity,
+      timestamp: order.timestamp,
+      exchange: this.exchangeName,
+      clientOrderId: order.clientOrderId,
+    };
+  }
+
+  // ==================== ExchangeConnector Implementation ====================
+
+  async fetchBalances(): Promise<RawBalance[]> {
+    return Array.from(this.balances.entries())
+      .filter(([, entry]) => entry.free + entry.locked > 0)
+      .map(([asset, entry]) => ({
+        asset,
+        free: entry.free,
+        locked: entry.locked,
+        usdPrice: this.usdPrice(asset),
+      }));
+  }
+
+  async fetchTickerPrices(): Promise<Record<string, number>> {
+    return Object.fromEntries(this.prices);
+  }
+
+  async fetchPositions(): Promise<RawPosition[]> {
+    return Array.from(this.positions.keys())
+      .map((symbol) => this.toRawPosition(symbol))
+      .filter((p): p is RawPosition => p !== null && p.size !== 0);
+  }
+
+  async fetchOpenOrders(): Promise<RawOrder[]> {
+    return (await this.getOpenOrders()).map((o) => ({
+      symbol: o.symbol,
+      side: o.side,
+      type: o.type.toUpperCase(),
+      price: o.price,
+      quantity: o.quantity,
+      status: o.status.toLowerCase(),
+      orderId: o.orderId,
+      timestamp: o.timestamp,
+    }));
+  }
+
+  async fetchTradeHistory(startTime: number, endTime: number): Promise<RawTrade[]> {
+    return this.trades.filter((t) => t.timestamp >= startTime && t.timestamp <= endTime);
+  }
+
+  async fetchOrderHistory(symbol: string, _market: 'spot' | 'futures', limit: number = 50): Promise<RawOrder[]> {
+    const symbolClean = symbol.replace('/', '').toUpperCase();
+    return Array.from(this.orders.values())
+      .filter((o) => o.symbol === symbolClean)
+      .slice(-limit)
+      .map((o) => this.toRawOrder(o));
+  }
+
+  async fetchTradesBySymbol(symbol: string, _market: 'spot' | 'futures', limit: number = 50): Promise<RawTrade[]> {
+    const symbolClean = symbol.replace('/', '').toUpperCase();
+    return this.trades.filter((t) => t.symbol === symbolClean).slice(-limit);
+  }
+
+  async fetchTradesInRange(
+    symbol: string,
+    _market: 'spot' | 'futures',
+    startTime: number,
+    endTime: number
+  ): Promise<RawTrade[]> {
+    const symbolClean = symbol.replace('/', '').toUpperCase();
+    return this.trades.filter((t) => t.symbol === symbolClean && t.timestamp >= startTime && t.timestamp <= endTime);
+  }
+
+  async fetchAccountTradesInRange(market: 'spot' | 'futures', startTime: number, endTime: number): Promise<RawTrade[]> {
+    return this.trades.filter(
+      (t) =>
+        this.orders.get(t.orderId || '')?.market === market && t.timestamp >= startTime && t.timestamp <= endTime
+    );
+  }
+
+  async fetchSpotAssets(): Promise<AccountAsset[]> {
+    return Array.from(this.balances.entries()).map(([asset, entry]) => ({
+      asset,
+      walletBalance: entry.free + entry.locked,
+      unrealizedPnl: 0,
+      marginBalance: entry.free + entry.locked,
+      availableBalance: entry.free,
+    }));
+  }
+
+  async fetchFuturesAssets(): Promise<AccountAsset[]> {
+    const usdt = this.wallet('USDT');
+    const unrealizedPnl = Array.from(this.positions.entries()).reduce((sum, [symbol, p]) => {
+      return sum + ((this.prices.get(symbol) || p.entryPrice) - p.entryPrice) * p.size;
+    }, 0);
+    return [
+      {
+        asset: 'USDT',
+        walletBalance: usdt.free + usdt.locked,
+        unrealizedPnl,
+        marginBalance: usdt.free + usdt.locked + unrealizedPnl,
+        availableBalance: usdt.free,
+      },
+    ];
+  }
+
+  async subscribeRealtimeUpdates(callback: RealtimeCallback): Promise<void> {
+    this.realtimeCallbacks.push(callback);
+    if (!this.tickTimer && this.tickMs > 0) {
+      this.tickTimer = setInterval(() => this.advance(), this.tickMs);
+      this.tickTimer.unref?.();
+    }
+  }
+
+  async unsubscribeRealtimeUpdates(): Promise<void> {
+    this.realtimeCallbacks = [];
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  // ==================== TradingConnector Implementation ====================
+
+  /**
+   * One level per side at the simulated bid/ask (market fills never walk the book)
+   */
+  async fetchOrderBook(symbol: string, _market: 'spot' | 'futures', _depth?: number): Promise<OrderBook> {
+    const mid = this.getPrice(symbol);
+    return {
+      symbol: symbol.replace('/', '').toUpperCase(),
+      bids: [{ price: mid * (1 - this.spread / 2), quantity: Number.MAX_SAFE_INTEGER }],
+      asks: [{ price: mid * (1 + this.spread / 2), quantity: Number.MAX_SAFE_INTEGER }],
+      timestamp: Date.now(),
+    };
+  }
+
+  async placeOrder(params: OrderParams): Promise<OrderResult> {
+    const symbol = params.symbol.replace('/', '').toUpperCase();
+    const mid = this.getPrice(symbol);
+    const market = params.market === 'futures' ? 'futures' : 'spot';
+    const { base, quote } = this.pair(symbol);
+
+    if (params.quantity <= 0) {
+      throw new Error('Invalid quantity: must be positive');
+    }
+    if (params.type === 'limit' && !params.price) {
+      throw new Error('Price is required for limit orders');
+    }
+
+    let quantity = params.quantity;
+    if (params.reduceOnly) {
+      const position = this.positions.get(symbol);
+      const reducing = position && (params.side === 'sell' ? position.size > 0 : position.size < 0);
+      if (market !== 'futures' || !position || !reducing) {
+        throw new Error('Order rejected: reduce-only order would not reduce a position');
+      }
+      quantity = Math.min(quantity, Math.abs(position.size));
+    }
+
+    const ask = mid * (1 + this.spread / 2);
+    const bid = mid * (1 - this.spread / 2);
+    const marketable =
+      params.type === 'market' || (params.side === 'buy' ? params.price! >= ask : params.price! <= bid);
+    if (marketable && params.postOnly) {
+      throw new Error('Order rejected: post-only order would immediately match');
+    }
+
+    // Spot orders must be funded; limit orders lock funds while resting
+    if (market === 'spot') {
+      const reference = params.type === 'limit' ? params.price! : ask;
+      if (params.side === 'buy' && this.wallet(quote).free < quantity * reference * (1 + this.feeRate)) {
+        throw new Error(`Insufficient balance: ${quote}`);
+      }
+      if (params.side === 'sell' && this.wallet(base).free < quantity) {
+        throw new Error(`Insufficient balance: ${base}`);
+      }
+    }
+
+    const order: MockOrder = {
+      orderId: `mock-${++this.orderSequence}`,
+      symbol,
+      side: params.side,
+      type: params.type,
+      market,
+      price: params.type === 'limit' ? params.price! : 0,
+      quantity,
+      filledQuantity: 0,
+      status: 'NEW',
+      reduceOnly: !!params.reduceOnly,
+      locked: false,
+      timestamp: this.now(),
+    };
+    this.orders.set(order.orderId, order);
+
+    if (market === 'futures' && (params.leverage || params.marginMode)) {
+      const position = this.positions.get(symbol) || { size: 0, entryPrice: 0, leverage: 1 };
+      position.leverage = params.leverage || position.leverage;
+      position.marginMode = params.marginMode || position.marginMode;
+      this.positions.set(symbol, position);
+    }
+
+    if (marketable) {
+      this.fill(order, params.side === 'buy' ? ask : bid);
+    } else {
+      if (market === 'spot') {
+        order.locked = true;
+        if (params.side === 'buy') {
+          const wallet = this.wallet(quote);
+          wallet.free -= quantity * order.price;
+          wallet.locked += quantity * order.price;
+          this.emitBalance(quote);
+        } else {
+          const wallet = this.wallet(base);
+          wallet.free -= quantity;
+          wallet.locked += quantity;
+          this.emitBalance(base);
+        }
+      }
+      this.emitOrder(order);
+    }
+
+    return this.toOrderResult(order);
+  }
+
+  async cancelOrder(orderId: string, _symbol: string): Promise<void> {
+    const order = this.orders.get(orderId);
+    if (!order || (order.status !== 'NEW' && order.status !== 'PARTIALLY_FILLED')) {
+      throw new Error(`Unknown or closed order: ${orderId}`);
+    }
+
+    if (order.locked) {
+      const remaining = order.quantity - order.filledQuantity;
+      const { base, quote } = this.pair(order.symbol);
+      if (order.side === 'buy') {
+        const wallet = this.wallet(quote);
+        wallet.locked -= remaining * order.price;
+        wallet.free += remaining * order.price;
+        this.emitBalance(quote);
+      } else {
+        const wallet = this.wallet(base);
+        wallet.locked -= remaining;
+        wallet.free += remaining;
+        this.emitBalance(base);
+      }
+    }
+
+    order.status = 'CANCELED';
+    order.locked = false;
+    order.timestamp = this.now();
+    this.emitOrder(order);
+  }
+
+  async cancelAllOrders(symbol?: string): Promise<void> {
+    const symbolClean = symbol?.replace('/', '').toUpperCase();
+    const open = await this.getOpenOrders(symbolClean);
+    for (const order of open) {
+      await this.cancelOrder(order.orderId, order.symbol);
+    }
+  }
+
+  async getOrderStatus(orderId: string, _symbol: string): Promise<OrderResult> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`Unknown order: ${orderId}`);
+    }
+    return this.toOrderResult(order);
+  }
+
+  async getOpenOrders(symbol?: string): Promise<OrderResult[]> {
+    const symbolClean = symbol?.replace('/', '').toUpperCase();
+    return Array.from(this.orders.values())
+      .filter((o) => o.status === 'NEW' || o.status === 'PARTIALLY_FILLED')
+      .filter((o) => !symbolClean || o.symbol === symbolClean)
+      .map((o) => this.toOrderResult(o));
+  }
+}
@@ -0,0 +1,1111 @@
+/**
+ * OKX Exchange Connector
+ * Unified account (spot, margin, swap) over v5 REST and private WebSocket
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import WebSocket from 'ws';
+import crypto from 'crypto';
+import {
+  ExchangeConnector,
+  TradingConnector,
+  RawBalance,
+  RawPosition,
+  RawOrder,
+  RawTrade,
+  RealtimeCallback,
+  RealtimeUpdate,
+  ExchangeCredentials,
+  OrderParams,
+  OrderResult,
+  OrderBook,
+  AccountAsset,
+  IncomeRecord,
+  SymbolRules,
+} from '../types';
+import { config } from '../config';
+import { rateLimiter } from '../security/rateLimiter';
+import { OKXNormalizer } from '../normalizer';
+import { ConnectorHealth } from './health';
+
+type OKXInstType = 'SPOT' | 'MARGIN' | 'SWAP' | 'FUTURES';
+
+interface OKXResponse<T = any> {
+  code: string;
+  msg: string;
+  data: T[];
+}
+
+interface OKXBalanceDetail {
+  ccy: string;
+  cashBal: string;
+  availBal: string;
+  frozenBal: string;
+  eq: string;
+  eqUsd: string;
+}
+
+interface OKXPosition {
+  instId: string;
+  instType: OKXInstType;
+  mgnMode: 'cross' | 'isolated';
+  pos: string;
+  posSide: 'long' | 'short' | 'net';
+  posCcy?: string;
+  avgPx: string;
+  markPx: string;
+  lever: string;
+  liqPx: string; // '' when there is none
+  upl: string;
+}
+
+interface OKXOrder {
+  instId: string;
+  instType: OKXInstType;
+  ordId: string;
+  clOrdId: string;
+  side: 'buy' | 'sell';
+  ordType: string;
+  px: string;
+  sz: string;
+  accFillSz: string;
+  state: string;
+  cTime: string;
+  uTime: string;
+  // Present on order channel pushes that carry a fill
+  tradeId?: string;
+  fillPx?: string;
+  fillSz?: string;
+  fillFee?: string;
+  fillFeeCcy?: string;
+  fillTime?: string;
+}
+
+interface OKXFill {
+  instId: string;
+  instType: OKXInstType;
+  tradeId: string;
+  ordId: string;
+  billId: string;
+  side: 'buy' | 'sell';
+  fillPx: string;
+  fillSz: string;
+  fee: string;
+  feeCcy: string;
+  ts: string;
+}
+
+interface OKXInstrument {
+  instId: string;
+  ctVal: string;
+  ctValCcy: string;
+  lotSz: string;
+  baseCcy?: string; // SPOT only
+  quoteCcy?: string;
+  settleCcy?: string; // SWAP only
+  state?: string;
+  tickSz?: string;
+  minSz?: string;
+  maxLmtSz?: string;
+  maxMktSz?: string;
+}
+
+// 51603: order does not exist
+const ORDER_NOT_FOUND_CODE = '51603';
+
+const TRADE_INST_TYPES: OKXInstType[] = ['SPOT', 'MARGIN', 'SWAP'];
+
+export class OKXApiError extends Error {
+  constructor(public readonly code: string, message: string) {
+    super(message);
+    this.name = 'OKXApiError';
+  }
+}
+
+export class OKXConnector implements ExchangeConnector, TradingConnector {
+  readonly exchangeName = 'okx';
+  readonly health = new ConnectorHealth('okx');
+  private credentials: ExchangeCredentials;
+  private client: AxiosInstance;
+  private privateStream: WebSocket | null = null;
+  private pingInterval: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private realtimeCallbacks: RealtimeCallback[] = [];
+  private normalizer: OKXNormalizer;
+  private swapInstruments: Map<string, OKXInstrument> | null = null;
+  private positionMode: 'long_short_mode' | 'net_mode' | null = null;
+  private symbolRules: Map<string, { rules: SymbolRules | null; fetchedAt: number }> = new Map(); // instId
+
+  constructor(credentials: ExchangeCredentials) {
+    this.credentials = credentials;
+    this.normalizer = new OKXNormalizer();
+
+    this.client = axios.create({
+      baseURL: (process.env.OKX_BASE_URL || 'https://www.okx.com').replace(/\/+$/, ''),
+      timeout: 10000,
+    });
+  }
+
+  /**
+   * Sign a request: base64(HMAC-SHA256(timestamp + method + requestPath + body))
+   */
+  private generateSignature(timestamp: string, method: string, requestPath: string, body: string): string {
+    return crypto
+      .createHmac('sha256', this.credentials.apiSecret)
+      .update(`${timestamp}${method}${requestPath}${body}`)
+      .digest('base64');
+  }
+
+  /**
+   * Make authenticated request and unwrap the v5 response envelope
+   */
+  private async authenticatedRequest<T = any>(
+    endpoint: string,
+    params: Record<string, any> | Record<string, any>[] = {},
+    method: 'GET' | 'POST' = 'GET'
+  ): Promise<T[]> {
+    await rateLimiter.checkLimit('okx');
+
+    const isGet = method === 'GET';
+    let requestPath = endpoint;
+    if (isGet) {
+      const searchParams = new URLSearchParams();
+      Object.entries(params)
+        .filter(([, value]) => value !== undefined && value !== null && value !== '')
+        .forEach(([key, value]) => searchParams.append(key, String(value)));
+      const query = searchParams.toString();
+      if (query) requestPath = `${endpoint}?${query}`;
+    }
+    const body = isGet ? '' : JSON.stringify(params);
+    const timestamp = new Date().toISOString();
+
+    const headers: Record<string, string> = {
+      'OK-ACCESS-KEY': this.credentials.apiKey,
+      'OK-ACCESS-SIGN': this.generateSignature(timestamp, method, requestPath, body),
+      'OK-ACCESS-TIMESTAMP': timestamp,
+      'OK-ACCESS-PASSPHRASE': this.credentials.passphrase!,
+      'Content-Type': 'application/json',
+    };
+    if (this.credentials.sandbox) {
+      headers['x-simulated-trading'] = '1';
+    }
+
+    const response = await this.client.request<OKXResponse<T>>({
+      method,
+      url: requestPath,
+      data: isGet ? undefined : body,
+      headers,
+    });
+
+    const data = response.data;
+    if (data.code !== '0') {
+      // Batch/trade endpoints report the per-item failure in data[].sCode
+      const item: any = data.data?.[0];
+      const code = item?.sCode && item.sCode !== '0' ? item.sCode : data.code;
+      const msg = item?.sMsg || data.msg;
+      throw new OKXApiError(code, `OKX API error (${code}): ${msg}`);
+    }
+    return data.data;
+  }
+
+  /**
+   * Load SWAP contract specs (contract value) so sizes can be expressed in base units
+   */
+  private async getSwapInstrument(instId: string): Promise<OKXInstrument | undefined> {
+    if (!this.swapInstruments) {
+      const response = await this.client.get<OKXResponse<OKXInstrument>>('/api/v5/public/instruments', {
+        params: { instType: 'SWAP' },
+      });
+      this.swapInstruments = new Map(response.data.data.map((i) => [i.instId, i]));
+    }
+    return this.swapInstruments.get(instId);
+  }
+
+  /**
+   * Account position mode (long/short mode needs posSide on SWAP orders and isolated leverage)
+   */
+  private async getPositionMode(): Promise<'long_short_mode' | 'net_mode'> {
+    if (!this.positionMode) {
+      const data = await this.authenticatedRequest<{ posMode: 'long_short_mode' | 'net_mode' }>('/api/v5/account/config');
+      this.positionMode = data[0]?.posMode || 'net_mode';
+    }
+    return this.positionMode;
+  }
+
+  /**
+   * Margin mode for a SWAP order: the requested one, else that of the open position
+   */
+  private async resolveMarginMode(instId: string, requested?: 'cross' | 'isolated'): Promise<'cross' | 'isolated'> {
+    if (requested) return requested;
+    const positions = await this.authenticatedRequest<OKXPosition>('/api/v5/account/positions', { instId });
+    const open = positions.find((p) => parseFloat(p.pos || '0') !== 0);
+    if (!open) {
+      throw new Error(`marginMode (cross or isolated) is required for ${instId} without an open position`);
+    }
+    return open.mgnMode;
+  }
+
+  /**
+   * Convert a contract quantity into base units (non-SWAP quantities are already base)
+   */
+  private async contractsToBase(instId: string, contracts: number): Promise<number> {
+    if (!instId.endsWith('-SWAP')) return contracts;
+    const instrument = await this.getSwapInstrument(instId);
+    return instrument ? contracts * parseFloat(instrument.ctVal) : contracts;
+  }
+
+  /**
+   * Convert a base quantity into contracts for SWAP instruments
+   */
+  private async baseToContracts(instId: string, quantity: number): Promise<number> {
+    if (!instId.endsWith('-SWAP')) return quantity;
+    const instrument = await this.getSwapInstrument(instId);
+    if (!instrument) return quantity;
+    const lotSz = parseFloat(instrument.lotSz) || 1;
+    const contracts = Math.floor(quantity / parseFloat(instrument.ctVal) / lotSz) * lotSz;
+    if (contracts <= 0) {
+      throw new Error(
+        `Quantity ${quantity} is below one contract (${instrument.ctVal} ${instrument.ctValCcy}) for ${instId}`
+      );
+    }
+    return contracts;
+  }
+
+  /**
+   * Map OKX order state to unified status
+   */
+  private mapOKXStatus(state: string): string {
+    const statusMap: Record<string, string> = {
+      live: 'NEW',
+      partially_filled: 'PARTIALLY_FILLED',
+      filled: 'FILLED',
+      canceled: 'CANCELED',
+      mmp_canceled: 'CANCELED',
+    };
+    return statusMap[state] || state.toUpperCase();
+  }
+
+  private mapBalance(d: OKXBalanceDetail): RawBalance {
+    const cash = parseFloat(d.cashBal || '0');
+    const free = parseFloat(d.availBal || '0');
+    const eq = parseFloat(d.eq || '0');
+    const eqUsd = parseFloat(d.eqUsd || '0');
+    return {
+      asset: d.ccy,
+      free,
+      locked: Math.max(0, parseFloat(d.frozenBal || '0')),
+      // Unified account: one trading balance backs spot, margin and swap
+      accountType: 'spot',
+      usdPrice: eq > 0 && eqUsd > 0 ? eqUsd / eq : undefined,
+      cashBalance: cash,
+    };
+  }
+
+  private async mapPosition(p: OKXPosition): Promise<RawPosition> {
+    const rawPos = parseFloat(p.pos || '0');
+    const markPrice = parseFloat(p.markPx || '0');
+    let size = await this.contractsToBase(p.instId, Math.abs(rawPos));
+    // Margin positions may be denominated in the quote currency
+    if (p.instType === 'MARGIN' && p.posCcy && !p.instId.startsWith(`${p.posCcy}-`) && markPrice > 0) {
+      size = size / markPrice;
+    }
+
+    return {
+      symbol: p.instId,
+      side: p.posSide === 'net' ? 'both' : p.posSide,
+      size: p.posSide === 'net' && rawPos < 0 ? -size : size,
+      entryPrice: parseFloat(p.avgPx || '0'),
+      markPrice,
+      leverage: parseFloat(p.lever || '1'),
+      liquidationPrice: parseFloat(p.liqPx) > 0 ? parseFloat(p.liqPx) : undefined,
+      instType: p.instType,
+      marginMode: p.mgnMode,
+      unrealizedPnl: parseFloat(p.upl || '0'),
+    };
+  }
+
+  private async mapOrder(o: OKXOrder): Promise<RawOrder> {
+    return {
+      symbol: o.instId,
+      side: o.side,
+      type: o.ordType,
+      price: parseFloat(o.px || '0'),
+      quantity: await this.contractsToBase(o.instId, parseFloat(o.sz || '0')),
+      status: this.mapOKXStatus(o.state).toLowerCase(),
+      orderId: o.ordId,
+      timestamp: parseInt(o.uTime || o.cTime, 10) || Date.now(),
+      instType: o.instType,
+      filledQuantity: await this.contractsToBase(o.instId, parseFloat(o.accFillSz || '0')),
+      clientOrderId: o.clOrdId || undefined,
+      market: o.instType === 'SPOT' ? 'spot' : 'futures',
+    };
+  }
+
+  private async mapOrderResult(o: OKXOrder): Promise<OrderResult> {
+    const quantity = await this.contractsToBase(o.instId, parseFloat(o.sz || '0'));
+    const filled = await this.contractsToBase(o.instId, parseFloat(o.accFillSz || '0'));
+    return {
+      orderId: o.ordId,
+      symbol: OKXNormalizer.fromInstId(o.instId),
+      side: o.side,
+      type: o.ordType,
+      status: this.mapOKXStatus(o.state),
+      price: parseFloat(o.px || '0'),
+      quantity,
+      filledQuantity: filled,
+      remainingQuantity: quantity - filled,
+      timestamp: parseInt(o.uTime || o.cTime, 10) || Date.now(),
+      exchange: this.exchangeName,
+      clientOrderId: o.clOrdId || undefined,
+    };
+  }
+
+  private async mapFill(f: OKXFill): Promise<RawTrade> {
+    return {
+      symbol: f.instId,
+      side: f.side,
+      price: parseFloat(f.fillPx || '0'),
+      quantity: await this.contractsToBase(f.instId, parseFloat(f.fillSz || '0')),
+      // OKX reports charged fees as negative amounts
+      fee: Math.abs(parseFloat(f.fee || '0')),
+      feeAsset: f.feeCcy,
+      timestamp: parseInt(f.ts, 10),
+      tradeId: f.tradeId,
+      orderId: f.ordId,
+      market: f.instType === 'SPOT' ? 'spot' : 'futures',
+    };
+  }
+
+  /**
+   * Fetch trading account balances
+   */
+  async fetchBalances(): Promise<RawBalance[]> {
+    const data = await this.authenticatedRequest('/api/v5/account/balance');
+    const details: OKXBalanceDetail[] = data[0]?.details || [];
+    const balances = details
+      .map((d) => this.mapBalance(d))
+      .filter((b) => b.free + b.locked > 0);
+    console.log(`[OKX] Fetched ${balances.length} balances`);
+    return balances;
+  }
+
+  /**
+   * Fetch last spot prices (public market endpoint), keyed by unified symbol
+   */
+  async fetchTickerPrices(): Promise<Record<string, number>> {
+    await rateLimiter.checkLimit('okx');
+    const response = await this.client.get<OKXResponse<{ instId: string; last: string }>>('/api/v5/market/tickers', {
+      params: { instType: 'SPOT' },
+    });
+    if (response.data.code !== '0') {
+      throw new OKXApiError(response.data.code, `OKX API error (${response.data.code}): ${response.data.msg}`);
+    }
+
+    const prices: Record<string, number> = {};
+    response.data.data.forEach((t) => {
+      const price = parseFloat(t.last);
+      if (price > 0) prices[OKXNormalizer.fromInstId(t.instId)] = price;
+    });
+    return prices;
+  }
+
+  /**
+   * Fetch the order book (public market endpoint; SWAP sizes converted from contracts to base)
+   */
+  async fetchOrderBook(symbol: string, market: 'spot' | 'futures', depth: number = 100): Promise<OrderBook> {
+    await rateLimiter.checkLimit('okx');
+    const instId = OKXNormalizer.toInstId(symbol, market);
+    const response = await this.client.get<OKXResponse<{ asks: string[][]; bids: string[][]; ts: string }>>(
+      '/api/v5/market/books',
+      { params: { instId, sz: Math.min(depth, 400) } }
+    );
+    if (response.data.code !== '0') {
+      throw new OKXApiError(response.data.code, `OKX API error (${response.data.code}): ${response.data.msg}`);
+    }
+
+    const book = response.data.data[0];
+    const toLevels = async (levels: string[][] = []) =>
+      Promise.all(
+        levels.map(async ([price, size]) => ({
+          price: parseFloat(price),
+          quantity: await this.contractsToBase(instId, parseFloat(size)),
+        }))
+      );
+    return {
+      symbol: OKXNormalizer.fromInstId(instId),
+      bids: await toLevels(book?.bids),
+      asks: await toLevels(book?.asks),
+      timestamp: parseInt(book?.ts, 10) || Date.now(),
+    };
+  }
+
+  /**
+   * Trading rules for a symbol from public/instruments (SWAP sizes converted from contracts to
+   * base; cached for config.markets.rulesTtlMs)
+   */
+  async fetchSymbolRules(symbol: string, market: 'spot' | 'futures'): Promise<SymbolRules | null> {
+    const instId = OKXNormalizer.toInstId(symbol, market);
+    const cached = this.symbolRules.get(instId);
+    if (cached && Date.now() - cached.fetchedAt <= config.markets.rulesTtlMs) return cached.rules;
+
+    await rateLimiter.checkLimit('okx');
+    const response = await this.client.get<OKXResponse<OKXInstrument>>('/api/v5/public/instruments', {
+      params: { instType: market === 'futures' ? 'SWAP' : 'SPOT', instId },
+    });
+    // 51001: instrument does not exist
+    if (response.data.code !== '0' && response.data.code !== '51001') {
+      throw new OKXApiError(response.data.code, `OKX API error (${response.data.code}): ${response.data.msg}`);
+    }
+
+    const instrument = (response.data.data || []).find((i) => i.instId === instId);
+    const rules = instrument ? this.mapSymbolRules(instrument, market) : null;
+    this.symbolRules.set(instId, { rules, fetchedAt: Date.now() });
+    return rules;
+  }
+
+  /**
+   * Every SPOT or SWAP instrument as a unified symbol
+   */
+  async fetchSymbols(market: 'spot' | 'futures'): Promise<string[]> {
+    await rateLimiter.checkLimit('okx');
+    const response = await this.client.get<OKXResponse<OKXInstrument>>('/api/v5/public/instruments', {
+      params: { instType: market === 'futures' ? 'SWAP' : 'SPOT' },
+    });
+    if (response.data.code !== '0') {
+      throw new OKXApiError(response.data.code, `OKX API error (${response.data.code}): ${response.data.msg}`);
+    }
+    return (response.data.data || []).map((i) => OKXNormalizer.fromInstId(i.instId));
+  }
+
+  private mapSymbolRules(instrument: OKXInstrument, market: 'spot' | 'futures'): SymbolRules {
+    const limit = (value: string | undefined) => (value && parseFloat(value) > 0 ? parseFloat(value) : undefined);
+    const [base, quote] = instrument.instId.split('-');
+    // SPOT sizes are base units; SWAP sizes are contracts of ctVal base units each
+    const contractValue = market === 'futures' ? parseFloat(instrument.ctVal) || 1 : 1;
+    const toBase = (value: string | undefined) => {
+      const size = limit(value);
+      return size !== undefined ? size * contractValue : undefined;
+    };
+    return {
+      exchange: 'okx',
+      symbol: OKXNormalizer.fromInstId(instrument.instId),
+      market,
+      baseAsset: instrument.baseCcy || base,
+      quoteAsset: instrument.quoteCcy || quote,
+      trading: instrument.state === 'live',
+      tickSize: limit(instrument.tickSz) || 0,
+      stepSize: toBase(instrument.lotSz) || 0,
+      minQuantity: toBase(instrument.minSz) || 0,
+      maxQuantity: toBase(instrument.maxLmtSz),
+      marketMaxQuantity: toBase(instrument.maxMktSz),
+      minNotionalAppliesToMarket: false,
+    };
+  }
+
+  /**
+   * Fetch open margin, swap and futures positions
+   */
+  async fetchPositions(): Promise<RawPosition[]> {
+    const data = await this.authenticatedRequest<OKXPosition>('/api/v5/account/positions');
+    const open = data.filter((p) => parseFloat(p.pos || '0') !== 0);
+    const positions = await Promise.all(open.map((p) => this.mapPosition(p)));
+    console.log(`[OKX] Fetched ${positions.length} positions`);
+    return positions;
+  }
+
+  /**
+   * Fetch all pending orders, following pagination
+   */
+  private async fetchPendingOrders(instId?: string): Promise<OKXOrder[]> {
+    const orders: OKXOrder[] = [];
+    let after: string | undefined;
+    do {
+      const page = await this.authenticatedRequest<OKXOrder>('/api/v5/trade/orders-pending', {
+        instId,
+        after,
+        limit: 100,
+      });
+      orders.push(...page);
+      after = page.length === 100 ? page[page.length - 1].ordId : undefined;
+    } while (after);
+    return orders;
+  }
+
+  /**
+   * Fetch open orders
+   */
+  async fetchOpenOrders(): Promise<RawOrder[]> {
+    const orders = await this.fetchPendingOrders();
+    return Promise.all(orders.map((o) => this.mapOrder(o)));
+  }
+
+  /**
+   * Fetch fills for an instrument type, paging backwards by billId
+   */
+  private async fetchFills(
+    instType: OKXInstType,
+    startTime: number,
+    endTime: number,
+    instId?: string
+  ): Promise<RawTrade[]> {
+    const fills: OKXFill[] = [];
+    let after: string | undefined;
+    do {
+      const page = await this.authenticatedRequest<OKXFill>('/api/v5/trade/fills-history', {
+        instType,
+        instId,
+        begin: startTime,
+        end: endTime,
+        after,
+        limit: 100,
+      });
+      fills.push(...page);
+      after = page.length === 100 ? page[page.length - 1].billId : undefined;
+    } while (after);
+    return Promise.all(fills.map((f) => this.mapFill(f)));
+  }
+
+  /**
+   * Fetch trade history (spot, margin and swap fills)
+   */
+  async fetchTradeHistory(startTime: number, endTime: number): Promise<RawTrade[]> {
+    try {
+      const results = await Promise.all(
+        TRADE_INST_TYPES.map((instType) => this.fetchFills(instType, startTime, endTime))
+      );
+      return results.flat();
+    } catch (error: any) {
+      throw new Error(`OKX fetchTradeHistory failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Fetch all fills for a symbol in a time range (fills-history covers the last 3 months)
+   */
+  async fetchTradesInRange(
+    symbol: string,
+    market: 'spot' | 'futures',
+    startTime: number,
+    endTime: number
+  ): Promise<RawTrade[]> {
+    return this.fetchFills(
+      market === 'futures' ? 'SWAP' : 'SPOT',
+      startTime,
+      endTime,
+      OKXNormalizer.toInstId(symbol, market)
+    );
+  }
+
+  /**
+   * Fetch all fills of a market in a time range (fills-history without an instId)
+   */
+  async fetchAccountTradesInRange(market: 'spot' | 'futures', startTime: number, endTime: number): Promise<RawTrade[]> {
+    return this.fetchFills(market === 'futures' ? 'SWAP' : 'SPOT', startTime, endTime);
+  }
+
+  /**
+   * Fetch order history for a symbol (Spot/Futures)
+   */
+  async fetchOrderHistory(symbol: string, market: 'spot' | 'futures', limit: number = 50): Promise<RawOrder[]> {
+    const instId = OKXNormalizer.toInstId(symbol, market);
+    const data = await this.authenticatedRequest<OKXOrder>('/api/v5/trade/orders-history', {
+      instType: market === 'futures' ? 'SWAP' : 'SPOT',
+      instId,
+      limit: Math.min(limit, 100),
+    });
+    return Promise.all(data.map((o) => this.mapOrder(o)));
+  }
+
+  /**
+   * Fetch trade history for a symbol (Spot/Futures)
+   */
+  async fetchTradesBySymbol(symbol: string, market: 'spot' | 'futures', limit: number = 50): Promise<RawTrade[]> {
+    const instId = OKXNormalizer.toInstId(symbol, market);
+    const data = await this.authenticatedRequest<OKXFill>('/api/v5/trade/fills-history', {
+      instType: market === 'futures' ? 'SWAP' : 'SPOT',
+      instId,
+      limit: Math.min(limit, 100),
+    });
+    return Promise.all(data.map((f) => this.mapFill(f)));
+  }
+
+  /**
+   * Fetch trading account assets for margin/swap (equity, upl, available)
+   */
+  async fetchFuturesAssets(): Promise<AccountAsset[]> {
+    const data = await this.authenticatedRequest('/api/v5/account/balance');
+    const details: any[] = data[0]?.details || [];
+    return details.map((d) => ({
+      asset: d.ccy,
+      walletBalance: parseFloat(d.cashBal || '0'),
+      unrealizedPnl: parseFloat(d.upl || '0'),
+      marginBalance: parseFloat(d.eq || '0'),
+      availableBalance: parseFloat(d.availEq || d.availBal || '0'),
+    }));
+  }
+
+  /**
+   * Fetch spot assets (wallet/available)
+   */
+  async fetchSpotAssets(): Promise<AccountAsset[]> {
+    const balances = await this.fetchBalances();
+    return balances.map((b) => ({
+      asset: b.asset,
+      walletBalance: b.free + b.locked,
+      unrealizedPnl: 0,
+      marginBalance: b.free + b.locked,
+      availableBalance: b.free,
+    }));
+  }
+
+  /**
+   * Fetch current funding rates for SWAP instruments (OKX serves one instrument per request)
+   */
+  async fetchFundingRates(symbols?: string[]): Promise<Record<string, number>> {
+    // Without an explicit list, use the symbols of open positions
+    const targets = symbols && symbols.length > 0
+      ? symbols.map((s) => OKXNormalizer.toInstId(s.replace('/', '').toUpperCase(), 'futures'))
+      : (await this.fetchPositions()).map((p) => p.symbol).filter((instId) => instId.endsWith('-SWAP'));
+
+    const rates: Record<string, number> = {};
+    for (const instId of Array.from(new Set(targets))) {
+      await rateLimiter.checkLimit('okx');
+      const response = await this.client.get<OKXResponse<{ instId: string; fundingRate: string }>>(
+        '/api/v5/public/funding-rate',
+        { params: { instId } }
+      );
+      if (response.data.code !== '0') {
+        throw new OKXApiError(response.data.code, `OKX API error (${response.data.code}): ${response.data.msg}`);
+      }
+      response.data.data.forEach((r) => {
+        rates[OKXNormalizer.fromInstId(r.instId)] = parseFloat(r.fundingRate || '0');
+      });
+    }
+    return rates;
+  }
+
+  /**
+   * Fetch account bills (funding, fees, PnL) as transactions
+   */
+  async fetchFuturesIncome(limit: number = 20): Promise<IncomeRecord[]> {
+    const data = await this.authenticatedRequest('/api/v5/account/bills', {
+      instType: 'SWAP',
+      limit: Math.min(limit, 100),
+    });
+    return data.map((b: any) => ({
+      time: parseInt(b.ts, 10),
+      exchange: this.exchangeName,
+      type: b.subType || b.type,
+      asset: b.ccy,
+      amount: parseFloat(b.balChg || '0'),
+      status: 'Completed',
+      symbol: b.instId ? OKXNormalizer.fromInstId(b.instId) : undefined,
+      txid: b.billId,
+    }));
+  }
+
+  // ==================== Private WebSocket Stream ====================
+
+  /**
+   * Subscribe to real-time updates via WebSocket
+   */
+  async subscribeRealtimeUpdates(callback: RealtimeCallback): Promise<void> {
+    this.realtimeCallbacks.push(callback);
+
+    if (!this.privateStream) {
+      try {
+        this.setupPrivateStream();
+      } catch (error: any) {
+        console.warn('[OKX] Failed to setup private stream for real-time updates:', error.message);
+      }
+    }
+  }
+
+  /**
+   * Setup private WebSocket stream (login, subscribe, heartbeat)
+   */
+  private setupPrivateStream(): void {
+    const wsUrl = this.credentials.sandbox
+      ? 'wss://wspap.okx.com:8443/ws/v5/private'
+      : 'wss://ws.okx.com:8443/ws/v5/private';
+
+    const ws = new WebSocket(wsUrl);
+
+    ws.on('open', () => {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      ws.send(
+        JSON.stringify({
+          op: 'login',
+          args: [
+            {
+              apiKey: this.credentials.apiKey,
+              passphrase: this.credentials.passphrase,
+              timestamp,
+              sign: this.generateSignature(timestamp, 'GET', '/users/self/verify', ''),
+            },
+          ],
+        })
+      );
+
+      // OKX closes connections idle for 30s
+      this.pingInterval = setInterval(() => {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send('ping');
+        }
+      }, 25000);
+    });
+
+    ws.on('message', (data: WebSocket.Data) => {
+      const text = data.toString();
+      if (text === 'pong') return;
+      try {
+        const message = JSON.parse(text);
+        if (message.event === 'login') {
+          if (message.code === '0') {
+            console.log('[OKX] Private stream logged in');
+            this.health.recordSuccess('websocket');
+            ws.send(
+              JSON.stringify({
+                op: 'subscribe',
+                args: [
+                  { channel: 'account' },
+                  { channel: 'positions', instType: 'ANY' },
+                  { channel: 'orders', instType: 'ANY' },
+                ],
+              })
+            );
+          }
+          return;
+        }
+        if (message.event === 'error') {
+          console.error(`[OKX] Private stream error (${message.code}): ${message.msg}`);
+          this.health.recordFailure('websocket', `${message.code}: ${message.msg}`);
+          return;
+        }
+        this.handleWebSocketMessage(message).catch((error) => {
+          console.error('[OKX] Failed to handle stream message:', error);
+        });
+      } catch (error) {
+        console.error('[OKX] WebSocket message parse error:', error);
+      }
+    });
+
+    ws.on('error', (error) => {
+      console.error('[OKX] WebSocket error:', error);
+    });
+
+    ws.on('close', () => {
+      if (this.pingInterval) {
+        clearInterval(this.pingInterval);
+        this.pingInterval = null;
+      }
+      if (this.privateStream !== ws) {
+        return; // Closed intentionally via unsubscribeRealtimeUpdates
+      }
+      this.privateStream = null;
+      this.health.recordFailure('websocket', 'connection closed');
+      const delay = this.health.reconnectDelay();
+      console.log(`[OKX] WebSocket closed, reconnecting in ${Math.round(delay / 1000)}s...`);
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        if (this.realtimeCallbacks.length > 0) {
+          this.setupPrivateStream();
+        }
+      }, delay);
+    });
+
+    this.privateStream = ws;
+  }
+
+  /**
+   * Normalize private channel pushes into RealtimeUpdates
+   */
+  private async handleWebSocketMessage(message: any): Promise<void> {
+    const channel = message.arg?.channel;
+    if (!channel || !Array.isArray(message.data)) {
+      return;
+    }
+
+    const updates: RealtimeUpdate[] = [];
+
+    if (channel === 'account') {
+      message.data.forEach((account: any) => {
+        (account.details || []).forEach((d: OKXBalanceDetail) => {
+          const raw = this.mapBalance(d);
+          updates.push({
+            type: 'balance',
+            data: this.normalizer.normalizeBalance(raw, this.exchangeName, raw.usdPrice || 0),
+          });
+        });
+      });
+    } else if (channel === 'positions') {
+      for (const p of message.data as OKXPosition[]) {
+        updates.push({
+          type: 'position',
+          data: this.normalizer.normalizePosition(await this.mapPosition(p), this.exchangeName),
+        });
+      }
+    } else if (channel === 'orders') {
+      for (const o of message.data as OKXOrder[]) {
+        updates.push({
+          type: 'order',
+          data: this.normalizer.normalizeOrder(await this.mapOrder(o), this.exchangeName),
+        });
+        if (o.tradeId && parseFloat(o.fillSz || '0') > 0) {
+          const fill = await this.mapFill({
+            instId: o.instId,
+            instType: o.instType,
+            tradeId: o.tradeId,
+            ordId: o.ordId,
+            billId: '',
+            side: o.side,
+            fillPx: o.fillPx || '0',
+            fillSz: o.fillSz || '0',
+            fee: o.fillFee || '0',
+            feeCcy: o.fillFeeCcy || '',
+            ts: o.fillTime || o.uTime,
+          });
+          updates.push({
+            type: 'trade',
+            data: this.normalizer.normalizeTrade(fill, this.exchangeName),
+          });
+        }
+      }
+    }
+
+    updates.forEach((update) => {
+      this.realtimeCallbacks.forEach((callback) => callback(update));
+    });
+  }
+
+  /**
+   * Unsubscribe from real-time updates
+   */
+  async unsubscribeRealtimeUpdates(): Promise<void> {
+    this.realtimeCallbacks = [];
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const ws = this.privateStream;
+    this.privateStream = null;
+    ws?.close();
+  }
+
+  /**
+   * Test connection to exchange
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.authenticatedRequest('/api/v5/account/config');
+      console.log('[OKX] Connection test successful');
+      return true;
+    } catch (error: any) {
+      const statusCode = error.response?.status;
+      const code = error instanceof OKXApiError ? error.code : error.response?.data?.code;
+
+      console.error('[OKX] Connection test failed:', {
+        statusCode,
+        code,
+        errorMsg: error.response?.data?.msg || error.message,
+        sandbox: this.credentials.sandbox,
+      });
+
+      if (code === '50105') {
+        throw new Error('OKX API passphrase incorrect (50105). Please check your passphrase.');
+      }
+      if (statusCode === 401 || code === '50111' || code === '50113') {
+        throw new Error(
+          `OKX API authentication failed (401). Please check your API key and secret. Sandbox mode: ${this.credentials.sandbox}`
+        );
+      }
+      throw new Error(`OKX connection test failed: ${error.response?.data?.msg || error.message}`);
+    }
+  }
+
+  // ==================== TradingConnector Implementation ====================
+
+  /**
+   * Place a new order
+   */
+  async placeOrder(params: OrderParams): Promise<OrderResult> {
+    const isFutures = params.market === 'futures';
+    const instId = OKXNormalizer.toInstId(params.symbol, isFutures ? 'futures' : 'spot');
+    let tdMode: string = 'cash';
+    // Long/short mode: opening buys are long, opening sells short; closing orders use the opposite side
+    let posSide: 'long' | 'short' | undefined;
+
+    try {
+      if (isFutures) {
+        tdMode = await this.resolveMarginMode(instId, params.marginMode);
+        if ((await this.getPositionMode()) === 'long_short_mode') {
+          const opensLong = params.side === 'buy';
+          posSide = opensLong !== !!params.reduceOnly ? 'long' : 'short';
+        }
+      }
+
+      if (isFutures && params.leverage) {
+        try {
+          await this.authenticatedRequest(
+            '/api/v5/account/set-leverage',
+            {
+              instId,
+              lever: String(params.leverage),
+              mgnMode: tdMode,
+              // Isolated leverage is set per side in long/short mode; cross applies to both
+              posSide: tdMode === 'isolated' ? posSide : undefined,
+            },
+            'POST'
+          );
+        } catch (levError: any) {
+          throw new Error(`OKX leverage set failed: ${levError.message}`);
+        }
+      }
+
+      let ordType: string = params.type;
+      if (params.type === 'limit') {
+        if (!params.price) {
+          throw new Error('Price is required for limit orders');
+        }
+        if (params.postOnly) {
+          ordType = 'post_only';
+        } else if (params.timeInForce === 'IOC') {
+          ordType = 'ioc';
+        } else if (params.timeInForce === 'FOK') {
+          ordType = 'fok';
+        }
+      }
+
+      const orderParams: Record<string, any> = {
+        instId,
+        tdMode,
+        side: params.side,
+        ordType,
+        sz: String(await this.baseToContracts(instId, params.quantity)),
+      };
+      if (params.type === 'limit') {
+        orderParams.px = params.price!.toString();
+      } else if (!isFutures) {
+        // Spot market buys default to quote size; keep base quantity semantics
+        orderParams.tgtCcy = 'base_ccy';
+      }
+      if (posSide) {
+        orderParams.posSide = posSide;
+      } else if (params.reduceOnly && isFutures) {
+        // Long/short mode closes through posSide; reduceOnly is net mode only
+        orderParams.reduceOnly = true;
+      }
+
+      console.log('[OKX] Placing order:', orderParams);
+      const data = await this.authenticatedRequest('/api/v5/trade/order', orderParams, 'POST');
+      const placed = data[0];
+      console.log('[OKX] Order placed successfully:', { orderId: placed.ordId });
+
+      return {
+        orderId: placed.ordId,
+        symbol: params.symbol,
+        side: params.side,
+        type: params.type,
+        status: 'NEW',
+        price: params.price || 0,
+        quantity: params.quantity,
+        filledQuantity: 0,
+        remainingQuantity: params.quantity,
+        timestamp: parseInt(placed.ts, 10) || Date.now(),
+        exchange: this.exchangeName,
+        clientOrderId: placed.clOrdId || undefined,
+      };
+    } catch (error: any) {
+      console.error('[OKX] placeOrder failed:', {
+        code: error instanceof OKXApiError ? error.code : undefined,
+        errorMsg: error.message,
+        instId,
+        side: params.side,
+        type: params.type,
+      });
+      throw new Error(`OKX placeOrder failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Candidate instIds for a symbol (explicit instId, else spot then swap)
+   */
+  private candidateInstIds(symbol: string): string[] {
+    if (symbol.includes('-')) return [symbol];
+    return [OKXNormalizer.toInstId(symbol, 'spot'), OKXNormalizer.toInstId(symbol, 'futures')];
+  }
+
+  /**
+   * Cancel an order
+   */
+  async cancelOrder(orderId: string, symbol: string): Promise<void> {
+    let lastError: any;
+    for (const instId of this.candidateInstIds(symbol)) {
+      try {
+        await this.authenticatedRequest('/api/v5/trade/cancel-order', { instId, ordId: orderId }, 'POST');
+        return;
+      } catch (error: any) {
+        lastError = error;
+        if (!(error instanceof OKXApiError && error.code === ORDER_NOT_FOUND_CODE)) break;
+      }
+    }
+    throw new Error(`OKX cancelOrder failed: ${lastError.message}`);
+  }
+
+  /**
+   * Cancel all open orders (OKX has no cancel-all; batch cancel pending orders)
+   */
+  async cancelAllOrders(symbol?: string): Promise<void> {
+    try {
+      const instIds = symbol ? this.candidateInstIds(symbol) : [undefined];
+      const pending: OKXOrder[] = [];
+      for (const instId of instIds) {
+        pending.push(...(await this.fetchPendingOrders(instId)));
+      }
+
+      // Batch endpoint accepts at most 20 orders per request
+      for (let i = 0; i < pending.length; i += 20) {
+        const batch = pending.slice(i, i + 20).map((o) => ({ instId: o.instId, ordId: o.ordId }));
+        await this.authenticatedRequest('/api/v5/trade/cancel-batch-orders', batch, 'POST');
+      }
+    } catch (error: any) {
+      throw new Error(`OKX cancelAllOrders failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get order status
+   */
+  async getOrderStatus(orderId: string, symbol: string): Promise<OrderResult> {
+    let lastError: any;
+    for (const instId of this.candidateInstIds(symbol)) {
+      try {
+        const data = await this.authenticatedRequest<OKXOrder>('/api/v5/trade/order', { instId, ordId: orderId });
+        if (data[0]) {
+          return this.mapOrderResult(data[0]);
+        }
+      } catch (error: any) {
+        lastError = error;
+        if (!(error instanceof OKXApiError && error.code === ORDER_NOT_FOUND_CODE)) break;
+      }
+    }
+    throw new Error(`OKX getOrderStatus failed: ${lastError?.message || `Order ${orderId} not found`}`);
+  }
+
+  /**
+   * Get open orders
+   */
+  async getOpenOrders(symbol?: string): Promise<OrderResult[]> {
+    try {
+      const instIds = symbol ? this.candidateInstIds(symbol) : [undefined];
+      const orders: OrderResult[] = [];
+      for (const instId of instIds) {
+        const pending = await this.fetchPendingOrders(instId);
+        orders.push(...(await Promise.all(pending.map((o) => this.mapOrderResult(o)))));
+      }
+      return orders;
+    } catch (error: any) {
+      throw new Error(`OKX getOpenOrders failed: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Connector Registry
+ * Each exchange declares its constructor, normalizer, rate-limit profile and capabilities
+ */
+
+import {
+  ExchangeConnector,
+  TradingConnector,
+  ExchangeCredentials,
+  ConnectorCapabilities,
+  CapabilityApi,
+} from '../types';
+import { Normalizer, BaseNormalizer, BinanceNormalizer, BybitNormalizer, OKXNormalizer } from '../normalizer';
+import { rateLimiter } from '../security/rateLimiter';
+import { config } from '../config';
+import { BinanceConnector } from './binance';
+import { BybitConnector } from './bybit';
+import { OKXConnector } from './okx';
+import { MockExchangeConnector } from './mock';
+
+export type RegisteredConnector = ExchangeConnector & TradingConnector;
+
+export interface RateLimitProfile {
+  maxRequests: number;
+  windowMs: number;
+}
+
+export interface ConnectorDefinition {
+  exchange: string;
+  create(credentials: ExchangeCredentials): RegisteredConnector;
+  createNormalizer(): Normalizer;
+  rateLimit: RateLimitProfile;
+  capabilities: ConnectorCapabilities;
+  requiresPassphrase?: boolean;
+  requiresCredentials?: boolean; // Defaults to true; false for simulated exchanges
+}
+
+export class ConnectorRegistry {
+  private definitions: Map<string, ConnectorDefinition> = new Map();
+
+  /**
+   * Register an exchange definition
+   */
+  register(definition: ConnectorDefinition): void {
+    this.definitions.set(definition.exchange.toLowerCase(), definition);
+  }
+
+  /**
+   * Get an exchange definition
+   */
+  get(exchange: string): ConnectorDefinition | undefined {
+    return this.definitions.get(exchange.toLowerCase());
+  }
+
+  /**
+   * Check if an exchange is registered
+   */
+  has(exchange: string): boolean {
+    return this.definitions.has(exchange.toLowerCase());
+  }
+
+  /**
+   * Get registered exchange names
+   */
+  getExchanges(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /**
+   * Create a connector and apply its rate-limit profile
+   */
+  create(credentials: ExchangeCredentials): RegisteredConnector {
+    const definition = this.get(credentials.exchange);
+    if (!definition) {
+      throw new Error(`Unsupported exchange: ${credentials.exchange}`);
+    }
+    if (definition.requiresPassphrase && !credentials.passphrase) {
+      throw new Error(`${definition.exchange} requires an API passphrase`);
+    }
+
+    rateLimiter.setLimit(definition.exchange, definition.rateLimit.maxRequests, definition.rateLimit.windowMs);
+    return definition.create(credentials);
+  }
+
+  /**
+   * Create the normalizer for an exchange (falls back to BaseNormalizer)
+   */
+  createNormalizer(exchange: string): Normalizer {
+    return this.get(exchange)?.createNormalizer() || new BaseNormalizer();
+  }
+
+  /**
+   * Check whether an exchange declares a capability
+   */
+  supports(exchange: string, capability: keyof ConnectorCapabilities): boolean {
+    return this.get(exchange)?.capabilities[capability] === true;
+  }
+
+  /**
+   * Narrow a connector to a declared capability's API (undefined if not declared)
+   */
+  withCapability<C extends keyof ConnectorCapabilities>(
+    connector: ExchangeConnector | undefined,
+    capability: C
+  ): (RegisteredConnector & CapabilityApi[C]) | undefined {
+    if (!connector || !this.supports(connector.exchangeName, capability)) {
+      return undefined;
+    }
+    return connector as RegisteredConnector & CapabilityApi[C];
+  }
+}
+
+export const connectorRegistry = new ConnectorRegistry();
+
+connectorRegistry.register({
+  exchange: 'binance',
+  create: (credentials) => new BinanceConnector(credentials),
+  createNormalizer: () => new BinanceNormalizer(),
+  rateLimit: { maxRequests: config.rateLimits.binance, windowMs: 60000 },
+  capabilities: { spot: true, futures: true, userStream: true, income: true, listenKey: true, funding: true, symbolRules: true, accountTrades: false },
+});
+
+connectorRegistry.register({
+  exchange: 'bybit',
+  create: (credentials) => new BybitConnector(credentials),
+  createNormalizer: () => new BybitNormalizer(),
+  rateLimit: { maxRequests: config.rateLimits.bybit, windowMs: 60000 },
+  capabilities: { spot: true, futures: true, userStream: true, income: true, listenKey: false, funding: true, symbolRules: true, accountTrades: true },
+});
+
+connectorRegistry.register({
+  exchange: 'okx',
+  create: (credentials) => new OKXConnector(credentials),
+  createNormalizer: () => new OKXNormalizer(),
+  rateLimit: { maxRequests: config.rateLimits.okx, windowMs: 60000 },
+  capabilities: { spot: true, futures: true, userStream: true, income: true, listenKey: false, funding: true, symbolRules: true, accountTrades: true },
+  requiresPassphrase: true,
+});
+
+// Simulated exchange for offline development (MOCK_EXCHANGE_ENABLED=true)
+if (config.mock.enabled) {
+  connectorRegistry.register({
+    exchange: 'mock',
+    create: (credentials) => new MockExchangeConnector(credentials),
+    createNormalizer: () => new BaseNormalizer(),
+    rateLimit: { maxRequests: 6000, windowMs: 60000 },
+    capabilities: { spot: true, futures: true, userStream: true, income: false, listenKey: false, funding: false, symbolRules: false, accountTrades: true },
+    requiresCredentials: false,
+  });
+}
@@ -0,0 +1,77 @@
+/**
+ * Alert rules persistence (per-user rule definitions)
+ */
+
+import { Pool } from 'pg';
+import { config } from '../config';
+import { AlertRule } from '../types';
+
+const pool = new Pool({
+  host: config.database.host,
+  port: config.database.port,
+  database: config.database.database,
+  user: config.database.user,
+  password: String(config.database.password || 'postgres'),
+});
+
+function mapRow(row: any): AlertRule {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    type: row.type,
+    params: row.params,
+    severity: row.severity,
+    cooldownMs: Number(row.cooldown_ms),
+    enabled: row.enabled,
+    lastTriggeredAt: row.last_triggered_at ? Number(row.last_triggered_at) : undefined,
+    createdAt: row.created_at instanceof Date ? row.created_at.getTime() : new Date(row.created_at).getTime(),
+  };
+}
+
+/**
+ * Load all rules for a user
+ */
+export async function getRulesByUserId(userId: number): Promise<AlertRule[]> {
+  const result = await pool.query(
+    `SELECT * FROM alert_rules WHERE user_id = $1 ORDER BY id`,
+    [userId]
+  );
+  return result.rows.map(mapRow);
+}
+
+/**
+ * Create a rule for a user
+ */
+export async function createRule(
+  userId: number,
+  rule: Pick<AlertRule, 'type' | 'params' | 'severity' | 'cooldownMs' | 'enabled'>
+): Promise<AlertRule> {
+  const result = await pool.query(
+    `INSERT INTO alert_rules (user_id, type, params, severity, cooldown_ms, enabled)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [userId, rule.type, JSON.stringify(rule.params), rule.severity, rule.cooldownMs, rule.enabled]
+  );
+  return mapRow(result.rows[0]);
+}
+
+/**
+ * Delete a user's rule (returns false if it doesn't exist)
+ */
+export async function deleteRule(userId: number, ruleId: number): Promise<boolean> {
+  const result = await pool.query(
+    `DELETE FROM alert_rules WHERE user_id = $1 AND id = $2`,
+    [userId, ruleId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Record when a rule last fired (cooldown survives restarts)
+ */
+export async function markRuleTriggered(ruleId: number, triggeredAt: number): Promise<void> {
+  await pool.query(
+    `UPDATE alert_rules SET last_triggered_at = $1 WHERE id = $2`,
+    [triggeredAt, ruleId]
+  );
+}
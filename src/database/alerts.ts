@@ -0,0 +1,117 @@
+/**
+ * Alert history persistence (per-user alerts with acknowledged/resolved state)
+ */
+
+import { Pool } from 'pg';
+import { config } from '../config';
+import { AlertEvent, AlertQuery } from '../types';
+
+const pool = new Pool({
+  host: config.database.host,
+  port: config.database.port,
+  database: config.database.database,
+  user: config.database.user,
+  password: String(config.database.password || 'postgres'),
+});
+
+function mapRow(row: any): AlertEvent {
+  return {
+    id: Number(row.id),
+    userId: row.user_id,
+    type: row.type,
+    severity: row.severity,
+    message: row.message,
+    exchange: row.exchange || undefined,
+    data: row.data || undefined,
+    timestamp: Number(row.timestamp),
+    acknowledgedAt: row.acknowledged_at ? Number(row.acknowledged_at) : undefined,
+    resolvedAt: row.resolved_at ? Number(row.resolved_at) : undefined,
+  };
+}
+
+/**
+ * Store an alert for its owning user (returns the alert with its id)
+ */
+export async function storeAlert(alert: AlertEvent & { userId: number }): Promise<AlertEvent> {
+  const result = await pool.query(
+    `INSERT INTO alerts (user_id, type, severity, message, exchange, data, timestamp)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING id`,
+    [
+      alert.userId,
+      alert.type,
+      alert.severity,
+      alert.message,
+      alert.exchange ?? null,
+      alert.data !== undefined ? JSON.stringify(alert.data) : null,
+      alert.timestamp,
+    ]
+  );
+  return { ...alert, id: Number(result.rows[0].id) };
+}
+
+/**
+ * Query a user's alerts (newest first)
+ */
+export async function getAlerts(userId: number, query: AlertQuery = {}): Promise<AlertEvent[]> {
+  let sql = 'SELECT * FROM alerts WHERE user_id = $1';
+  const params: any[] = [userId];
+  let paramIndex = 2;
+
+  if (query.severity) {
+    sql += ` AND severity = $${paramIndex++}`;
+    params.push(query.severity);
+  }
+  if (query.type) {
+    sql += ` AND type = $${paramIndex++}`;
+    params.push(query.type);
+  }
+  if (query.exchange) {
+    sql += ` AND exchange = $${paramIndex++}`;
+    params.push(query.exchange);
+  }
+  if (query.from !== undefined) {
+    sql += ` AND timestamp >= $${paramIndex++}`;
+    params.push(query.from);
+  }
+  if (query.to !== undefined) {
+    sql += ` AND timestamp <= $${paramIndex++}`;
+    params.push(query.to);
+  }
+  if (query.acknowledged !== undefined) {
+    sql += query.acknowledged ? ' AND acknowledged_at IS NOT NULL' : ' AND acknowledged_at IS NULL';
+  }
+
+  sql += ` ORDER BY timestamp DESC LIMIT $${paramIndex++}`;
+  params.push(query.limit || 100);
+
+  const result = await pool.query(sql, params);
+  return result.rows.map(mapRow);
+}
+
+/**
+ * Acknowledge a user's alert (null if it doesn't exist)
+ */
+export async function acknowledgeAlert(userId: number, alertId: number): Promise<AlertEvent | null> {
+  const result = await pool.query(
+    `UPDATE alerts SET acknowledged_at = COALESCE(acknowledged_at, $3)
+     WHERE user_id = $1 AND id = $2
+     RETURNING *`,
+    [userId, alertId, Date.now()]
+  );
+  return result.rows.length > 0 ? mapRow(result.rows[0]) : null;
+}
+
+/**
+ * Mark a user's alert resolved (also acknowledges it; null if it doesn't exist)
+ */
+export async function resolveAlert(userId: number, alertId: number): Promise<AlertEvent | null> {
+  const now = Date.now();
+  const result = await pool.query(
+    `UPDATE alerts SET resolved_at = COALESCE(resolved_at, $3), acknowledged_at = COALESCE(acknowledged_at, $3)
+     WHERE user_id = $1 AND id = $2
+     RETURNING *`,
+    [userId, alertId, now]
+  );
+  return result.rows.length > 0 ? mapRow(result.rows[0]) : null;
+}
@@ -0,0 +1,135 @@
+/**
+ * Backfill job persistence (progress cursor is checkpointed after every window)
+ */
+
+import { Pool } from 'pg';
+import { config } from '../config';
+import { BackfillJob, BackfillStatus, BackfillTarget, BackfillCursor } from '../types';
+
+const pool = new Pool({
+  host: config.database.host,
+  port: config.database.port,
+  database: config.database.database,
+  user: config.database.user,
+  password: String(config.database.password || 'postgres'),
+});
+
+function toMillis(value: any): number {
+  return value instanceof Date ? value.getTime() : new Date(value).getTime();
+}
+
+function mapJob(row: any): BackfillJob {
+  const targets: BackfillTarget[] = row.targets || [];
+  const cursor: BackfillCursor = row.cursor || { targetIndex: 0, windowStart: Number(row.start_time) };
+  const startTime = Number(row.start_time);
+  const endTime = Number(row.end_time);
+
+  let progress = 1;
+  if (row.status !== 'completed' && targets.length > 0) {
+    const span = Math.max(endTime - startTime, 1);
+    const withinTarget = Math.min(Math.max((cursor.windowStart - startTime) / span, 0), 1);
+    progress = Math.min((cursor.targetIndex + withinTarget) / targets.length, 1);
+  }
+
+  return {
+    id: row.id,
+    userId: row.user_id,
+    exchange: row.exchange,
+    status: row.status,
+    targets,
+    startTime,
+    endTime,
+    cursor,
+    tradesImported: row.trades_imported,
+    progress,
+    skipped: row.skipped || [],
+    error: row.error || undefined,
+    createdAt: toMillis(row.created_at),
+    updatedAt: toMillis(row.updated_at),
+  };
+}
+
+/**
+ * Create a pending backfill job
+ */
+export async function createJob(
+  userId: number,
+  exchange: string,
+  targets: BackfillTarget[],
+  startTime: number,
+  endTime: number
+): Promise<BackfillJob> {
+  const result = await pool.query(
+    `INSERT INTO backfill_jobs (user_id, exchange, status, targets, start_time, end_time, cursor)
+     VALUES ($1, $2, 'pending', $3, $4, $5, $6)
+     RETURNING *`,
+    [userId, exchange, JSON.stringify(targets), startTime, endTime, JSON.stringify({ targetIndex: 0, windowStart: startTime })]
+  );
+  return mapJob(result.rows[0]);
+}
+
+/**
+ * Get a user's backfill job (null if it doesn't exist or belongs to another user)
+ */
+export async function getJob(userId: number, jobId: number): Promise<BackfillJob | null> {
+  const result = await pool.query(
+    `SELECT * FROM backfill_jobs WHERE id = $1 AND user_id = $2`,
+    [jobId, userId]
+  );
+  return result.rows.length > 0 ? mapJob(result.rows[0]) : null;
+}
+
+/**
+ * Get a user's backfill jobs (newest first)
+ */
+export async function getJobsByUserId(userId: number, limit: number = 50): Promise<BackfillJob[]> {
+  const result = await pool.query(
+    `SELECT * FROM backfill_jobs WHERE user_id = $1 ORDER BY id DESC LIMIT $2`,
+    [userId, limit]
+  );
+  return result.rows.map(mapJob);
+}
+
+/**
+ * Checkpoint a job's progress
+ */
+export async function updateJob(
+  jobId: number,
+  update: {
+    status?: BackfillStatus;
+    cursor?: BackfillCursor;
+    tradesImported?: number;
+    skipped?: BackfillJob['skipped'];
+    error?: string | null;
+  }
+): Promise<void> {
+  await pool.query(
+    `UPDATE backfill_jobs SET
+       status = COALESCE($2, status),
+       cursor = COALESCE($3, cursor),
+       trades_imported = COALESCE($4, trades_imported),
+       skipped = COALESCE($5, skipped),
+       error = CASE WHEN $6::boolean THEN $7 ELSE error END,
+       updated_at = NOW()
+     WHERE id = $1`,
+    [
+      jobId,
+      update.status ?? null,
+      update.cursor ? JSON.stringify(update.cursor) : null,
+      update.tradesImported ?? null,
+      update.skipped ? JSON.stringify(update.skipped) : null,
+      update.error !== undefined,
+      update.error ?? null,
+    ]
+  );
+}
+
+/**
+ * Jobs that were pending or running when the server stopped
+ */
+export async function getResumableJobs(): Promise<BackfillJob[]> {
+  const result = await pool.query(
+    `SELECT * FROM backfill_jobs WHERE status IN ('pending', 'running') ORDER BY id`
+  );
+  return result.rows.map(mapJob);
+}
@@ -75,3 +75,11 @@ export async function removeCredentials(userId: number, exchange: string): Promi
     [userId, exchange.toLowerCase()]
   );
 }
+
+/**
+ * List users that have at least one registered exchange
+ */
+export async function getUserIdsWithExchanges(): Promise<number[]> {
+  const result = await pool.query(`SELECT DISTINCT user_id FROM exchange_accounts ORDER BY user_id`);
+  return result.rows.map((row: any) => row.user_id);
+}
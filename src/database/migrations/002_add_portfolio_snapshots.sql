@@ -0,0 +1,13 @@
+-- Migration: Add portfolio_snapshots (equity time series per user)
+
+CREATE TABLE IF NOT EXISTS portfolio_snapshots (
+  id BIGSERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  timestamp BIGINT NOT NULL,
+  total_net_equity DECIMAL(24, 8) NOT NULL,
+  total_unrealized_pnl DECIMAL(24, 8) NOT NULL DEFAULT 0,
+  asset_allocation JSONB,
+  exchange_allocation JSONB,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_portfolio_snapshots_user_time ON portfolio_snapshots(user_id, timestamp);
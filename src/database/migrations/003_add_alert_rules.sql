@@ -0,0 +1,14 @@
+-- Migration: Add alert_rules (user-defined alert rules)
+
+CREATE TABLE IF NOT EXISTS alert_rules (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(50) NOT NULL,
+  params JSONB NOT NULL,
+  severity VARCHAR(20) NOT NULL DEFAULT 'warning',
+  cooldown_ms BIGINT NOT NULL DEFAULT 3600000,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  last_triggered_at BIGINT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_alert_rules_user_id ON alert_rules(user_id);
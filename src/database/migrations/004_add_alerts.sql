@@ -0,0 +1,16 @@
+-- Migration: Add alerts (alert history with acknowledged/resolved state)
+
+CREATE TABLE IF NOT EXISTS alerts (
+  id BIGSERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(50) NOT NULL,
+  severity VARCHAR(20) NOT NULL,
+  message TEXT NOT NULL,
+  exchange VARCHAR(50),
+  data JSONB,
+  timestamp BIGINT NOT NULL,
+  acknowledged_at BIGINT,
+  resolved_at BIGINT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_alerts_user_time ON alerts(user_id, timestamp);
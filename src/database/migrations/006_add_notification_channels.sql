@@ -0,0 +1,12 @@
+-- Migration: Add notification_channels (per-user email notification settings)
+
+CREATE TABLE IF NOT EXISTS notification_channels (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  channel VARCHAR(20) NOT NULL,
+  target TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  digest_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(user_id, channel)
+);
@@ -0,0 +1,19 @@
+-- Migration: Add backfill_jobs (historical trade import with resumable cursor)
+
+CREATE TABLE IF NOT EXISTS backfill_jobs (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  exchange VARCHAR(50) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  targets JSONB NOT NULL,
+  start_time BIGINT NOT NULL,
+  end_time BIGINT NOT NULL,
+  cursor JSONB NOT NULL,
+  trades_imported INTEGER NOT NULL DEFAULT 0,
+  skipped JSONB NOT NULL DEFAULT '[]',
+  error TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_backfill_jobs_user_id ON backfill_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_backfill_jobs_status ON backfill_jobs(status);
@@ -0,0 +1,3 @@
+-- Migration: Record the market of stored trades (spot lots feed the PnL engine; NULL = unknown)
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS market VARCHAR(10);
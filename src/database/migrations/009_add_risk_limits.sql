@@ -0,0 +1,16 @@
+-- Migration: Add per-user risk limits (replaces hard-coded RiskManager defaults)
+
+CREATE TABLE IF NOT EXISTS risk_limits (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  exchange VARCHAR(50) NOT NULL DEFAULT '', -- '' = all exchanges
+  symbol VARCHAR(50) NOT NULL DEFAULT '', -- '' = all symbols
+  max_order_size DECIMAL(20, 8), -- NULL = inherit
+  max_position_size DECIMAL(20, 8),
+  max_drawdown DECIMAL(10, 6),
+  min_balance DECIMAL(20, 8),
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(user_id, exchange, symbol)
+);
+
+CREATE INDEX IF NOT EXISTS idx_risk_limits_user_id ON risk_limits(user_id);
@@ -0,0 +1,15 @@
+-- Migration: Add daily loss limit and kill switch state
+
+ALTER TABLE risk_limits ADD COLUMN IF NOT EXISTS max_daily_loss DECIMAL(20, 8);
+
+CREATE TABLE IF NOT EXISTS risk_state (
+  user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  halted BOOLEAN NOT NULL DEFAULT FALSE,
+  source VARCHAR(20),
+  reason TEXT,
+  halted_at BIGINT,
+  cancel_orders_on_halt BOOLEAN NOT NULL DEFAULT FALSE,
+  day_start BIGINT,
+  baseline_equity DECIMAL(20, 8),
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
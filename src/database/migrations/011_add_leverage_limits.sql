@@ -0,0 +1,4 @@
+-- Migration: Add leverage caps and liquidation distance limits
+
+ALTER TABLE risk_limits ADD COLUMN IF NOT EXISTS max_leverage DECIMAL(10, 2);
+ALTER TABLE risk_limits ADD COLUMN IF NOT EXISTS min_liquidation_distance DECIMAL(10, 6);
@@ -0,0 +1,4 @@
+-- Migration: Track the kill switch daily loss as accumulated PnL instead of an equity baseline
+
+ALTER TABLE risk_state ADD COLUMN IF NOT EXISTS daily_pnl DECIMAL(20, 8);
+ALTER TABLE risk_state DROP COLUMN IF EXISTS baseline_equity;
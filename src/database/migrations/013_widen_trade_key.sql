@@ -0,0 +1,5 @@
+-- Migration: Key trades by user, market and symbol (Binance trade IDs are only unique per symbol, and spot and futures IDs overlap)
+
+ALTER TABLE trades DROP CONSTRAINT IF EXISTS trades_trade_id_exchange_key;
+ALTER TABLE trades ADD CONSTRAINT trades_user_id_exchange_market_symbol_trade_id_key
+  UNIQUE (user_id, exchange, market, symbol, trade_id);
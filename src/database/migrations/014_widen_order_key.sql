@@ -0,0 +1,6 @@
+-- Migration: Key orders by user and unified symbol (order IDs are only unique per exchange account; mock IDs repeat across instances)
+
+UPDATE orders SET symbol = UPPER(REPLACE(symbol, '/', ''));
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_order_id_exchange_key;
+ALTER TABLE orders ADD CONSTRAINT orders_user_id_exchange_symbol_order_id_key
+  UNIQUE (user_id, exchange, symbol, order_id);
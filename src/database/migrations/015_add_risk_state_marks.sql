@@ -0,0 +1,3 @@
+-- Migration: Persist the holdings the kill switch marks daily PnL against
+
+ALTER TABLE risk_state ADD COLUMN IF NOT EXISTS marks JSONB;
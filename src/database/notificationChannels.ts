@@ -0,0 +1,67 @@
+/**
+ * Notification channel persistence (per-user email settings)
+ */
+
+import { Pool } from 'pg';
+import { config } from '../config';
+import { NotificationChannelSettings, NotificationChannelType } from '../types';
+
+const pool = new Pool({
+  host: config.database.host,
+  port: config.database.port,
+  database: config.database.database,
+  user: config.database.user,
+  password: String(config.database.password || 'postgres'),
+});
+
+function mapRow(row: any): NotificationChannelSettings {
+  return {
+    userId: row.user_id,
+    channel: row.channel,
+    target: row.target,
+    enabled: row.enabled,
+    digestEnabled: row.digest_enabled,
+    updatedAt: row.updated_at instanceof Date ? row.updated_at.getTime() : new Date(row.updated_at).getTime(),
+  };
+}
+
+/**
+ * Load all notification channels for a user
+ */
+export async function getChannelsByUserId(userId: number): Promise<NotificationChannelSettings[]> {
+  const result = await pool.query(
+    `SELECT * FROM notification_channels WHERE user_id = $1 ORDER BY channel`,
+    [userId]
+  );
+  return result.rows.map(mapRow);
+}
+
+/**
+ * Create or replace a user's channel settings
+ */
+export async function saveChannel(
+  userId: number,
+  channel: NotificationChannelType,
+  settings: Pick<NotificationChannelSettings, 'target' | 'enabled' | 'digestEnabled'>
+): Promise<NotificationChannelSettings> {
+  const result = await pool.query(
+    `INSERT INTO notification_channels (user_id, channel, target, enabled, digest_enabled)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (user_id, channel)
+     DO UPDATE SET target = $3, enabled = $4, digest_enabled = $5, updated_at = CURRENT_TIMESTAMP
+     RETURNING *`,
+    [userId, channel, settings.target, settings.enabled, settings.digestEnabled]
+  );
+  return mapRow(result.rows[0]);
+}
+
+/**
+ * Remove a user's channel (returns false if it doesn't exist)
+ */
+export async function removeChannel(userId: number, channel: NotificationChannelType): Promise<boolean> {
+  const result = await pool.query(
+    `DELETE FROM notification_channels WHERE user_id = $1 AND channel = $2`,
+    [userId, channel]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
@@ -0,0 +1,84 @@
+/**
+ * Risk limit persistence (per-user overrides scoped by exchange and/or symbol)
+ */
+
+import { Pool } from 'pg';
+import { config } from '../config';
+import { RiskLimitEntry } from '../types';
+
+const pool = new Pool({
+  host: config.database.host,
+  port: config.database.port,
+  database: config.database.database,
+  user: config.database.user,
+  password: String(config.database.password || 'postgres'),
+});
+
+function toNumber(value: any): number | undefined {
+  return value === null || value === undefined ? undefined : parseFloat(value);
+}
+
+function mapRow(row: any): RiskLimitEntry {
+  return {
+    exchange: row.exchange || undefined,
+    symbol: row.symbol || undefined,
+    maxOrderSize: toNumber(row.max_order_size),
+    maxPositionSize: toNumber(row.max_position_size),
+    maxDrawdown: toNumber(row.max_drawdown),
+    minBalance: toNumber(row.min_balance),
+    maxDailyLoss: toNumber(row.max_daily_loss),
+    maxLeverage: toNumber(row.max_leverage),
+    minLiquidationDistance: toNumber(row.min_liquidation_distance),
+    updatedAt: row.updated_at instanceof Date ? row.updated_at.getTime() : new Date(row.updated_at).getTime(),
+  };
+}
+
+/**
+ * Load a user's risk limit overrides
+ */
+export async function getLimitsByUserId(userId: number): Promise<RiskLimitEntry[]> {
+  const result = await pool.query(
+    `SELECT * FROM risk_limits WHERE user_id = $1 ORDER BY exchange, symbol`,
+    [userId]
+  );
+  return result.rows.map(mapRow);
+}
+
+/**
+ * Create or replace the override for one scope (unset limits inherit)
+ */
+export async function saveLimits(userId: number, entry: RiskLimitEntry): Promise<RiskLimitEntry> {
+  const result = await pool.query(
+    `INSERT INTO risk_limits (user_id, exchange, symbol, max_order_size, max_position_size, max_drawdown, min_balance,
+                              max_daily_loss, max_leverage, min_liquidation_distance)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+     ON CONFLICT (user_id, exchange, symbol)
+     DO UPDATE SET max_order_size = $4, max_position_size = $5, max_drawdown = $6, min_balance = $7,
+                   max_daily_loss = $8, max_leverage = $9, min_liquidation_distance = $10, updated_at = CURRENT_TIMESTAMP
+     RETURNING *`,
+    [
+      userId,
+      entry.exchange || '',
+      entry.symbol || '',
+      entry.maxOrderSize ?? null,
+      entry.maxPositionSize ?? null,
+      entry.maxDrawdown ?? null,
+      entry.minBalance ?? null,
+      entry.maxDailyLoss ?? null,
+      entry.maxLeverage ?? null,
+      entry.minLiquidationDistance ?? null,
+    ]
+  );
+  return mapRow(result.rows[0]);
+}
+
+/**
+ * Remove the override for one scope (returns false if it doesn't exist)
+ */
+export async function removeLimits(userId: number, exchange?: string, symbol?: string): Promise<boolean> {
+  const result = await pool.query(
+    `DELETE FROM risk_limits WHERE user_id = $1 AND exchange = $2 AND symbol = $3`,
+    [userId, exchange || '', symbol || '']
+  );
+  return (result.rowCount ?? 0) > 0;
+}
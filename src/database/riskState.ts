@@ -0,0 +1,77 @@
+/**
+ * Kill switch state persistence (one row per user)
+ */
+
+import { Pool } from 'pg';
+import { config } from '../config';
+import { DailyPnlMarks, KillSwitchState } from '../types';
+
+const pool = new Pool({
+  host: config.database.host,
+  port: config.database.port,
+  database: config.database.database,
+  user: config.database.user,
+  password: String(config.database.password || 'postgres'),
+});
+
+/**
+ * Load a user's kill switch state (not halted if never saved)
+ */
+export async function getRiskState(userId: number): Promise<KillSwitchState> {
+  const result = await pool.query(`SELECT * FROM risk_state WHERE user_id = $1`, [userId]);
+  const row = result.rows[0];
+  if (!row) {
+    return { halted: false, cancelOrdersOnHalt: false };
+  }
+  return {
+    halted: row.halted,
+    source: row.source || undefined,
+    reason: row.reason || undefined,
+    haltedAt: row.halted_at !== null ? Number(row.halted_at) : undefined,
+    cancelOrdersOnHalt: row.cancel_orders_on_halt,
+    dayStart: row.day_start !== null ? Number(row.day_start) : undefined,
+    dailyPnl: row.daily_pnl !== null ? parseFloat(row.daily_pnl) : undefined,
+  };
+}
+
+/**
+ * Create or replace a user's kill switch state
+ */
+export async function saveRiskState(userId: number, state: KillSwitchState): Promise<void> {
+  await pool.query(
+    `INSERT INTO risk_state (user_id, halted, source, reason, halted_at, cancel_orders_on_halt, day_start, daily_pnl)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     ON CONFLICT (user_id)
+     DO UPDATE SET halted = $2, source = $3, reason = $4, halted_at = $5, cancel_orders_on_halt = $6,
+                   day_start = $7, daily_pnl = $8, updated_at = CURRENT_TIMESTAMP`,
+    [
+      userId,
+      state.halted,
+      state.source ?? null,
+      state.reason ?? null,
+      state.haltedAt ?? null,
+      state.cancelOrdersOnHalt,
+      state.dayStart ?? null,
+      state.dailyPnl ?? null,
+    ]
+  );
+}
+
+/**
+ * Load the holdings a user's daily PnL is marked against (null before the first snapshot)
+ */
+export async function getRiskMarks(userId: number): Promise<DailyPnlMarks | null> {
+  const result = await pool.query(`SELECT marks FROM risk_state WHERE user_id = $1`, [userId]);
+  return result.rows[0]?.marks || null;
+}
+
+/**
+ * Replace the holdings a user's daily PnL is marked against
+ */
+export async function saveRiskMarks(userId: number, marks: DailyPnlMarks): Promise<void> {
+  await pool.query(
+    `INSERT INTO risk_state (user_id, marks) VALUES ($1, $2)
+     ON CONFLICT (user_id) DO UPDATE SET marks = $2, updated_at = CURRENT_TIMESTAMP`,
+    [userId, JSON.stringify(marks)]
+  );
+}
@@ -42,7 +42,7 @@ CREATE TABLE IF NOT EXISTS orders (
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   timestamp BIGINT,
-  UNIQUE(order_id, exchange)
+  UNIQUE(user_id, exchange, symbol, order_id)
 );
 
 CREATE INDEX idx_orders_user_id ON orders(user_id);
@@ -65,8 +65,9 @@ CREATE TABLE IF NOT EXISTS trades (
   fee DECIMAL(20, 8) DEFAULT 0,
   fee_asset VARCHAR(20),
   timestamp BIGINT,
+  market VARCHAR(10),
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-  UNIQUE(trade_id, exchange)
+  UNIQUE(user_id, exchange, market, symbol, trade_id)
 );
 
 CREATE INDEX idx_trades_user_id ON trades(user_id);
@@ -74,3 +75,142 @@ CREATE INDEX idx_trades_exchange ON trades(exchange);
 CREATE INDEX idx_trades_symbol ON trades(symbol);
 CREATE INDEX idx_trades_order_id ON trades(order_id);
 CREATE INDEX idx_trades_created_at ON trades(created_at);
+
+-- Portfolio snapshots (equity time series per user)
+CREATE TABLE IF NOT EXISTS portfolio_snapshots (
+  id BIGSERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  timestamp BIGINT NOT NULL,
+  total_net_equity DECIMAL(24, 8) NOT NULL,
+  total_unrealized_pnl DECIMAL(24, 8) NOT NULL DEFAULT 0,
+  asset_allocation JSONB,
+  exchange_allocation JSONB,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_portfolio_snapshots_user_time ON portfolio_snapshots(user_id, timestamp);
+
+-- User-defined alert rules
+CREATE TABLE IF NOT EXISTS alert_rules (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(50) NOT NULL,
+  params JSONB NOT NULL,
+  severity VARCHAR(20) NOT NULL DEFAULT 'warning',
+  cooldown_ms BIGINT NOT NULL DEFAULT 3600000,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  last_triggered_at BIGINT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_alert_rules_user_id ON alert_rules(user_id);
+
+-- Alert history (every emitted AlertEvent per user)
+CREATE TABLE IF NOT EXISTS alerts (
+  id BIGSERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(50) NOT NULL,
+  severity VARCHAR(20) NOT NULL,
+  message TEXT NOT NULL,
+  exchange VARCHAR(50),
+  data JSONB,
+  timestamp BIGINT NOT NULL,
+  acknowledged_at BIGINT,
+  resolved_at BIGINT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_alerts_user_time ON alerts(user_id, timestamp);
+
+-- Outbound webhooks (per-user endpoints and failed deliveries)
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  encrypted_secret TEXT NOT NULL,
+  events JSONB NOT NULL,
+  filters JSONB,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_webhook_endpoints_user_id ON webhook_endpoints(user_id);
+
+CREATE TABLE IF NOT EXISTS webhook_dead_letters (
+  id BIGSERIAL PRIMARY KEY,
+  endpoint_id INTEGER NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  event_type VARCHAR(20) NOT NULL,
+  payload JSONB NOT NULL,
+  attempts INTEGER NOT NULL,
+  last_status INTEGER,
+  last_error TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_webhook_dead_letters_user_id ON webhook_dead_letters(user_id);
+
+-- Per-user notification channels (e.g. email)
+CREATE TABLE IF NOT EXISTS notification_channels (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  channel VARCHAR(20) NOT NULL,
+  target TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  digest_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(user_id, channel)
+);
+
+-- Trade history backfill jobs (cursor checkpointed for resume)
+CREATE TABLE IF NOT EXISTS backfill_jobs (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  exchange VARCHAR(50) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  targets JSONB NOT NULL,
+  start_time BIGINT NOT NULL,
+  end_time BIGINT NOT NULL,
+  cursor JSONB NOT NULL,
+  trades_imported INTEGER NOT NULL DEFAULT 0,
+  skipped JSONB NOT NULL DEFAULT '[]',
+  error TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_backfill_jobs_user_id ON backfill_jobs(user_id);
+CREATE INDEX idx_backfill_jobs_status ON backfill_jobs(status);
+
+-- Per-user risk limit overrides
+CREATE TABLE IF NOT EXISTS risk_limits (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  exchange VARCHAR(50) NOT NULL DEFAULT '', -- '' = all exchanges
+  symbol VARCHAR(50) NOT NULL DEFAULT '', -- '' = all symbols
+  max_order_size DECIMAL(20, 8), -- NULL = inherit
+  max_position_size DECIMAL(20, 8),
+  max_drawdown DECIMAL(10, 6),
+  min_balance DECIMAL(20, 8),
+  max_daily_loss DECIMAL(20, 8),
+  max_leverage DECIMAL(10, 2),
+  min_liquidation_distance DECIMAL(10, 6),
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(user_id, exchange, symbol)
+);
+
+CREATE INDEX idx_risk_limits_user_id ON risk_limits(user_id);
+
+-- Per-user kill switch state and daily PnL
+CREATE TABLE IF NOT EXISTS risk_state (
+  user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  halted BOOLEAN NOT NULL DEFAULT FALSE,
+  source VARCHAR(20),
+  reason TEXT,
+  halted_at BIGINT,
+  cancel_orders_on_halt BOOLEAN NOT NULL DEFAULT FALSE,
+  day_start BIGINT,
+  daily_pnl DECIMAL(20, 8),
+  marks JSONB,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,124 @@
+/**
+ * Webhook persistence (per-user endpoints and dead-lettered deliveries)
+ */
+
+import { Pool } from 'pg';
+import { config } from '../config';
+import { keyManager } from '../security/keyManager';
+import { WebhookEndpoint, WebhookPayload } from '../types';
+
+const pool = new Pool({
+  host: config.database.host,
+  port: config.database.port,
+  database: config.database.database,
+  user: config.database.user,
+  password: String(config.database.password || 'postgres'),
+});
+
+export interface DeadLetter {
+  id: number;
+  endpointId: number;
+  eventType: string;
+  payload: WebhookPayload;
+  attempts: number;
+  lastStatus?: number;
+  lastError?: string;
+  createdAt: number;
+}
+
+function mapEndpoint(row: any): WebhookEndpoint {
+  const filters = row.filters || {};
+  return {
+    id: row.id,
+    userId: row.user_id,
+    url: row.url,
+    secret: keyManager.decrypt(row.encrypted_secret),
+    events: row.events,
+    severities: filters.severities,
+    orderStatuses: filters.orderStatuses,
+    enabled: row.enabled,
+    createdAt: row.created_at instanceof Date ? row.created_at.getTime() : new Date(row.created_at).getTime(),
+  };
+}
+
+/**
+ * Load a user's webhook endpoints (secrets decrypted)
+ */
+export async function getEndpointsByUserId(userId: number): Promise<WebhookEndpoint[]> {
+  const result = await pool.query(
+    `SELECT * FROM webhook_endpoints WHERE user_id = $1 ORDER BY id`,
+    [userId]
+  );
+  return result.rows.map(mapEndpoint);
+}
+
+/**
+ * Create a webhook endpoint for a user
+ */
+export async function createEndpoint(
+  userId: number,
+  endpoint: Pick<WebhookEndpoint, 'url' | 'secret' | 'events' | 'severities' | 'orderStatuses' | 'enabled'>
+): Promise<WebhookEndpoint> {
+  const result = await pool.query(
+    `INSERT INTO webhook_endpoints (user_id, url, encrypted_secret, events, filters, enabled)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [
+      userId,
+      endpoint.url,
+      keyManager.encrypt(endpoint.secret),
+      JSON.stringify(endpoint.events),
+      JSON.stringify({ severities: endpoint.severities, orderStatuses: endpoint.orderStatuses }),
+      endpoint.enabled,
+    ]
+  );
+  return mapEndpoint(result.rows[0]);
+}
+
+/**
+ * Delete a user's webhook endpoint (returns false if it doesn't exist)
+ */
+export async function deleteEndpoint(userId: number, endpointId: number): Promise<boolean> {
+  const result = await pool.query(
+    `DELETE FROM webhook_endpoints WHERE user_id = $1 AND id = $2`,
+    [userId, endpointId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Record a delivery that exhausted its retries
+ */
+export async function storeDeadLetter(
+  endpoint: WebhookEndpoint,
+  payload: WebhookPayload,
+  attempts: number,
+  lastStatus?: number,
+  lastError?: string
+): Promise<void> {
+  await pool.query(
+    `INSERT INTO webhook_dead_letters (endpoint_id, user_id, event_type, payload, attempts, last_status, last_error)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [endpoint.id, endpoint.userId, payload.type, JSON.stringify(payload), attempts, lastStatus ?? null, lastError ?? null]
+  );
+}
+
+/**
+ * List a user's dead-lettered deliveries (newest first)
+ */
+export async function getDeadLetters(userId: number, limit: number = 100): Promise<DeadLetter[]> {
+  const result = await pool.query(
+    `SELECT * FROM webhook_dead_letters WHERE user_id = $1 ORDER BY id DESC LIMIT $2`,
+    [userId, limit]
+  );
+  return result.rows.map((row: any) => ({
+    id: Number(row.id),
+    endpointId: row.endpoint_id,
+    eventType: row.event_type,
+    payload: row.payload,
+    attempts: row.attempts,
+    lastStatus: row.last_status ?? undefined,
+    lastError: row.last_error ?? undefined,
+    createdAt: row.created_at instanceof Date ? row.created_at.getTime() : new Date(row.created_at).getTime(),
+  }));
+}
@@ -0,0 +1,311 @@
+/**
+ * Trade Backfill Service
+ * Imports historical fills per user and exchange, walking each symbol in fixed windows.
+ * The cursor is checkpointed after every window so jobs resume where they stopped;
+ * trades are idempotent on (user_id, exchange, market, symbol, trade_id), so re-importing a window is harmless.
+ */
+
+import { BackfillJob, BackfillTarget, BackfillCursor, ExchangeConnector, RawTrade } from '../types';
+import { UserContextService } from '../auth/userContextService';
+import { connectorRegistry } from '../connectors/registry';
+import { splitSymbol } from '../normalizer';
+import { BybitApiError } from '../connectors/bybit';
+import { OKXApiError } from '../connectors/okx';
+import { rateLimiter } from '../security/rateLimiter';
+import { orderStore } from './orderStore';
+import * as backfillJobs from '../database/backfillJobs';
+import { config } from '../config';
+
+const MARKETS: Array<'spot' | 'futures'> = ['spot', 'futures'];
+
+// Target symbol for a whole market, on exchanges with account-wide fill queries
+export const ALL_SYMBOLS = '*';
+
+// Error codes for requests that won't succeed on retry (bad parameters, unknown symbol)
+const BYBIT_REJECTED_CODES = [10001, 170121];
+const OKX_REJECTED_CODES = ['51000', '51001'];
+
+export interface BackfillRequest {
+  exchange: string;
+  targets?: BackfillTarget[]; // Derived from the account's balances, positions and stored trades when omitted
+  from?: number;
+  to?: number;
+}
+
+export class BackfillService {
+  private userContextService: UserContextService;
+  private active: Map<number, string> = new Map(); // jobId -> userId:exchange
+  private stopped = false;
+
+  constructor(userContextService: UserContextService) {
+    this.userContextService = userContextService;
+  }
+
+  /**
+   * Create a job and start it in the background
+   */
+  async start(userId: number, request: BackfillRequest): Promise<BackfillJob> {
+    const exchange = request.exchange.toLowerCase();
+    if (this.isActive(userId, exchange)) {
+      throw new Error(`A backfill for ${exchange} is already running`);
+    }
+
+    const connector = await this.getConnector(userId, exchange);
+    const to = request.to ?? Date.now();
+    const from = request.from ?? to - config.backfill.defaultLookbackMs;
+    if (from >= to) {
+      throw new Error('from must be before to');
+    }
+
+    const targets = request.targets?.length ? request.targets : await this.deriveTargets(userId, connector);
+    const supported = targets.filter((target) => connectorRegistry.supports(exchange, target.market));
+    if (supported.length === 0) {
+      throw new Error(`No symbols to backfill on ${exchange}`);
+    }
+
+    const job = await backfillJobs.createJob(userId, exchange, supported, from, to);
+    console.log(`[Backfill] Job ${job.id} created for user ${userId} on ${exchange} (${supported.length} symbol(s))`);
+    this.launch(job);
+    return job;
+  }
+
+  /**
+   * Restart a failed job from its checkpoint
+   */
+  async resume(userId: number, jobId: number): Promise<BackfillJob | null> {
+    const job = await backfillJobs.getJob(userId, jobId);
+    if (!job) return null;
+    if (job.status !== 'failed') {
+      throw new Error(`Only failed jobs can be resumed (job is ${job.status})`);
+    }
+    if (this.isActive(userId, job.exchange)) {
+      throw new Error(`A backfill for ${job.exchange} is already running`);
+    }
+
+    await backfillJobs.updateJob(job.id, { status: 'pending', error: null });
+    const resumed = { ...job, status: 'pending' as const, error: undefined };
+    this.launch(resumed);
+    return resumed;
+  }
+
+  /**
+   * Pick up jobs that were interrupted by a restart
+   */
+  async resumeInterrupted(): Promise<void> {
+    const jobs = await backfillJobs.getResumableJobs();
+    if (jobs.length === 0) return;
+
+    console.log(`[Backfill] Resuming ${jobs.length} interrupted job(s)`);
+    jobs.forEach((job) => {
+      if (!this.isActive(job.userId, job.exchange)) {
+        this.launch(job);
+      }
+    });
+  }
+
+  getJob(userId: number, jobId: number): Promise<BackfillJob | null> {
+    return backfillJobs.getJob(userId, jobId);
+  }
+
+  getJobs(userId: number): Promise<BackfillJob[]> {
+    return backfillJobs.getJobsByUserId(userId);
+  }
+
+  /**
+   * Stop after the current window (jobs stay 'running' and resume on next start)
+   */
+  stop(): void {
+    this.stopped = true;
+  }
+
+  private isActive(userId: number, exchange: string): boolean {
+    return Array.from(this.active.values()).includes(`${userId}:${exchange}`);
+  }
+
+  private launch(job: BackfillJob): void {
+    this.active.set(job.id, `${job.userId}:${job.exchange}`);
+    this.run(job)
+      .catch(async (error: any) => {
+        const message = error.message || String(error);
+        console.error(`[Backfill] Job ${job.id} failed:`, message);
+        await backfillJobs.updateJob(job.id, { status: 'failed', error: message }).catch(() => {});
+      })
+      .finally(() => this.active.delete(job.id));
+  }
+
+  private async run(job: BackfillJob): Promise<void> {
+    const connector = await this.getConnector(job.userId, job.exchange);
+    const normalizer = connectorRegistry.createNormalizer(job.exchange);
+    const cursor: BackfillCursor = { ...job.cursor };
+    const skipped = [...job.skipped];
+    let tradesImported = job.tradesImported;
+
+    await backfillJobs.updateJob(job.id, { status: 'running' });
+
+    while (cursor.targetIndex < job.targets.length) {
+      if (this.stopped) return;
+
+      const target = job.targets[cursor.targetIndex];
+      const fetchTrades = this.tradeFetcher(connector, target);
+      if (!fetchTrades || cursor.windowStart >= job.endTime) {
+        cursor.targetIndex++;
+        cursor.windowStart = job.startTime;
+        continue;
+      }
+
+      const windowEnd = Math.min(cursor.windowStart + config.backfill.windowMs, job.endTime);
+      await this.waitForRateLimit(job.exchange);
+
+      try {
+        const rawTrades = await this.withRetry(() => fetchTrades(cursor.windowStart, windowEnd));
+        for (const raw of rawTrades) {
+          const trade = normalizer.normalizeTrade(raw, job.exchange);
+          await orderStore.storeTrade(
+            {
+              tradeId: trade.tradeId,
+              orderId: trade.orderId || '',
+              symbol: trade.symbol,
+              side: trade.side,
+              price: trade.price,
+              quantity: trade.quantity,
+              fee: trade.fee,
+              feeAsset: trade.feeAsset || '',
+              timestamp: trade.timestamp,
+              exchange: job.exchange,
+              market: target.market,
+            },
+            job.userId
+          );
+        }
+        tradesImported += rawTrades.length;
+        cursor.windowStart = windowEnd;
+      } catch (error: any) {
+        if (!this.isRejected(error)) throw error;
+        // The exchange rejected the symbol itself (e.g. a derived pair that isn't listed)
+        const message = error.response?.data?.msg || error.message || String(error);
+        console.warn(`[Backfill] Job ${job.id}: skipping ${target.market} ${target.symbol}: ${message}`);
+        skipped.push({ ...target, error: message });
+        cursor.windowStart = job.endTime;
+      }
+
+      await backfillJobs.updateJob(job.id, { cursor, tradesImported, skipped });
+    }
+
+    await backfillJobs.updateJob(job.id, { status: 'completed', cursor, tradesImported });
+    console.log(`[Backfill] Job ${job.id} completed: ${tradesImported} trade(s) imported`);
+  }
+
+  /**
+   * Fills query for a target: account-wide for ALL_SYMBOLS, otherwise per symbol
+   */
+  private tradeFetcher(
+    connector: ExchangeConnector,
+    target: BackfillTarget
+  ): ((startTime: number, endTime: number) => Promise<RawTrade[]>) | undefined {
+    if (target.symbol === ALL_SYMBOLS) {
+      const api = connectorRegistry.withCapability(connector, 'accountTrades');
+      return api && ((startTime, endTime) => api.fetchAccountTradesInRange(target.market, startTime, endTime));
+    }
+    const api = connectorRegistry.withCapability(connector, target.market);
+    return api && ((startTime, endTime) => api.fetchTradesInRange(target.symbol, target.market, startTime, endTime));
+  }
+
+  /**
+   * Targets when none were requested: one account-wide target per market where the exchange
+   * can query fills across symbols. Otherwise the symbols the account has stored trades or open
+   * positions in, plus listed spot pairs between assets it holds or has traded (walking every
+   * listed symbol would cost hundreds of thousands of weighted requests on Binance).
+   */
+  private async deriveTargets(userId: number, connector: ExchangeConnector): Promise<BackfillTarget[]> {
+    const exchange = connector.exchangeName;
+    const markets = MARKETS.filter((market) => connectorRegistry.supports(exchange, market));
+    if (connectorRegistry.withCapability(connector, 'accountTrades')) {
+      return markets.map((market) => ({ symbol: ALL_SYMBOLS, market }));
+    }
+
+    const api = connectorRegistry.withCapability(connector, 'symbolRules');
+    if (!api) {
+      throw new Error(`${exchange} can't list its symbols; pass targets explicitly`);
+    }
+
+    const [balances, positions, traded] = await Promise.all([
+      connector.fetchBalances(),
+      markets.includes('futures') ? connector.fetchPositions() : Promise.resolve([]),
+      orderStore.getTradedSymbols(userId, exchange),
+    ]);
+
+    const targets = new Map<string, BackfillTarget>(); // market:symbol
+    const add = (symbol: string, market: 'spot' | 'futures') => {
+      const unified = symbol.replace('/', '').toUpperCase();
+      targets.set(`${market}:${unified}`, { symbol: unified, market });
+    };
+
+    const assets = new Set(balances.filter((b) => b.free + b.locked > 0).map((b) => b.asset.toUpperCase()));
+    traded.forEach(({ symbol, market }) => {
+      add(symbol, market);
+      const pair = splitSymbol(symbol);
+      if (pair) {
+        assets.add(pair.base);
+        assets.add(pair.quote);
+      }
+    });
+    positions.forEach((p) => add(p.symbol, 'futures'));
+
+    if (markets.includes('spot')) {
+      for (const symbol of await api.fetchSymbols('spot')) {
+        const rules = await api.fetchSymbolRules(symbol, 'spot');
+        if (rules && assets.has(rules.baseAsset) && assets.has(rules.quoteAsset)) {
+          add(symbol, 'spot');
+        }
+      }
+    }
+
+    const derived = Array.from(targets.values()).filter((target) => markets.includes(target.market));
+    console.log(`[Backfill] Derived ${derived.length} symbol(s) on ${exchange} from ${assets.size} held or traded asset(s)`);
+    return derived;
+  }
+
+  private async getConnector(userId: number, exchange: string): Promise<ExchangeConnector> {
+    const pm = await this.userContextService.getPortfolioManager(userId);
+    const connector = pm.getConnector(exchange);
+    if (!connector) {
+      throw new Error(`Exchange ${exchange} is not connected`);
+    }
+    return connector;
+  }
+
+  private async withRetry<T>(fn: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await fn();
+      } catch (error: any) {
+        if (this.isRejected(error) || attempt >= config.backfill.maxAttempts) throw error;
+        await this.sleep(1000 * Math.pow(2, attempt - 1));
+      }
+    }
+  }
+
+  /**
+   * Bad-request/not-found responses won't succeed on retry (auth errors still fail the job).
+   * Bybit and OKX report these in the body of an HTTP 200 response.
+   */
+  private isRejected(error: any): boolean {
+    if (error instanceof BybitApiError) return BYBIT_REJECTED_CODES.includes(error.retCode);
+    if (error instanceof OKXApiError) return OKX_REJECTED_CODES.includes(error.code);
+    const status = error.response?.status;
+    return status === 400 || status === 404;
+  }
+
+  /**
+   * Leave request budget (weight, on exchanges that weigh requests) for the user's live portfolio/trading calls
+   */
+  private async waitForRateLimit(exchange: string): Promise<void> {
+    while (!this.stopped && rateLimiter.getRemaining(exchange) < config.backfill.minRateLimitRemaining) {
+      await this.sleep(1000);
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -9,22 +9,30 @@ import {
   TradingConnector,
   ExchangeConnector,
   RiskCheckResult,
+  FillEstimate,
 } from '../types';
-import { riskManager } from './riskManager';
+import { RiskManager, CurrentPosition } from './riskManager';
 import { PortfolioManager } from '../portfolio/manager';
 import { EventBus } from '../realtime/eventBus';
 import { orderStore } from './orderStore';
+import { applySymbolRules, SymbolRulesResult } from './symbolRules';
+import { splitSymbol } from '../normalizer';
+import { connectorRegistry } from '../connectors/registry';
+
+const USD_QUOTES = ['USDT', 'USDC', 'FDUSD', 'BUSD', 'USD'];
 
 export class ExecutionEngine {
   private connectors: Map<string, TradingConnector & ExchangeConnector> = new Map();
   private portfolioManager: PortfolioManager;
   private eventBus: EventBus;
   private userId: number;
+  private riskManager: RiskManager;
 
-  constructor(portfolioManager: PortfolioManager, eventBus: EventBus, userId: number) {
+  constructor(portfolioManager: PortfolioManager, eventBus: EventBus, userId: number, riskManager: RiskManager) {
     this.portfolioManager = portfolioManager;
     this.eventBus = eventBus;
     this.userId = userId;
+    this.riskManager = riskManager;
   }
 
   /**
@@ -38,7 +46,8 @@ export class ExecutionEngine {
   }
 
   /**
-   * Place an order with risk checks
+   * Place an order with symbol-rule and risk checks (price/quantity are rounded to the
+   * symbol's tick and step sizes first)
    */
   async placeOrder(
     exchange: string,
@@ -49,10 +58,128 @@ export class ExecutionEngine {
       throw new Error(`Exchange ${exchange} not registered or does not support trading`);
     }
 
+    const { order, adjustments, errors } = await this.applyTradingRules(connector, orderParams);
+    if (errors.length > 0) {
+      throw new Error(`Order rejected by ${connector.exchangeName} trading rules: ${errors.join('; ')}`);
+    }
+    if (adjustments.length > 0) {
+      console.log('[ExecutionEngine] Order adjusted to symbol rules:', adjustments);
+    }
+
+    const riskCheck = await this.runRiskChecks(connector, order);
+
+    if (!riskCheck.allowed) {
+      throw new Error(`Order rejected by risk manager: ${riskCheck.reason}`);
+    }
+
+    // Log warnings if any
+    if (riskCheck.warnings && riskCheck.warnings.length > 0) {
+      console.warn('[ExecutionEngine] Risk warnings:', riskCheck.warnings);
+    }
+
+    // Place order on exchange
+    try {
+      const orderResult = await connector.placeOrder(order);
+
+      // Store order in database (don't fail if DB is unavailable)
+      try {
+        await orderStore.storeOrder(orderResult, this.userId);
+      } catch (dbError: any) {
+        console.warn(`[ExecutionEngine] Failed to store order in database: ${dbError.message}. Order was placed successfully on exchange.`);
+        // Continue - order was placed successfully on exchange
+      }
+
+      // Emit order update via WebSocket (with userId for per-user delivery)
+      try {
+        await this.eventBus.publishUpdate({
+          type: 'order',
+          data: {
+            ...orderResult,
+            exchange: connector.exchangeName,
+          } as any,
+        }, this.userId);
+      } catch (eventError: any) {
+        console.warn(`[ExecutionEngine] Failed to emit order update: ${eventError.message}`);
+        // Continue - order was placed successfully
+      }
+
+      return orderResult;
+    } catch (error: any) {
+      throw new Error(`Failed to place order on ${exchange}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Run pre-trade symbol-rule and risk checks without placing the order
+   */
+  async checkOrder(exchange: string, orderParams: OrderParams): Promise<RiskCheckResult> {
+    const connector = this.connectors.get(exchange.toLowerCase());
+    if (!connector) {
+      throw new Error(`Exchange ${exchange} not registered or does not support trading`);
+    }
+
+    const { order, adjustments, errors } = await this.applyTradingRules(connector, orderParams);
+    const riskCheck = await this.runRiskChecks(connector, order);
+    const reasons = [...errors, ...(riskCheck.reason ? [riskCheck.reason] : [])];
+    const warnings = [...adjustments, ...(riskCheck.warnings || [])];
+    return {
+      ...riskCheck,
+      allowed: riskCheck.allowed && errors.length === 0,
+      reason: reasons.length > 0 ? reasons.join('; ') : undefined,
+      warnings: warnings.length > 0 ? warnings : undefined,
+      adjustedOrder: order,
+    };
+  }
+
+  /**
+   * Round/validate an order against the exchange's symbol rules. Orders pass through unchanged
+   * when the exchange has no rules capability or the rules can't be fetched.
+   */
+  private async applyTradingRules(
+    connector: TradingConnector & ExchangeConnector,
+    orderParams: OrderParams
+  ): Promise<SymbolRulesResult> {
+    const unchanged = { order: orderParams, adjustments: [], errors: [] };
+    const rulesConnector = connectorRegistry.withCapability(connector, 'symbolRules');
+    if (!rulesConnector) return unchanged;
+
+    const market = orderParams.market === 'futures' ? 'futures' : 'spot';
+    let rules;
+    try {
+      rules = await rulesConnector.fetchSymbolRules(orderParams.symbol, market);
+    } catch (rulesError: any) {
+      console.warn(`[ExecutionEngine] Failed to fetch symbol rules for ${orderParams.symbol}: ${rulesError.message}. Continuing without them.`);
+      return unchanged;
+    }
+    if (!rules) {
+      return { ...unchanged, errors: [`Unknown ${market} symbol ${orderParams.symbol} on ${connector.exchangeName}`] };
+    }
+
+    // Market orders are sized at the ticker for notional checks (USD quotes only)
+    let referencePrice: number | undefined;
+    if (orderParams.type === 'market' && rules.minNotional !== undefined && USD_QUOTES.includes(rules.quoteAsset)) {
+      const quote = await this.portfolioManager.getPriceService().getQuote(rules.baseAsset, connector.exchangeName);
+      referencePrice = quote.price > 0 ? quote.price : undefined;
+    }
+
+    const baseHoldings = this.portfolioManager
+      .getLatestSnapshot()
+      ?.balances.filter((b) => b.asset === rules.baseAsset && b.exchange === connector.exchangeName.toLowerCase())
+      .reduce((sum, b) => sum + b.total, 0);
+
+    return applySymbolRules(orderParams, rules, referencePrice, baseHoldings);
+  }
+
+  private async runRiskChecks(
+    connector: TradingConnector & ExchangeConnector,
+    orderParams: OrderParams
+  ): Promise<RiskCheckResult> {
+    const exchange = connector.exchangeName;
+
     // Get current portfolio snapshot for risk checks
     const snapshot = this.portfolioManager.getLatestSnapshot();
     if (snapshot) {
-      riskManager.updatePortfolioSnapshot(snapshot);
+      this.riskManager.updatePortfolioSnapshot(snapshot);
     }
 
     // Get available balance for the asset
@@ -87,67 +214,64 @@ export class ExecutionEngine {
       }
     }
 
-    // Get current position if exists
-    let currentPosition;
+    // Get current position if exists (raw symbols may be exchange-formatted, e.g. OKX BTC-USDT-SWAP)
+    let currentPosition: CurrentPosition | undefined;
     try {
+      const symbolKey = (symbol: string) => symbol.replace(/-SWAP$/, '').replace(/[-/]/g, '').toUpperCase();
       const positions = await connector.fetchPositions();
-      currentPosition = positions.find((p) => p.symbol === orderParams.symbol);
+      const position = positions.find((p) => symbolKey(p.symbol) === symbolKey(orderParams.symbol));
+      if (position) {
+        currentPosition = {
+          size: position.size,
+          value: position.size * position.markPrice,
+          side: position.side === 'both' ? (position.size >= 0 ? 'long' : 'short') : position.side,
+          entryPrice: position.entryPrice,
+          markPrice: position.markPrice,
+          leverage: position.leverage,
+          marginMode: position.marginMode,
+        };
+      }
     } catch (positionError: any) {
       console.warn(`[ExecutionEngine] Failed to fetch positions for risk check: ${positionError.message}. Continuing without position data.`);
       currentPosition = undefined;
     }
 
+    const fillEstimate = orderParams.type === 'market' ? await this.estimateFill(connector, orderParams) : undefined;
+
     // Perform risk checks
-    const riskCheck = await riskManager.validateOrder(
+    const riskCheck = await this.riskManager.validateOrder(
       orderParams,
       availableBalance,
-      currentPosition
-        ? {
-            size: currentPosition.size,
-            value: currentPosition.size * currentPosition.markPrice,
-          }
-        : undefined
+      currentPosition,
+      connector.exchangeName,
+      fillEstimate
     );
 
-    if (!riskCheck.allowed) {
-      throw new Error(`Order rejected by risk manager: ${riskCheck.reason}`);
-    }
-
-    // Log warnings if any
-    if (riskCheck.warnings && riskCheck.warnings.length > 0) {
-      console.warn('[ExecutionEngine] Risk warnings:', riskCheck.warnings);
-    }
+    return riskCheck;
+  }
 
-    // Place order on exchange
+  /**
+   * Estimate a market order's fill from order-book depth, falling back to the ticker price
+   * for USD-quoted symbols (undefined if neither is available)
+   */
+  private async estimateFill(
+    connector: TradingConnector & ExchangeConnector,
+    orderParams: OrderParams
+  ): Promise<FillEstimate | undefined> {
+    const market = orderParams.market === 'futures' ? 'futures' : 'spot';
     try {
-      const orderResult = await connector.placeOrder(orderParams);
-
-      // Store order in database (don't fail if DB is unavailable)
-      try {
-        await orderStore.storeOrder(orderResult, this.userId);
-      } catch (dbError: any) {
-        console.warn(`[ExecutionEngine] Failed to store order in database: ${dbError.message}. Order was placed successfully on exchange.`);
-        // Continue - order was placed successfully on exchange
-      }
-
-      // Emit order update via WebSocket (with userId for per-user delivery)
-      try {
-        await this.eventBus.publishUpdate({
-          type: 'order',
-          data: {
-            ...orderResult,
-            exchange: connector.exchangeName,
-          } as any,
-        }, this.userId);
-      } catch (eventError: any) {
-        console.warn(`[ExecutionEngine] Failed to emit order update: ${eventError.message}`);
-        // Continue - order was placed successfully
-      }
-
-      return orderResult;
-    } catch (error: any) {
-      throw new Error(`Failed to place order on ${exchange}: ${error.message}`);
+      const book = await connector.fetchOrderBook(orderParams.symbol, market);
+      const estimate = this.riskManager.estimateFill(book, orderParams.side, orderParams.quantity);
+      if (estimate) return estimate;
+    } catch (bookError: any) {
+      console.warn(`[ExecutionEngine] Failed to fetch order book for ${orderParams.symbol}: ${bookError.message}`);
     }
+
+    const pair = splitSymbol(orderParams.symbol);
+    if (!pair || !USD_QUOTES.includes(pair.quote)) return undefined;
+    const quote = await this.portfolioManager.getPriceService().getQuote(pair.base, connector.exchangeName);
+    if (quote.price <= 0) return undefined;
+    return { price: quote.price, referencePrice: quote.price, source: 'ticker', unfilledQuantity: 0 };
   }
 
   /**
@@ -164,10 +288,13 @@ export class ExecutionEngine {
 
       // Update order in database (don't fail if DB is unavailable)
       try {
-        await orderStore.updateOrder(orderId, connector.exchangeName, {
-          status: 'CANCELED',
-          remainingQuantity: 0,
-        });
+        await orderStore.updateOrder(
+          orderId,
+          connector.exchangeName,
+          symbol,
+          { status: 'CANCELED', remainingQuantity: 0 },
+          this.userId
+        );
       } catch (dbError: any) {
         console.warn(`[ExecutionEngine] Failed to update order in database: ${dbError.message}. Order was canceled successfully on exchange.`);
       }
@@ -0,0 +1,92 @@
+/**
+ * Fill Recorder
+ * Persists order updates and fills from a user's realtime streams, including orders
+ * placed outside this platform (e.g. in the exchange UI)
+ */
+
+import { RealtimeUpdate, UnifiedOrder, UnifiedTrade, OrderResult } from '../types';
+import { orderStore } from './orderStore';
+
+export class FillRecorder {
+  private userId: number;
+  private queue: Promise<void> = Promise.resolve(); // Keeps writes in stream order
+
+  constructor(userId: number) {
+    this.userId = userId;
+  }
+
+  /**
+   * Persist an order or trade update (other update types are ignored)
+   */
+  record(update: RealtimeUpdate): Promise<void> {
+    if (update.type !== 'order' && update.type !== 'trade') {
+      return this.queue;
+    }
+
+    this.queue = this.queue.then(async () => {
+      try {
+        if (update.type === 'order') {
+          await this.recordOrder(update.data as UnifiedOrder);
+        } else {
+          await this.recordTrade(update.data as UnifiedTrade);
+        }
+      } catch (error: any) {
+        console.warn(`[FillRecorder] Failed to persist ${update.type} update for user ${this.userId}:`, error.message || error);
+      }
+    });
+    return this.queue;
+  }
+
+  /**
+   * Update the stored order; insert it if it was placed elsewhere
+   */
+  private async recordOrder(order: UnifiedOrder): Promise<void> {
+    const status = String(order.status).toUpperCase();
+    const filledQuantity = order.filledQuantity;
+    const remainingQuantity = filledQuantity !== undefined ? Math.max(order.quantity - filledQuantity, 0) : undefined;
+
+    const updated = await orderStore.updateOrder(
+      order.orderId,
+      order.exchange,
+      order.symbol,
+      { status, filledQuantity, remainingQuantity },
+      this.userId
+    );
+    if (updated) return;
+
+    const result: OrderResult = {
+      orderId: order.orderId,
+      symbol: order.symbol,
+      side: order.side,
+      type: (order.type || 'unknown').toLowerCase(),
+      status,
+      price: order.price || order.averagePrice || 0,
+      quantity: order.quantity,
+      filledQuantity: filledQuantity ?? 0,
+      remainingQuantity: remainingQuantity ?? order.quantity,
+      timestamp: order.timestamp,
+      exchange: order.exchange,
+      clientOrderId: order.clientOrderId,
+    };
+    await orderStore.storeOrder(result, this.userId);
+  }
+
+  private async recordTrade(trade: UnifiedTrade): Promise<void> {
+    await orderStore.storeTrade(
+      {
+        tradeId: trade.tradeId,
+        orderId: trade.orderId || '',
+        symbol: trade.symbol,
+        side: trade.side,
+        price: trade.price,
+        quantity: trade.quantity,
+        fee: trade.fee,
+        feeAsset: trade.feeAsset || '',
+        timestamp: trade.timestamp,
+        exchange: trade.exchange,
+        market: trade.market,
+      },
+      this.userId
+    );
+  }
+}
@@ -0,0 +1,317 @@
+/**
+ * Kill Switch
+ * Halts a user's trading when the day's PnL reaches -`maxDailyLoss`, or on manual request.
+ * While halted the RiskManager only accepts reduce-only orders.
+ *
+ * Daily PnL is marked to market between consecutive complete snapshots: the quantity held in
+ * the earlier snapshot times the price change of each balance and position. Deposits,
+ * withdrawals and transfers only change quantities, so they don't count as losses. Fees and
+ * funding only change quantities too, so they are added on their own: fees from the user's
+ * fills, funding from the exchanges' income history. Slippage against the last mark isn't counted.
+ */
+
+import { AlertEvent, DailyPnlMarks, IncomeRecord, KillSwitchState, PortfolioSnapshot, UnifiedTrade } from '../types';
+import { RiskManager } from './riskManager';
+import { ExecutionEngine } from './executor';
+import { getRiskMarks, getRiskState, saveRiskMarks, saveRiskState } from '../database/riskState';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FUNDING_CHECK_INTERVAL_MS = 10 * 60 * 1000; // Funding settles every few hours
+const USD_ASSETS = ['USDT', 'USDC', 'BUSD', 'FDUSD', 'USD']; // Priced at 1 when no mark is known
+
+interface Mark {
+  quantity: number; // Signed for positions (short < 0)
+  price: number; // USD
+}
+
+export interface KillSwitchSources {
+  /**
+   * Recent funding payments on the user's exchanges (signed amounts in the settlement asset)
+   */
+  getFundingPayments(): Promise<IncomeRecord[]>;
+}
+
+export interface HaltResult {
+  state: KillSwitchState;
+  canceled: string[]; // Exchanges whose open orders were canceled
+  cancelErrors: Record<string, string>;
+}
+
+export class KillSwitch {
+  private userId: number;
+  private riskManager: RiskManager;
+  private executionEngine: ExecutionEngine;
+  private dispatch: (alert: AlertEvent) => void;
+  private sources: KillSwitchSources;
+  private state: KillSwitchState = { halted: false, cancelOrdersOnHalt: false };
+  private lastEquity?: number;
+  private marks: Map<string, Mark> | null = null; // Holdings at the previous complete snapshot
+  private markedFrom = 0;
+  private fundingCountedTo: Record<string, number> = {};
+  private lastFundingCheck = 0;
+  private engaging = false;
+
+  constructor(
+    userId: number,
+    riskManager: RiskManager,
+    executionEngine: ExecutionEngine,
+    dispatch: (alert: AlertEvent) => void,
+    sources: KillSwitchSources
+  ) {
+    this.userId = userId;
+    this.riskManager = riskManager;
+    this.executionEngine = executionEngine;
+    this.dispatch = dispatch;
+    this.sources = sources;
+  }
+
+  /**
+   * Restore persisted state and marks (a halt and the day's baseline survive restarts)
+   */
+  async load(): Promise<void> {
+    this.state = await getRiskState(this.userId);
+    this.riskManager.setHalted(this.state.halted ? this.state.reason || 'kill switch engaged' : null);
+
+    const marks = await getRiskMarks(this.userId);
+    if (marks) {
+      this.marks = new Map(Object.entries(marks.holdings));
+      this.markedFrom = marks.markedFrom;
+      this.fundingCountedTo = marks.fundingCountedTo;
+    }
+  }
+
+  getState(): KillSwitchState {
+    return { ...this.state };
+  }
+
+  /**
+   * Accumulate the day's PnL from a new snapshot and check the daily loss limit
+   * (partial snapshots are skipped: missing exchanges would read as losses)
+   */
+  async evaluateSnapshot(snapshot: PortfolioSnapshot): Promise<void> {
+    if (snapshot.partial) return;
+    this.lastEquity = snapshot.totalNetEquity;
+
+    const marks = this.markSnapshot(snapshot);
+    let pnl = 0;
+    if (this.marks) {
+      marks.forEach((mark, key) => {
+        const previous = this.marks!.get(key);
+        if (previous && previous.price > 0 && mark.price > 0) {
+          pnl += previous.quantity * (mark.price - previous.price);
+        }
+      });
+    } else {
+      this.markedFrom = snapshot.timestamp;
+    }
+    this.marks = marks;
+    pnl += await this.collectFunding(snapshot.timestamp);
+
+    this.accumulate(pnl, snapshot.timestamp);
+    await this.persist();
+    await this.persistMarks();
+    await this.checkDailyLoss();
+  }
+
+  /**
+   * Count a fill's fee (or rebate) against the day
+   */
+  async recordTrade(trade: UnifiedTrade): Promise<void> {
+    if (!trade.fee || !trade.feeAsset) return;
+    const price = this.usdPrice(trade.exchange, trade.feeAsset);
+    if (price === undefined) {
+      console.warn(`[KillSwitch] No USD price for the ${trade.feeAsset} fee of trade ${trade.tradeId} on ${trade.exchange}; not counted`);
+      return;
+    }
+    if (!this.accumulate(-trade.fee * price, trade.timestamp)) return;
+    await this.persist();
+    await this.checkDailyLoss();
+  }
+
+  /**
+   * USD sum of today's funding paid (< 0) or received since the last counted payment per exchange
+   * (checked every FUNDING_CHECK_INTERVAL_MS)
+   */
+  private async collectFunding(now: number): Promise<number> {
+    if (now - this.lastFundingCheck < FUNDING_CHECK_INTERVAL_MS) return 0;
+
+    let payments: IncomeRecord[];
+    try {
+      payments = await this.sources.getFundingPayments();
+    } catch (error: any) {
+      console.warn(`[KillSwitch] Failed to fetch funding payments for user ${this.userId}:`, error.message || error);
+      return 0;
+    }
+    this.lastFundingCheck = now;
+
+    const dayStart = Math.floor(now / DAY_MS) * DAY_MS;
+    const countedTo = { ...this.fundingCountedTo }; // Payments of several symbols settle at the same time
+    let pnl = 0;
+    payments.forEach((payment) => {
+      if (payment.time <= (countedTo[payment.exchange] ?? this.markedFrom)) return;
+      const price = this.usdPrice(payment.exchange, payment.asset);
+      if (price === undefined) {
+        console.warn(`[KillSwitch] No USD price for ${payment.asset} funding on ${payment.exchange}; not counted`);
+      } else if (payment.time >= dayStart) {
+        pnl += payment.amount * price;
+      }
+      this.fundingCountedTo[payment.exchange] = Math.max(this.fundingCountedTo[payment.exchange] ?? 0, payment.time);
+    });
+    return pnl;
+  }
+
+  /**
+   * Add PnL to its UTC day (a new day starts from zero; false for a day already over)
+   */
+  private accumulate(amount: number, timestamp: number): boolean {
+    const dayStart = Math.floor(timestamp / DAY_MS) * DAY_MS;
+    if (this.state.dayStart !== undefined && dayStart < this.state.dayStart) return false;
+    const dailyPnl = (this.state.dayStart === dayStart ? this.state.dailyPnl ?? 0 : 0) + amount;
+    this.state = { ...this.state, dayStart, dailyPnl };
+    return true;
+  }
+
+  /**
+   * USD price of an asset from the last marks (stablecoins fall back to 1)
+   */
+  private usdPrice(exchange: string, asset: string): number | undefined {
+    for (const [key, mark] of this.marks || []) {
+      if (key.startsWith(`balance:${exchange}:`) && key.endsWith(`:${asset}`) && mark.price > 0) {
+        return mark.price;
+      }
+    }
+    return USD_ASSETS.includes(asset) ? 1 : undefined;
+  }
+
+  private async checkDailyLoss(): Promise<void> {
+    if (this.state.halted || this.engaging) return;
+
+    const { maxDailyLoss } = this.riskManager.getLimits();
+    const loss = -(this.state.dailyPnl ?? 0);
+    if (maxDailyLoss > 0 && loss >= maxDailyLoss) {
+      await this.engage(
+        'daily_loss',
+        `Daily loss $${loss.toFixed(2)} reached the limit of $${maxDailyLoss.toFixed(2)}`,
+        this.state.cancelOrdersOnHalt
+      );
+    }
+  }
+
+  /**
+   * Halt trading, optionally canceling open orders on every exchange
+   */
+  async engage(source: 'manual' | 'daily_loss', reason: string, cancelOrders: boolean): Promise<HaltResult> {
+    this.engaging = true;
+    try {
+      this.state = { ...this.state, halted: true, source, reason, haltedAt: Date.now() };
+      this.riskManager.setHalted(reason);
+      await this.persist();
+      console.warn(`[KillSwitch] Trading halted for user ${this.userId}: ${reason}`);
+
+      const canceled: string[] = [];
+      const cancelErrors: Record<string, string> = {};
+      if (cancelOrders) {
+        for (const exchange of this.executionEngine.getRegisteredExchanges()) {
+          try {
+            await this.executionEngine.cancelAllOrders(exchange);
+            canceled.push(exchange);
+          } catch (error: any) {
+            cancelErrors[exchange] = error.message || String(error);
+            console.error(`[KillSwitch] Failed to cancel orders on ${exchange} for user ${this.userId}:`, cancelErrors[exchange]);
+          }
+        }
+      }
+
+      this.dispatch({
+        type: 'trading_halted',
+        severity: 'critical',
+        message: `Trading halted: ${reason}`,
+        userId: this.userId,
+        timestamp: Date.now(),
+        data: { source, canceled, cancelErrors, dailyPnl: this.state.dailyPnl, equity: this.lastEquity },
+      });
+
+      return { state: this.getState(), canceled, cancelErrors };
+    } finally {
+      this.engaging = false;
+    }
+  }
+
+  /**
+   * Lift the halt. The daily PnL restarts from zero for the rest of the day so a breached
+   * limit doesn't immediately halt again.
+   */
+  async reset(): Promise<KillSwitchState> {
+    const previous = this.state.reason;
+    this.state = {
+      ...this.state,
+      halted: false,
+      source: undefined,
+      reason: undefined,
+      haltedAt: undefined,
+      dailyPnl: 0,
+    };
+    this.riskManager.setHalted(null);
+    await this.persist();
+    console.log(`[KillSwitch] Trading resumed for user ${this.userId}`);
+
+    this.dispatch({
+      type: 'trading_resumed',
+      severity: 'info',
+      message: 'Trading resumed after manual reset',
+      userId: this.userId,
+      timestamp: Date.now(),
+      data: { previousReason: previous },
+    });
+    return this.getState();
+  }
+
+  async setCancelOrdersOnHalt(enabled: boolean): Promise<KillSwitchState> {
+    this.state = { ...this.state, cancelOrdersOnHalt: enabled };
+    await this.persist();
+    return this.getState();
+  }
+
+  /**
+   * USD marks of every balance (by exchange, account and asset) and position (by exchange, symbol
+   * and side: hedge mode holds a long and a short of one symbol at once)
+   */
+  private markSnapshot(snapshot: PortfolioSnapshot): Map<string, Mark> {
+    const marks = new Map<string, Mark>();
+    snapshot.balances.forEach((b) => {
+      marks.set(`balance:${b.exchange}:${b.accountType || ''}:${b.asset}`, {
+        quantity: b.total,
+        price: b.total > 0 ? b.usdValue / b.total : 0,
+      });
+    });
+    snapshot.positions.forEach((p) => {
+      marks.set(`position:${p.exchange}:${p.symbol}:${p.side}`, {
+        quantity: p.side === 'long' ? p.size : -p.size,
+        price: p.markPrice,
+      });
+    });
+    return marks;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await saveRiskState(this.userId, this.state);
+    } catch (error: any) {
+      console.warn(`[KillSwitch] Failed to persist state for user ${this.userId}:`, error.message || error);
+    }
+  }
+
+  private async persistMarks(): Promise<void> {
+    if (!this.marks) return;
+    const marks: DailyPnlMarks = {
+      holdings: Object.fromEntries(this.marks),
+      markedFrom: this.markedFrom,
+      fundingCountedTo: this.fundingCountedTo,
+    };
+    try {
+      await saveRiskMarks(this.userId, marks);
+    } catch (error: any) {
+      console.warn(`[KillSwitch] Failed to persist marks for user ${this.userId}:`, error.message || error);
+    }
+  }
+}
@@ -7,6 +7,9 @@ import { Pool } from 'pg';
 import { config } from '../config';
 import { OrderResult, TradeFill } from '../types';
 
+// Orders are keyed by the unified symbol (BTCUSDT), whatever form the caller passed
+const unifiedSymbol = (symbol: string) => symbol.replace('/', '').toUpperCase();
+
 // Initialize PostgreSQL connection pool
 const pool = new Pool({
   host: config.database.host,
@@ -27,7 +30,7 @@ export class OrderStore {
           user_id, order_id, exchange, symbol, side, type, price, quantity,
           status, filled_quantity, remaining_quantity, created_at, timestamp
         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW(), $12)
-        ON CONFLICT (order_id, exchange) DO UPDATE SET
+        ON CONFLICT (user_id, exchange, symbol, order_id) DO UPDATE SET
           status = EXCLUDED.status,
           filled_quantity = EXCLUDED.filled_quantity,
           remaining_quantity = EXCLUDED.remaining_quantity
@@ -37,7 +40,7 @@ export class OrderStore {
         userId,
         order.orderId,
         order.exchange,
-        order.symbol,
+        unifiedSymbol(order.symbol),
         order.side,
         order.type,
         order.price,
@@ -59,13 +62,15 @@ export class OrderStore {
   }
 
   /**
-   * Update order status
+   * Update a user's order status (returns false if no stored order matched)
    */
   async updateOrder(
     orderId: string,
     exchange: string,
-    updates: Partial<OrderResult>
-  ): Promise<void> {
+    symbol: string,
+    updates: Partial<OrderResult>,
+    userId: number
+  ): Promise<boolean> {
     const fields: string[] = [];
     const values: any[] = [];
     let paramIndex = 1;
@@ -83,16 +88,17 @@ export class OrderStore {
       values.push(updates.remainingQuantity);
     }
 
-    if (fields.length === 0) return;
+    if (fields.length === 0) return false;
 
-    values.push(orderId, exchange);
+    values.push(userId, exchange, unifiedSymbol(symbol), orderId);
     const query = `
       UPDATE orders
       SET ${fields.join(', ')}, updated_at = NOW()
-      WHERE order_id = $${paramIndex++} AND exchange = $${paramIndex++}
+      WHERE user_id = $${paramIndex++} AND exchange = $${paramIndex++} AND symbol = $${paramIndex++} AND order_id = $${paramIndex++}
     `;
 
-    await pool.query(query, values);
+    const result = await pool.query(query, values);
+    return (result.rowCount ?? 0) > 0;
   }
 
   /**
@@ -102,9 +108,9 @@ export class OrderStore {
     const query = `
       INSERT INTO trades (
         user_id, trade_id, order_id, exchange, symbol, side, price, quantity,
-        fee, fee_asset, timestamp, created_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW())
-      ON CONFLICT (trade_id, exchange) DO NOTHING
+        fee, fee_asset, timestamp, market, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW())
+      ON CONFLICT (user_id, exchange, market, symbol, trade_id) DO NOTHING
     `;
 
     await pool.query(query, [
@@ -119,6 +125,7 @@ export class OrderStore {
       trade.fee,
       trade.feeAsset,
       trade.timestamp,
+      trade.market ?? null,
     ]);
   }
 
@@ -142,7 +149,7 @@ export class OrderStore {
       }
       if (symbol) {
         query += ` AND symbol = $${paramIndex++}`;
-        params.push(symbol);
+        params.push(unifiedSymbol(symbol));
       }
 
       query += ` ORDER BY created_at DESC LIMIT $${paramIndex++}`;
@@ -244,6 +251,7 @@ export class OrderStore {
           feeAsset: row.fee_asset,
           timestamp,
           exchange: row.exchange,
+          market: row.market || undefined,
         };
       });
     } catch (error: any) {
@@ -256,6 +264,45 @@ export class OrderStore {
       throw error;
     }
   }
+
+  /**
+   * Distinct symbols with stored trades on an exchange (unknown market is treated as spot)
+   */
+  async getTradedSymbols(userId: number, exchange: string): Promise<Array<{ symbol: string; market: 'spot' | 'futures' }>> {
+    const result = await pool.query(
+      `SELECT DISTINCT symbol, COALESCE(market, 'spot') AS market FROM trades WHERE user_id = $1 AND exchange = $2`,
+      [userId, exchange]
+    );
+    return result.rows.map((row: any) => ({ symbol: row.symbol, market: row.market }));
+  }
+
+  /**
+   * All spot trades (and trades of unknown market) in execution order, for lot tracking
+   */
+  async getSpotTrades(userId: number, exchange?: string): Promise<TradeFill[]> {
+    let query = `SELECT * FROM trades WHERE user_id = $1 AND (market IS NULL OR market = 'spot')`;
+    const params: any[] = [userId];
+    if (exchange) {
+      query += ' AND exchange = $2';
+      params.push(exchange);
+    }
+    query += ' ORDER BY timestamp ASC, id ASC';
+
+    const result = await pool.query(query, params);
+    return result.rows.map((row: any) => ({
+      tradeId: row.trade_id,
+      orderId: row.order_id,
+      symbol: row.symbol,
+      side: row.side as 'buy' | 'sell',
+      price: parseFloat(row.price || 0),
+      quantity: parseFloat(row.quantity || 0),
+      fee: parseFloat(row.fee || 0),
+      feeAsset: row.fee_asset,
+      timestamp: Number(row.timestamp),
+      exchange: row.exchange,
+      market: row.market || undefined,
+    }));
+  }
 }
 
 // Export singleton instance
@@ -1,29 +1,110 @@
 /**
  * Risk Manager
- * Pre-trade risk checks and validation
+ * Pre-trade risk checks and validation (one instance per user)
  */
 
 import {
   OrderParams,
   RiskCheckResult,
   RiskLimits,
+  RiskLimitEntry,
   PortfolioSnapshot,
+  OrderBook,
+  FillEstimate,
+  MarginMode,
 } from '../types';
+import { config } from '../config';
+
+const LIMIT_KEYS: Array<keyof RiskLimits> = [
+  'maxOrderSize',
+  'maxPositionSize',
+  'maxDrawdown',
+  'minBalance',
+  'maxDailyLoss',
+  'maxLeverage',
+  'minLiquidationDistance',
+];
+
+/**
+ * Position held before the order (size/value may be signed; the rest is needed for
+ * futures leverage and liquidation checks)
+ */
+export interface CurrentPosition {
+  size: number;
+  value: number;
+  side?: 'long' | 'short';
+  entryPrice?: number;
+  markPrice?: number;
+  leverage?: number;
+  marginMode?: MarginMode;
+}
 
 export class RiskManager {
   private limits: RiskLimits;
+  private overrides: RiskLimitEntry[] = [];
   private portfolioSnapshot: PortfolioSnapshot | null = null;
+  private haltReason: string | null = null;
 
   constructor(limits?: Partial<RiskLimits>) {
     this.limits = {
-      maxOrderSize: limits?.maxOrderSize || 100000, // $100k max per order
-      maxPositionSize: limits?.maxPositionSize || 500000, // $500k max position
-      maxDrawdown: limits?.maxDrawdown || -0.1, // -10% max drawdown
-      minBalance: limits?.minBalance || 100, // $100 minimum balance
+      maxOrderSize: config.risk.maxOrderSize,
+      maxPositionSize: config.risk.maxPositionSize,
+      maxDrawdown: config.risk.maxDrawdown,
+      minBalance: config.risk.minBalance,
+      maxDailyLoss: config.risk.maxDailyLoss,
+      maxLeverage: config.risk.maxLeverage,
+      minLiquidationDistance: config.risk.minLiquidationDistance,
       ...limits,
     };
   }
 
+  /**
+   * Block new non-reduce-only orders (null lifts the halt)
+   */
+  setHalted(reason: string | null): void {
+    this.haltReason = reason;
+  }
+
+  isHalted(): boolean {
+    return this.haltReason !== null;
+  }
+
+  /**
+   * Replace the user's stored overrides
+   */
+  setOverrides(overrides: RiskLimitEntry[]): void {
+    this.overrides = overrides;
+  }
+
+  getOverrides(): RiskLimitEntry[] {
+    return [...this.overrides];
+  }
+
+  /**
+   * Effective limits for an order: defaults, then user-wide, symbol, exchange and
+   * exchange+symbol overrides (most specific wins per field)
+   */
+  getLimits(exchange?: string, symbol?: string): RiskLimits {
+    const normalizedExchange = exchange?.toLowerCase();
+    const normalizedSymbol = symbol?.replace('/', '').toUpperCase();
+    const specificity = (entry: RiskLimitEntry) => (entry.exchange ? 2 : 0) + (entry.symbol ? 1 : 0);
+
+    const resolved = { ...this.limits };
+    this.overrides
+      .filter(
+        (entry) =>
+          (!entry.exchange || entry.exchange === normalizedExchange) &&
+          (!entry.symbol || entry.symbol === normalizedSymbol)
+      )
+      .sort((a, b) => specificity(a) - specificity(b))
+      .forEach((entry) => {
+        LIMIT_KEYS.forEach((key) => {
+          if (entry[key] !== undefined) resolved[key] = entry[key]!;
+        });
+      });
+    return resolved;
+  }
+
   /**
    * Update portfolio snapshot for risk checks
    */
@@ -32,69 +113,246 @@ export class RiskManager {
   }
 
   /**
-   * Validate order against risk limits
+   * Expected average fill for a market order walking the book (null if the side is empty)
+   */
+  estimateFill(book: OrderBook, side: 'buy' | 'sell', quantity: number): FillEstimate | null {
+    const levels = side === 'buy' ? book.asks : book.bids;
+    const bestBid = book.bids[0]?.price;
+    const bestAsk = book.asks[0]?.price;
+    if (levels.length === 0) return null;
+
+    let remaining = quantity;
+    let notional = 0;
+    for (const level of levels) {
+      const used = Math.min(level.quantity, remaining);
+      notional += used * level.price;
+      remaining -= used;
+      if (remaining <= 0) break;
+    }
+    // Depth beyond the visible book is priced at the worst visible level
+    const unfilledQuantity = Math.max(remaining, 0);
+    notional += unfilledQuantity * levels[levels.length - 1].price;
+
+    return {
+      price: notional / quantity,
+      referencePrice: bestBid && bestAsk ? (bestBid + bestAsk) / 2 : levels[0].price,
+      source: 'orderbook',
+      unfilledQuantity,
+    };
+  }
+
+  /**
+   * Estimated liquidation price of a one-way position: the price at which its margin, less
+   * losses, falls to the maintenance requirement. Isolated margin is notional / leverage;
+   * cross margin can also draw on `freeCollateral`. Returns null if it can't be liquidated.
+   */
+  estimateLiquidationPrice(
+    side: 'long' | 'short',
+    entryPrice: number,
+    size: number,
+    leverage: number,
+    marginMode: MarginMode,
+    freeCollateral: number = 0
+  ): number | null {
+    if (size <= 0 || entryPrice <= 0 || leverage <= 0) return null;
+    const mmr = config.risk.maintenanceMarginRate;
+    const margin = (size * entryPrice) / leverage + (marginMode === 'cross' ? Math.max(freeCollateral, 0) : 0);
+    const price =
+      side === 'long'
+        ? (size * entryPrice - margin) / (size * (1 - mmr))
+        : (size * entryPrice + margin) / (size * (1 + mmr));
+    return price > 0 ? price : null;
+  }
+
+  /**
+   * Validate order against risk limits (market orders need a fill estimate to be sized)
    */
   async validateOrder(
     orderParams: OrderParams,
     availableBalance: number,
-    currentPosition?: { size: number; value: number }
+    currentPosition?: CurrentPosition,
+    exchange?: string,
+    fillEstimate?: FillEstimate
   ): Promise<RiskCheckResult> {
     const warnings: string[] = [];
     const errors: string[] = [];
+    const limits = this.getLimits(exchange, orderParams.symbol);
+
+    if (this.haltReason !== null && !orderParams.reduceOnly) {
+      errors.push(`Trading halted: ${this.haltReason} (only reduce-only orders are accepted)`);
+    }
 
     // Check order size
     let orderValue = orderParams.price
       ? orderParams.quantity * orderParams.price
-      : 0; // Market orders - would need current price
+      : 0;
+
+    let slippage: number | undefined;
+    if (orderParams.type === 'market') {
+      if (fillEstimate) {
+        orderValue = orderParams.quantity * fillEstimate.price;
+        // Positive = worse than mid for this side
+        slippage = ((fillEstimate.price - fillEstimate.referencePrice) / fillEstimate.referencePrice) *
+          (orderParams.side === 'buy' ? 1 : -1);
+        if (slippage > config.risk.slippageWarning) {
+          warnings.push(`Estimated slippage ${(slippage * 100).toFixed(2)}% from mid ${fillEstimate.referencePrice}`);
+        }
+        if (fillEstimate.unfilledQuantity > 0) {
+          warnings.push(`Order exceeds visible book depth by ${fillEstimate.unfilledQuantity}; estimate priced at the last level`);
+        }
+      } else if (!orderParams.reduceOnly) {
+        errors.push('Unable to determine a price for market order');
+      }
+    }
 
     // If reduce-only and current position exists, use position value for sizing
     if (orderParams.reduceOnly && currentPosition) {
       orderValue = Math.abs(currentPosition.value);
     }
 
-    if (!orderParams.reduceOnly && orderValue > this.limits.maxOrderSize) {
+    if (!orderParams.reduceOnly && orderValue > limits.maxOrderSize) {
       errors.push(
-        `Order size ($${orderValue.toFixed(2)}) exceeds maximum ($${this.limits.maxOrderSize.toFixed(2)})`
+        `Order size ($${orderValue.toFixed(2)}) exceeds maximum ($${limits.maxOrderSize.toFixed(2)})`
       );
     }
 
     // Check position size
     if (currentPosition && !orderParams.reduceOnly) {
       const newPositionValue = currentPosition.value + orderValue;
-      if (newPositionValue > this.limits.maxPositionSize) {
+      if (newPositionValue > limits.maxPositionSize) {
         errors.push(
-          `Position size would exceed maximum ($${this.limits.maxPositionSize.toFixed(2)})`
+          `Position size would exceed maximum ($${limits.maxPositionSize.toFixed(2)})`
+        );
+      }
+    }
+
+    let liquidation: { price: number; distance: number } | undefined;
+    // Without an explicit or open-position leverage the exchange applies the symbol's configured one
+    const leverage = orderParams.leverage ?? currentPosition?.leverage;
+    if (orderParams.market === 'futures' && !orderParams.reduceOnly) {
+      // Orders that only shrink an existing position aren't held to a cap lowered after it opened
+      const increases = this.increasesPosition(orderParams, currentPosition);
+      if (leverage === undefined) {
+        if (increases) errors.push('Leverage is required for futures orders that open or increase a position');
+      } else {
+        if ((orderParams.leverage !== undefined || increases) && leverage > limits.maxLeverage) {
+          errors.push(`Leverage ${leverage}x exceeds maximum (${limits.maxLeverage}x)`);
+        }
+        liquidation = this.estimateResultingLiquidation(
+          orderParams,
+          leverage,
+          availableBalance,
+          currentPosition,
+          fillEstimate
+        );
+      }
+      if (liquidation && limits.minLiquidationDistance > 0 && liquidation.distance < limits.minLiquidationDistance) {
+        errors.push(
+          `Estimated liquidation price ${liquidation.price.toFixed(8)} is ${(liquidation.distance * 100).toFixed(2)}% ` +
+            `from the current price (minimum ${(limits.minLiquidationDistance * 100).toFixed(2)}%)`
         );
       }
     }
 
     // Check balance sufficiency
-    if (!orderParams.reduceOnly && orderParams.side === 'buy' && orderValue > availableBalance) {
+    // Futures orders only need margin, not the full notional
+    const requiredBalance =
+      orderParams.market === 'futures' ? orderValue / (leverage ?? 1) : orderValue;
+    if (
+      !orderParams.reduceOnly &&
+      (orderParams.side === 'buy' || orderParams.market === 'futures') &&
+      requiredBalance > availableBalance
+    ) {
       errors.push('Insufficient balance for order');
     }
 
     // Check portfolio drawdown
     if (this.portfolioSnapshot) {
       const drawdown = this.portfolioSnapshot.totalUnrealizedPnl / this.portfolioSnapshot.totalNetEquity;
-      if (drawdown < this.limits.maxDrawdown) {
+      if (drawdown < limits.maxDrawdown) {
         errors.push(
-          `Portfolio drawdown (${(drawdown * 100).toFixed(2)}%) exceeds limit (${(this.limits.maxDrawdown * 100).toFixed(2)}%)`
+          `Portfolio drawdown (${(drawdown * 100).toFixed(2)}%) exceeds limit (${(limits.maxDrawdown * 100).toFixed(2)}%)`
         );
       }
     }
 
     // Check minimum balance
-    if (availableBalance < this.limits.minBalance) {
-      warnings.push(`Balance ($${availableBalance.toFixed(2)}) is below recommended minimum ($${this.limits.minBalance})`);
+    if (availableBalance < limits.minBalance) {
+      warnings.push(`Balance ($${availableBalance.toFixed(2)}) is below recommended minimum ($${limits.minBalance})`);
     }
 
     return {
       allowed: errors.length === 0,
       reason: errors.length > 0 ? errors.join('; ') : undefined,
       warnings: warnings.length > 0 ? warnings : undefined,
+      estimatedPrice: fillEstimate?.price,
+      referencePrice: fillEstimate?.referencePrice,
+      slippage,
+      liquidationPrice: liquidation?.price,
+      liquidationDistance: liquidation?.distance,
     };
   }
 
+  /**
+   * Liquidation estimate for the futures position left after the order, and its distance from
+   * the current price (undefined when the order only reduces the position or can't be priced)
+   */
+  private estimateResultingLiquidation(
+    orderParams: OrderParams,
+    leverage: number,
+    availableBalance: number,
+    currentPosition?: CurrentPosition,
+    fillEstimate?: FillEstimate
+  ): { price: number; distance: number } | undefined {
+    const price = orderParams.price ?? fillEstimate?.price;
+    if (!price) return undefined;
+
+    if (!this.increasesPosition(orderParams, currentPosition)) return undefined;
+    const currentSize = this.signedSize(currentPosition);
+    const orderSize = orderParams.quantity * (orderParams.side === 'buy' ? 1 : -1);
+    const resultingSize = currentSize + orderSize;
+
+    // Adding to the position averages the entry; opening or flipping enters at the order price
+    const entryPrice =
+      Math.sign(currentSize) === Math.sign(orderSize) && currentPosition?.entryPrice
+        ? (Math.abs(currentSize) * currentPosition.entryPrice + orderParams.quantity * price) / Math.abs(resultingSize)
+        : price;
+    const side = resultingSize > 0 ? 'long' : 'short';
+    // An unknown mode is estimated as isolated, the nearer of the two liquidation prices
+    const marginMode = orderParams.marginMode ?? currentPosition?.marginMode ?? 'isolated';
+    // Cross margin can draw on whatever collateral this order doesn't lock up
+    const freeCollateral = availableBalance - (orderParams.quantity * price) / leverage;
+
+    const liquidationPrice = this.estimateLiquidationPrice(
+      side,
+      entryPrice,
+      Math.abs(resultingSize),
+      leverage,
+      marginMode,
+      freeCollateral
+    );
+    if (liquidationPrice === null) return undefined;
+
+    const reference = fillEstimate?.referencePrice ?? currentPosition?.markPrice ?? price;
+    const distance = (side === 'long' ? reference - liquidationPrice : liquidationPrice - reference) / reference;
+    return { price: liquidationPrice, distance };
+  }
+
+  /**
+   * Whether the order grows the position or opens/flips it (false if it only reduces it)
+   */
+  private increasesPosition(orderParams: OrderParams, currentPosition?: CurrentPosition): boolean {
+    const currentSize = this.signedSize(currentPosition);
+    const resultingSize = currentSize + orderParams.quantity * (orderParams.side === 'buy' ? 1 : -1);
+    return Math.abs(resultingSize) > Math.abs(currentSize) || resultingSize * currentSize < 0;
+  }
+
+  private signedSize(position?: CurrentPosition): number {
+    if (!position) return 0;
+    const side = position.side ?? (position.size >= 0 ? 'long' : 'short');
+    return Math.abs(position.size) * (side === 'long' ? 1 : -1);
+  }
+
   /**
    * Check order size
    */
@@ -137,6 +395,3 @@ export class RiskManager {
     return price > 0 && price < 1000000000; // Reasonable bounds
   }
 }
-
-// Export singleton instance
-export const riskManager = new RiskManager();
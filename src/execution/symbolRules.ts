@@ -0,0 +1,113 @@
+/**
+ * Symbol Rules
+ * Rounds orders onto an exchange's price/quantity grid and rejects those that would fail its
+ * filters (PRICE_FILTER, LOT_SIZE, MIN_NOTIONAL, MAX_POSITION) before they are sent
+ */
+
+import { OrderParams, SymbolRules } from '../types';
+
+export interface SymbolRulesResult {
+  order: OrderParams; // Rounded copy of the order
+  adjustments: string[];
+  errors: string[];
+}
+
+/**
+ * Decimal places of a step (0.001 -> 3, 2.5e-4 -> 5), used to strip float noise after rounding
+ */
+function stepDecimals(step: number): number {
+  const [mantissa, exponent] = step.toExponential().split('e');
+  return Math.max(0, (mantissa.split('.')[1] || '').length - parseInt(exponent, 10));
+}
+
+function roundToStep(value: number, step: number, direction: 'down' | 'up'): number {
+  if (step <= 0) return value;
+  // Tolerance keeps values already on the grid from moving a full step
+  const steps = direction === 'down' ? Math.floor(value / step + 1e-9) : Math.ceil(value / step - 1e-9);
+  return Number((steps * step).toFixed(stepDecimals(step)));
+}
+
+/**
+ * Apply a symbol's trading rules to an order. Quantities are floored to the step size and
+ * prices moved to the tick on the passive side (down for buys, up for sells).
+ * `referencePrice` sizes market orders for notional checks; `baseHoldings` is the current
+ * base-asset balance for MAX_POSITION.
+ */
+export function applySymbolRules(
+  orderParams: OrderParams,
+  rules: SymbolRules,
+  referencePrice?: number,
+  baseHoldings: number = 0
+): SymbolRulesResult {
+  const order = { ...orderParams };
+  const adjustments: string[] = [];
+  const errors: string[] = [];
+  const isMarket = order.type === 'market';
+
+  if (!rules.trading) {
+    errors.push(`${rules.symbol} is not currently trading on ${rules.exchange}`);
+  }
+
+  // PRICE_FILTER
+  const priceDirection = order.side === 'buy' ? 'down' : 'up';
+  if (order.price !== undefined && !isMarket) {
+    const price = roundToStep(order.price, rules.tickSize, priceDirection);
+    if (price !== order.price) {
+      adjustments.push(`Price rounded from ${order.price} to ${price} (tick size ${rules.tickSize})`);
+      order.price = price;
+    }
+    if (rules.minPrice !== undefined && price < rules.minPrice) {
+      errors.push(`Price ${price} is below the minimum ${rules.minPrice} for ${rules.symbol} (PRICE_FILTER)`);
+    }
+    if (rules.maxPrice !== undefined && price > rules.maxPrice) {
+      errors.push(`Price ${price} is above the maximum ${rules.maxPrice} for ${rules.symbol} (PRICE_FILTER)`);
+    }
+  }
+  if (order.stopPrice !== undefined) {
+    const stopPrice = roundToStep(order.stopPrice, rules.tickSize, priceDirection);
+    if (stopPrice !== order.stopPrice) {
+      adjustments.push(`Stop price rounded from ${order.stopPrice} to ${stopPrice} (tick size ${rules.tickSize})`);
+      order.stopPrice = stopPrice;
+    }
+  }
+
+  // LOT_SIZE / MARKET_LOT_SIZE
+  const quantity = roundToStep(order.quantity, rules.stepSize, 'down');
+  if (quantity !== order.quantity) {
+    adjustments.push(`Quantity rounded from ${order.quantity} to ${quantity} (step size ${rules.stepSize})`);
+    order.quantity = quantity;
+  }
+  const minQuantity = (isMarket ? rules.marketMinQuantity : undefined) ?? rules.minQuantity;
+  const maxQuantity = (isMarket ? rules.marketMaxQuantity : undefined) ?? rules.maxQuantity;
+  if (quantity <= 0 || quantity < minQuantity) {
+    errors.push(`Quantity ${quantity} is below the minimum ${minQuantity} for ${rules.symbol} (LOT_SIZE)`);
+  }
+  if (maxQuantity !== undefined && quantity > maxQuantity) {
+    errors.push(`Quantity ${quantity} is above the maximum ${maxQuantity} for ${rules.symbol} (LOT_SIZE)`);
+  }
+
+  // MIN_NOTIONAL / NOTIONAL (exchanges waive these for reduce-only orders)
+  const price = isMarket ? (rules.minNotionalAppliesToMarket ? referencePrice : undefined) : order.price;
+  if (price !== undefined && !order.reduceOnly) {
+    const notional = quantity * price;
+    if (rules.minNotional !== undefined && notional < rules.minNotional) {
+      errors.push(
+        `Order value ${notional.toFixed(8)} ${rules.quoteAsset} is below the minimum ${rules.minNotional} for ${rules.symbol} (MIN_NOTIONAL)`
+      );
+    }
+    if (rules.maxNotional !== undefined && notional > rules.maxNotional) {
+      errors.push(
+        `Order value ${notional.toFixed(8)} ${rules.quoteAsset} is above the maximum ${rules.maxNotional} for ${rules.symbol} (NOTIONAL)`
+      );
+    }
+  }
+
+  // MAX_POSITION (spot holdings of the base asset after a buy)
+  if (rules.maxPosition !== undefined && order.side === 'buy' && baseHoldings + quantity > rules.maxPosition) {
+    errors.push(
+      `Holding ${baseHoldings + quantity} ${rules.baseAsset} would exceed the maximum position ${rules.maxPosition} for ${rules.symbol} (MAX_POSITION)`
+    );
+  }
+
+  return { order, adjustments, errors };
+}
@@ -9,8 +9,21 @@ import WebSocket from 'ws';
 import { config } from './config';
 import { createRoutes } from './api/routes';
 import { createAuthRoutes } from './api/authRoutes';
+import { createAlertRoutes } from './api/alertRoutes';
+import { createWebhookRoutes } from './api/webhookRoutes';
+import { createNotificationRoutes } from './api/notificationRoutes';
+import { createBackfillRoutes } from './api/backfillRoutes';
+import { createPnlRoutes } from './api/pnlRoutes';
+import { createReportRoutes } from './api/reportRoutes';
+import { createRiskRoutes } from './api/riskRoutes';
+import { createMarketRoutes } from './api/marketRoutes';
 import { EventBus } from './realtime/eventBus';
 import { UserContextService } from './auth/userContextService';
+import { SnapshotScheduler } from './realtime/scheduler';
+import { WebhookDispatcher } from './realtime/webhookDispatcher';
+import { NotificationService } from './notifications/notificationService';
+import { SmtpChannel } from './notifications/smtpChannel';
+import { BackfillService } from './execution/backfillService';
 import * as authService from './auth/authService';
 
 // Initialize services
@@ -20,6 +33,29 @@ const wss = new WebSocket.Server({ server });
 
 const eventBus = new EventBus();
 const userContextService = new UserContextService(eventBus);
+const snapshotScheduler = new SnapshotScheduler(userContextService, eventBus);
+const webhookDispatcher = new WebhookDispatcher();
+const notificationService = new NotificationService([new SmtpChannel()]);
+const backfillService = new BackfillService(userContextService);
+
+// Webhooks: alerts and order/trade updates published by this instance go to the owner's endpoints
+eventBus.onAlertPublished((alert) => {
+  if (alert.userId !== undefined) {
+    webhookDispatcher.notify(alert.userId, 'alert', alert);
+  }
+});
+eventBus.onUpdatePublished((update, userId) => {
+  if (userId !== undefined && (update.type === 'order' || update.type === 'trade')) {
+    webhookDispatcher.notify(userId, update.type, update.data);
+  }
+});
+
+// Notifications: critical alerts are emailed immediately, others batched into digests
+eventBus.onAlertPublished((alert) => {
+  notificationService.handleAlert(alert).catch((error) => {
+    console.error('[Server] Notification delivery failed:', error);
+  });
+});
 
 // Middleware
 app.use(express.json());
@@ -48,6 +84,30 @@ app.get('/', (req, res) => {
 // Auth routes (no JWT)
 app.use('/api/auth', createAuthRoutes());
 
+// Alert routes (JWT required; per-user rules)
+app.use('/api/alerts', createAlertRoutes(userContextService));
+
+// Webhook routes (JWT required; per-user endpoints)
+app.use('/api/webhooks', createWebhookRoutes(webhookDispatcher));
+
+// Notification routes (JWT required; per-user channels)
+app.use('/api/notifications', createNotificationRoutes(notificationService));
+
+// Backfill routes (JWT required; per-user import jobs)
+app.use('/api/backfill', createBackfillRoutes(backfillService));
+
+// PnL routes (JWT required; computed from stored trades)
+app.use('/api/pnl', createPnlRoutes(userContextService));
+
+// Report routes (JWT required; tax exports)
+app.use('/api/reports', createReportRoutes(userContextService));
+
+// Risk routes (JWT required; per-user limits)
+app.use('/api/risk', createRiskRoutes(userContextService));
+
+// Market routes (JWT required; symbol trading rules)
+app.use('/api/markets', createMarketRoutes(userContextService));
+
 // API routes (JWT required; per-user PM/EE)
 app.use('/api', createRoutes(eventBus, userContextService));
 
@@ -103,7 +163,7 @@ wss.on('connection', (ws: ClientWithUser) => {
   });
 });
 
-// Event bus: broadcast updates only to the user who owns the data
+// Event bus: broadcast updates, snapshots and alerts only to the user who owns the data
 eventBus.initialize().then(async () => {
   eventBus.subscribeToUpdates((update, userId) => {
     const payload = JSON.stringify({ type: 'update', data: update });
@@ -114,14 +174,35 @@ eventBus.initialize().then(async () => {
     });
   });
 
+  eventBus.subscribeToSnapshots((snapshot, userId) => {
+    const payload = JSON.stringify({ type: 'snapshot', data: snapshot });
+    clients.forEach((client) => {
+      if (client.readyState === WebSocket.OPEN && client.userId === userId) {
+        client.send(payload);
+      }
+    });
+  });
+
   eventBus.subscribeToAlerts((alert) => {
+    if (alert.userId === undefined) {
+      console.warn(`[WebSocket] Dropping alert without userId: ${alert.type}`);
+      return;
+    }
     const payload = JSON.stringify({ type: 'alert', data: alert });
     clients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
+      if (client.readyState === WebSocket.OPEN && client.userId === alert.userId) {
         client.send(payload);
       }
     });
   });
+
+  notificationService.start();
+
+  if (config.scheduler.enabled) {
+    snapshotScheduler.start().catch((error) => {
+      console.error('[Server] Failed to start snapshot scheduler:', error);
+    });
+  }
 });
 
 // Start server and ensure dev account
@@ -142,11 +223,18 @@ server.listen(PORT, async () => {
   } catch (e) {
     console.warn('[Server] Could not ensure dev account (DB may not be ready):', (e as Error).message);
   }
+
+  backfillService.resumeInterrupted().catch((error) => {
+    console.error('[Server] Failed to resume backfill jobs:', error.message || error);
+  });
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('[Server] Shutting down...');
+  snapshotScheduler.stop();
+  backfillService.stop();
+  notificationService.stop().catch(() => {});
   server.close(() => {
     console.log('[Server] Closed');
     process.exit(0);
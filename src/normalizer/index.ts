@@ -14,6 +14,24 @@ import {
   UnifiedTrade,
 } from '../types';
 
+// Quote currencies recognised when splitting concatenated symbols (longest first)
+export const QUOTE_CURRENCIES = ['USDT', 'USDC', 'FDUSD', 'BUSD', 'TUSD', 'DAI', 'USD', 'EUR', 'BTC', 'ETH', 'BNB'];
+
+/**
+ * Split a symbol (BTCUSDT, BTC/USDT or BTC-USDT) into base and quote assets
+ */
+export function splitSymbol(symbol: string): { base: string; quote: string } | null {
+  const upper = symbol.toUpperCase();
+  const separator = upper.match(/[/-]/);
+  if (separator) {
+    const [base, quote] = upper.split(separator[0]);
+    return base && quote ? { base, quote } : null;
+  }
+
+  const quote = QUOTE_CURRENCIES.find((q) => upper.endsWith(q) && upper.length > q.length);
+  return quote ? { base: upper.slice(0, -quote.length), quote } : null;
+}
+
 export interface Normalizer {
   normalizeBalance(raw: RawBalance, exchange: string, usdPrice?: number): UnifiedBalance;
   normalizePosition(raw: RawPosition, exchange: string): UnifiedPosition;
@@ -51,6 +69,8 @@ export class BaseNormalizer implements Normalizer {
       markPrice: raw.markPrice,
       unrealizedPnl,
       leverage: raw.leverage || 1,
+      liquidationPrice: raw.liquidationPrice,
+      marginMode: raw.marginMode,
       exchange,
       timestamp: Date.now(),
     };
@@ -66,6 +86,11 @@ export class BaseNormalizer implements Normalizer {
       timestamp: raw.timestamp,
       exchange,
       orderId: raw.orderId,
+      type: raw.type,
+      filledQuantity: raw.filledQuantity,
+      averagePrice: raw.averagePrice,
+      clientOrderId: raw.clientOrderId,
+      market: raw.market,
     };
   }
 
@@ -84,6 +109,9 @@ export class BaseNormalizer implements Normalizer {
       timestamp: raw.timestamp,
       exchange,
       tradeId: raw.tradeId,
+      orderId: raw.orderId,
+      feeAsset: raw.feeAsset,
+      market: raw.market,
     };
   }
 }
@@ -98,7 +126,45 @@ export class BybitNormalizer extends BaseNormalizer {
 }
 
 export class OKXNormalizer extends BaseNormalizer {
-  // Override methods if OKX-specific normalization is needed
+  /**
+   * Convert an OKX instId into the unified symbol format
+   * BTC-USDT -> BTCUSDT, BTC-USDT-SWAP -> BTCUSDT, BTC-USD-240628 -> BTCUSD_240628
+   */
+  static fromInstId(instId: string): string {
+    const [base, quote, suffix] = instId.split('-');
+    if (!quote) return instId;
+    if (suffix && suffix !== 'SWAP') {
+      return `${base}${quote}_${suffix}`;
+    }
+    return `${base}${quote}`;
+  }
+
+  /**
+   * Convert a unified symbol (BTCUSDT or BTC/USDT) into an OKX instId
+   */
+  static toInstId(symbol: string, market: 'spot' | 'futures' = 'spot'): string {
+    if (symbol.includes('-')) return symbol;
+
+    const pair = splitSymbol(symbol);
+    if (!pair) {
+      throw new Error(`Cannot derive OKX instrument from symbol: ${symbol}`);
+    }
+
+    const instId = `${pair.base}-${pair.quote}`;
+    return market === 'futures' ? `${instId}-SWAP` : instId;
+  }
+
+  normalizePosition(raw: RawPosition, exchange: string): UnifiedPosition {
+    return super.normalizePosition({ ...raw, symbol: OKXNormalizer.fromInstId(raw.symbol) }, exchange);
+  }
+
+  normalizeOrder(raw: RawOrder, exchange: string): UnifiedOrder {
+    return super.normalizeOrder({ ...raw, symbol: OKXNormalizer.fromInstId(raw.symbol) }, exchange);
+  }
+
+  normalizeTrade(raw: RawTrade, exchange: string): UnifiedTrade {
+    return super.normalizeTrade({ ...raw, symbol: OKXNormalizer.fromInstId(raw.symbol) }, exchange);
+  }
 }
 
 export class CoinbaseNormalizer extends BaseNormalizer {
@@ -0,0 +1,116 @@
+/**
+ * NotificationService email delivery through SmtpChannel to a local SMTP catcher
+ */
+
+import { AddressInfo } from 'net';
+import { SMTPServer } from 'smtp-server';
+import { NotificationService } from '../notificationService';
+import { SmtpChannel } from '../smtpChannel';
+import { getChannelsByUserId } from '../../database/notificationChannels';
+import { AlertEvent, NotificationChannelSettings } from '../../types';
+
+jest.mock('../../database/notificationChannels', () => ({
+  getChannelsByUserId: jest.fn(),
+}));
+
+interface CaughtMail {
+  to: string[];
+  raw: string;
+  subject: string;
+}
+
+const USER_ID = 7;
+const TARGET = 'trader@example.com';
+
+function emailSettings(overrides: Partial<NotificationChannelSettings> = {}): NotificationChannelSettings {
+  return {
+    userId: USER_ID,
+    channel: 'email',
+    target: TARGET,
+    enabled: true,
+    digestEnabled: true,
+    updatedAt: 1717977600000,
+    ...overrides,
+  };
+}
+
+function alert(type: AlertEvent['type'], severity: AlertEvent['severity'], message: string, timestamp: number): AlertEvent {
+  return { type, severity, message, exchange: 'binance', userId: USER_ID, timestamp };
+}
+
+describe('NotificationService over SMTP', () => {
+  let server: SMTPServer;
+  let channel: SmtpChannel;
+  let service: NotificationService;
+  let inbox: CaughtMail[];
+
+  beforeAll(async () => {
+    server = new SMTPServer({
+      authOptional: true,
+      disabledCommands: ['STARTTLS'],
+      logger: false,
+      onData(stream, session, callback) {
+        const chunks: Buffer[] = [];
+        stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+        stream.on('end', () => {
+          const raw = Buffer.concat(chunks).toString('utf8');
+          inbox.push({
+            to: session.envelope.rcptTo.map((r) => r.address),
+            raw,
+            subject: raw.match(/^Subject: (.*)$/m)?.[1].trim() || '',
+          });
+          callback();
+        });
+      },
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.server.address() as AddressInfo;
+    channel = new SmtpChannel({ host: '127.0.0.1', port, secure: false, user: '', from: 'Portfolio Monitor <alerts@localhost>' });
+  });
+
+  afterAll(async () => {
+    channel.close();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    inbox = [];
+    service = new NotificationService([channel], 60_000);
+    (getChannelsByUserId as jest.Mock).mockResolvedValue([emailSettings()]);
+  });
+
+  it('emails a critical alert immediately', async () => {
+    await service.handleAlert(alert('rapid_drawdown', 'critical', 'Equity fell 12% in 5 minutes', 1718000000000));
+
+    expect(inbox).toHaveLength(1);
+    expect(inbox[0].to).toEqual([TARGET]);
+    expect(inbox[0].subject).toBe('[CRITICAL] Rapid drawdown on binance');
+    expect(inbox[0].raw).toContain('Equity fell 12% in 5 minutes');
+  });
+
+  it('batches non-critical alerts into one digest sent on flush', async () => {
+    await service.handleAlert(alert('large_balance_change', 'warning', 'USDT balance changed by 4,000', 1718000060000));
+    await service.handleAlert(alert('large_position_opening', 'info', 'Opened BTCUSDT long 0.5', 1718000000000));
+    expect(inbox).toHaveLength(0);
+
+    await service.flushDigests();
+
+    expect(inbox).toHaveLength(1);
+    expect(inbox[0].to).toEqual([TARGET]);
+    expect(inbox[0].subject).toBe('Portfolio alert digest: 2 alerts');
+    // Oldest first
+    expect(inbox[0].raw.indexOf('Opened BTCUSDT long')).toBeLessThan(inbox[0].raw.indexOf('USDT balance changed'));
+
+    await service.flushDigests();
+    expect(inbox).toHaveLength(1);
+  });
+
+  it('drops non-critical alerts when the channel has digests turned off', async () => {
+    (getChannelsByUserId as jest.Mock).mockResolvedValue([emailSettings({ digestEnabled: false })]);
+
+    await service.handleAlert(alert('large_balance_change', 'warning', 'USDT balance changed by 4,000', 1718000060000));
+    await service.flushDigests();
+
+    expect(inbox).toHaveLength(0);
+  });
+});
@@ -0,0 +1,14 @@
+/**
+ * Notification channel abstraction (one implementation per delivery mechanism)
+ */
+
+import { NotificationChannelType, NotificationMessage } from '../types';
+
+export interface NotificationChannel {
+  readonly type: NotificationChannelType;
+
+  /**
+   * Deliver a rendered message (throws on failure)
+   */
+  send(message: NotificationMessage): Promise<void>;
+}
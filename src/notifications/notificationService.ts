@@ -0,0 +1,131 @@
+/**
+ * Notification Service
+ * Routes alerts to users' notification channels: critical alerts are sent immediately,
+ * other severities are batched into a periodic digest (per channel setting)
+ */
+
+import { AlertEvent, NotificationChannelSettings, NotificationChannelType } from '../types';
+import { NotificationChannel } from './channel';
+import { renderAlert, renderDigest, renderTest } from './templates';
+import { getChannelsByUserId } from '../database/notificationChannels';
+import { config } from '../config';
+
+export class NotificationService {
+  private channels: Map<NotificationChannelType, NotificationChannel> = new Map();
+  private settings: Map<number, NotificationChannelSettings[]> = new Map();
+  private pendingDigests: Map<string, { settings: NotificationChannelSettings; alerts: AlertEvent[] }> = new Map();
+  private digestTimer: NodeJS.Timeout | null = null;
+  private digestIntervalMs: number;
+
+  constructor(channels: NotificationChannel[], digestIntervalMs: number = config.notifications.digestIntervalMs) {
+    channels.forEach((channel) => this.channels.set(channel.type, channel));
+    this.digestIntervalMs = digestIntervalMs;
+  }
+
+  /**
+   * Start the digest timer
+   */
+  start(): void {
+    if (this.digestTimer) return;
+    this.digestTimer = setInterval(() => {
+      this.flushDigests().catch((error) => {
+        console.error('[Notifications] Digest flush failed:', error);
+      });
+    }, this.digestIntervalMs);
+  }
+
+  /**
+   * Stop the digest timer and send what is pending
+   */
+  async stop(): Promise<void> {
+    if (this.digestTimer) {
+      clearInterval(this.digestTimer);
+      this.digestTimer = null;
+    }
+    await this.flushDigests();
+  }
+
+  /**
+   * Route an alert to the owner's enabled channels
+   */
+  async handleAlert(alert: AlertEvent): Promise<void> {
+    if (alert.userId === undefined) return;
+
+    let settingsList: NotificationChannelSettings[];
+    try {
+      settingsList = await this.getSettings(alert.userId);
+    } catch (error: any) {
+      console.warn(`[Notifications] Failed to load channels for user ${alert.userId}:`, error.message || error);
+      return;
+    }
+
+    for (const settings of settingsList) {
+      if (!settings.enabled) continue;
+      const channel = this.channels.get(settings.channel);
+      if (!channel) continue;
+
+      if (alert.severity === 'critical') {
+        try {
+          await channel.send(renderAlert(alert, settings.target));
+        } catch (error: any) {
+          console.error(`[Notifications] Failed to send ${settings.channel} alert to user ${alert.userId}:`, error.message || error);
+        }
+      } else if (settings.digestEnabled) {
+        const key = `${settings.userId}:${settings.channel}`;
+        const pending = this.pendingDigests.get(key) || { settings, alerts: [] };
+        pending.settings = settings;
+        pending.alerts.push(alert);
+        this.pendingDigests.set(key, pending);
+      }
+    }
+  }
+
+  /**
+   * Send one digest per channel for everything batched since the last flush
+   */
+  async flushDigests(): Promise<void> {
+    const pending = Array.from(this.pendingDigests.values());
+    this.pendingDigests.clear();
+
+    for (const { settings, alerts } of pending) {
+      const channel = this.channels.get(settings.channel);
+      if (!channel || alerts.length === 0) continue;
+      try {
+        await channel.send(renderDigest(alerts, settings.target));
+      } catch (error: any) {
+        console.error(`[Notifications] Failed to send ${settings.channel} digest to user ${settings.userId}:`, error.message || error);
+      }
+    }
+  }
+
+  /**
+   * Send a test message through one of the user's channels (throws on failure)
+   */
+  async sendTest(userId: number, channelType: NotificationChannelType): Promise<void> {
+    const settings = (await this.getSettings(userId)).find((s) => s.channel === channelType);
+    if (!settings) {
+      throw new Error(`No ${channelType} channel configured`);
+    }
+    const channel = this.channels.get(channelType);
+    if (!channel) {
+      throw new Error(`Channel ${channelType} is not available`);
+    }
+    await channel.send(renderTest(settings.target));
+  }
+
+  /**
+   * Drop cached settings after they change
+   */
+  invalidate(userId: number): void {
+    this.settings.delete(userId);
+  }
+
+  private async getSettings(userId: number): Promise<NotificationChannelSettings[]> {
+    let settings = this.settings.get(userId);
+    if (!settings) {
+      settings = await getChannelsByUserId(userId);
+      this.settings.set(userId, settings);
+    }
+    return settings;
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * SMTP email channel (nodemailer)
+ */
+
+import nodemailer, { Transporter } from 'nodemailer';
+import { NotificationChannel } from './channel';
+import { NotificationMessage } from '../types';
+import { config } from '../config';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  password: string;
+  from: string;
+}
+
+export class SmtpChannel implements NotificationChannel {
+  readonly type = 'email' as const;
+  private transporter: Transporter;
+  private from: string;
+
+  constructor(options: Partial<SmtpOptions> = {}) {
+    const smtp: SmtpOptions = { ...config.smtp, ...options };
+    this.from = smtp.from;
+    this.transporter = nodemailer.createTransport({
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.secure,
+      // Local SMTP catchers accept unauthenticated mail
+      auth: smtp.user ? { user: smtp.user, pass: smtp.password } : undefined,
+    });
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+
+  /**
+   * Close pooled connections
+   */
+  close(): void {
+    this.transporter.close();
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Notification templates
+ * Render AlertEvents (including the monitor's `data` payload) as plain text and HTML
+ */
+
+import { AlertEvent, NotificationMessage } from '../types';
+
+const SEVERITY_COLORS: Record<AlertEvent['severity'], string> = {
+  critical: '#ef4444',
+  warning: '#f59e0b',
+  info: '#3b82f6',
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * e.g. previousEquity -> Previous Equity
+ */
+function humanizeKey(key: string): string {
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatValue(key: string, value: any): string {
+  if (value === null || value === undefined) return '-';
+  if (typeof value === 'number') {
+    if (/percent$/i.test(key)) return `${value.toFixed(2)}%`;
+    return value.toLocaleString('en-US', { maximumFractionDigits: 8 });
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function alertTitle(alert: AlertEvent): string {
+  return humanizeKey(alert.type);
+}
+
+function dataRows(alert: AlertEvent): Array<[string, string]> {
+  if (!alert.data || typeof alert.data !== 'object') return [];
+  return Object.entries(alert.data).map(([key, value]) => [humanizeKey(key), formatValue(key, value)]);
+}
+
+function renderAlertText(alert: AlertEvent): string {
+  const lines = [
+    `[${alert.severity.toUpperCase()}] ${alertTitle(alert)}`,
+    alert.message,
+    `Time: ${new Date(alert.timestamp).toISOString()}`,
+  ];
+  if (alert.exchange) lines.push(`Exchange: ${alert.exchange}`);
+  dataRows(alert).forEach(([label, value]) => lines.push(`${label}: ${value}`));
+  return lines.join('\n');
+}
+
+function renderAlertHtml(alert: AlertEvent): string {
+  const rows = dataRows(alert)
+    .map(([label, value]) => `<tr><td style="padding:2px 12px 2px 0;color:#6b7280">${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`)
+    .join('');
+  return [
+    `<div style="border-left:3px solid ${SEVERITY_COLORS[alert.severity]};padding:8px 12px;margin-bottom:12px">`,
+    `<strong>[${alert.severity.toUpperCase()}] ${escapeHtml(alertTitle(alert))}</strong>`,
+    `<p style="margin:6px 0">${escapeHtml(alert.message)}</p>`,
+    `<table style="font-size:13px">`,
+    `<tr><td style="padding:2px 12px 2px 0;color:#6b7280">Time</td><td>${new Date(alert.timestamp).toISOString()}</td></tr>`,
+    alert.exchange ? `<tr><td style="padding:2px 12px 2px 0;color:#6b7280">Exchange</td><td>${escapeHtml(alert.exchange)}</td></tr>` : '',
+    rows,
+    `</table>`,
+    `</div>`,
+  ].join('');
+}
+
+/**
+ * Single alert (sent immediately)
+ */
+export function renderAlert(alert: AlertEvent, to: string): NotificationMessage {
+  return {
+    to,
+    subject: `[${alert.severity.toUpperCase()}] ${alertTitle(alert)}${alert.exchange ? ` on ${alert.exchange}` : ''}`,
+    text: renderAlertText(alert),
+    html: renderAlertHtml(alert),
+  };
+}
+
+/**
+ * Batched alerts collected since the last digest
+ */
+export function renderDigest(alerts: AlertEvent[], to: string): NotificationMessage {
+  const sorted = [...alerts].sort((a, b) => a.timestamp - b.timestamp);
+  return {
+    to,
+    subject: `Portfolio alert digest: ${alerts.length} alert${alerts.length === 1 ? '' : 's'}`,
+    text: sorted.map(renderAlertText).join('\n\n'),
+    html: `<h3>${alerts.length} alert${alerts.length === 1 ? '' : 's'} since the last digest</h3>${sorted.map(renderAlertHtml).join('')}`,
+  };
+}
+
+/**
+ * Settings check message
+ */
+export function renderTest(to: string): NotificationMessage {
+  return {
+    to,
+    subject: 'Portfolio Monitor test notification',
+    text: 'Email notifications are configured correctly.',
+    html: '<p>Email notifications are configured correctly.</p>',
+  };
+}
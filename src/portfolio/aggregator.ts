@@ -11,8 +11,19 @@ import {
   PortfolioSnapshot,
   AssetAllocation,
   ExchangeAllocation,
+  ChangeWindow,
+  EquityChange,
+  EquityReference,
 } from '../types';
 
+// Lookback per change window, and how far the nearest snapshot may be from the target time
+export const CHANGE_WINDOWS: Record<ChangeWindow, { ms: number; toleranceMs: number }> = {
+  '1h': { ms: 60 * 60 * 1000, toleranceMs: 15 * 60 * 1000 },
+  '24h': { ms: 24 * 60 * 60 * 1000, toleranceMs: 2 * 60 * 60 * 1000 },
+  '7d': { ms: 7 * 24 * 60 * 60 * 1000, toleranceMs: 12 * 60 * 60 * 1000 },
+  '30d': { ms: 30 * 24 * 60 * 60 * 1000, toleranceMs: 2 * 24 * 60 * 60 * 1000 },
+};
+
 export class PortfolioAggregator {
   /**
    * Aggregate balances across exchanges
@@ -115,6 +126,27 @@ export class PortfolioAggregator {
     return positions.reduce((sum, position) => sum + position.unrealizedPnl, 0);
   }
 
+  /**
+   * Calculate equity changes against reference snapshots (one per window)
+   */
+  calculateChanges(
+    totalNetEquity: number,
+    references: Partial<Record<ChangeWindow, EquityReference>>
+  ): Partial<Record<ChangeWindow, EquityChange>> {
+    const changes: Partial<Record<ChangeWindow, EquityChange>> = {};
+    (Object.keys(references) as ChangeWindow[]).forEach((window) => {
+      const reference = references[window];
+      if (!reference) return;
+      const usd = totalNetEquity - reference.totalNetEquity;
+      changes[window] = {
+        percent: reference.totalNetEquity > 0 ? (usd / reference.totalNetEquity) * 100 : 0,
+        usd,
+        referenceTimestamp: reference.timestamp,
+      };
+    });
+    return changes;
+  }
+
   /**
    * Create portfolio snapshot
    */
@@ -123,26 +155,14 @@ export class PortfolioAggregator {
     positions: UnifiedPosition[],
     orders: UnifiedOrder[] = [],
     trades: UnifiedTrade[] = [],
-    previousSnapshot?: PortfolioSnapshot
+    references: Partial<Record<ChangeWindow, EquityReference>> = {}
   ): PortfolioSnapshot {
     const aggregatedBalances = this.aggregateBalances(balances);
     const totalNetEquity = this.calculateTotalNetEquity(aggregatedBalances);
     const totalUnrealizedPnl = this.calculateTotalUnrealizedPnl(positions);
     const assetAllocation = this.calculateAssetAllocation(aggregatedBalances);
     const exchangeAllocation = this.calculateExchangeAllocation(aggregatedBalances);
-
-    // Calculate 24h change if previous snapshot exists
-    let change24h: number | undefined;
-    if (previousSnapshot) {
-      const timeDiff = Date.now() - previousSnapshot.timestamp;
-      if (timeDiff <= 24 * 60 * 60 * 1000) {
-        // Within 24 hours
-        const change = totalNetEquity - previousSnapshot.totalNetEquity;
-        change24h = previousSnapshot.totalNetEquity > 0
-          ? (change / previousSnapshot.totalNetEquity) * 100
-          : 0;
-      }
-    }
+    const changes = this.calculateChanges(totalNetEquity, references);
 
     return {
       timestamp: Date.now(),
@@ -152,7 +172,8 @@ export class PortfolioAggregator {
       exchangeAllocation,
       positions,
       balances: aggregatedBalances,
-      change24h,
+      change24h: changes['24h']?.percent,
+      changes,
     };
   }
 
@@ -166,6 +187,8 @@ export class PortfolioAggregator {
     topExchanges: ExchangeAllocation[];
     openPositions: number;
     openOrders: number;
+    change24h?: number;
+    changes: Partial<Record<ChangeWindow, EquityChange>>;
   } {
     return {
       totalEquity: snapshot.totalNetEquity,
@@ -174,6 +197,8 @@ export class PortfolioAggregator {
       topExchanges: snapshot.exchangeAllocation,
       openPositions: snapshot.positions.length,
       openOrders: 0, // Would need orders passed separately
+      change24h: snapshot.change24h,
+      changes: snapshot.changes || {},
     };
   }
 }
@@ -0,0 +1,154 @@
+/**
+ * Live Portfolio State
+ * Per-exchange balances, positions, open orders and recent trades: a REST baseline
+ * with streamed RealtimeUpdates applied on top until the next reconcile
+ */
+
+import {
+  RealtimeUpdate,
+  UnifiedBalance,
+  UnifiedPosition,
+  UnifiedOrder,
+  UnifiedTrade,
+} from '../types';
+
+const CLOSED_ORDER_STATUSES = ['filled', 'canceled', 'cancelled', 'rejected', 'expired'];
+const MAX_RECENT_TRADES = 100;
+
+interface LiveBalance {
+  balance: UnifiedBalance;
+  unitPrice: number; // Last known USD price; stream balances usually arrive without one
+}
+
+interface ExchangeState {
+  balances: Map<string, LiveBalance>; // asset:accountType
+  positions: Map<string, UnifiedPosition>; // symbol:side
+  orders: Map<string, any>; // orderId -> open order
+  trades: UnifiedTrade[];
+  baselineAt: number;
+  updatedAt: number;
+}
+
+export class LivePortfolioState {
+  private exchanges: Map<string, ExchangeState> = new Map();
+
+  /**
+   * Replace an exchange's state with freshly fetched REST data
+   */
+  setBaseline(exchange: string, balances: UnifiedBalance[], positions: UnifiedPosition[], orders: any[]): void {
+    const now = Date.now();
+    const previous = this.exchanges.get(exchange);
+    const state: ExchangeState = {
+      balances: new Map(),
+      positions: new Map(),
+      orders: new Map(),
+      trades: previous ? previous.trades : [],
+      baselineAt: now,
+      updatedAt: now,
+    };
+
+    balances.forEach((balance) => {
+      state.balances.set(this.balanceKey(balance), {
+        balance,
+        unitPrice: balance.total > 0 ? balance.usdValue / balance.total : 0,
+      });
+    });
+    positions.forEach((position) => state.positions.set(this.positionKey(position), position));
+    orders.forEach((order) => state.orders.set(String(order.orderId), order));
+
+    this.exchanges.set(exchange, state);
+  }
+
+  /**
+   * Apply a streamed update (ignored until the exchange has a baseline)
+   */
+  applyUpdate(update: RealtimeUpdate): boolean {
+    const exchange = (update.data as any).exchange;
+    const state = exchange ? this.exchanges.get(exchange) : undefined;
+    if (!state) return false;
+
+    switch (update.type) {
+      case 'balance': {
+        const balance = update.data as UnifiedBalance;
+        const key = this.balanceKey(balance);
+        const existing = state.balances.get(key);
+        const unitPrice = balance.total > 0 && balance.usdValue > 0 ? balance.usdValue / balance.total : existing?.unitPrice || 0;
+        state.balances.set(key, { balance, unitPrice });
+        break;
+      }
+      case 'position': {
+        const position = update.data as UnifiedPosition;
+        // One position per symbol unless both sides are open (hedge mode is corrected on reconcile)
+        const opposite = `${position.symbol}:${position.side === 'long' ? 'short' : 'long'}`;
+        if (position.size === 0) {
+          state.positions.delete(this.positionKey(position));
+          state.positions.delete(opposite);
+        } else {
+          state.positions.delete(opposite);
+          state.positions.set(this.positionKey(position), position);
+        }
+        break;
+      }
+      case 'order': {
+        const order = update.data as UnifiedOrder;
+        const orderId = String(order.orderId);
+        if (CLOSED_ORDER_STATUSES.includes(String(order.status).toLowerCase())) {
+          state.orders.delete(orderId);
+        } else {
+          state.orders.set(orderId, { ...state.orders.get(orderId), ...order });
+        }
+        break;
+      }
+      case 'trade': {
+        state.trades.push(update.data as UnifiedTrade);
+        if (state.trades.length > MAX_RECENT_TRADES) {
+          state.trades.shift();
+        }
+        break;
+      }
+    }
+
+    state.updatedAt = Date.now();
+    return true;
+  }
+
+  hasBaseline(exchange: string): boolean {
+    return this.exchanges.has(exchange);
+  }
+
+  /**
+   * Milliseconds since the exchange was last reconciled against REST (undefined if never)
+   */
+  getBaselineAge(exchange: string): number | undefined {
+    const state = this.exchanges.get(exchange);
+    return state ? Date.now() - state.baselineAt : undefined;
+  }
+
+  getBalances(exchange: string): LiveBalance[] {
+    return Array.from(this.exchanges.get(exchange)?.balances.values() || []);
+  }
+
+  getPositions(exchange: string): UnifiedPosition[] {
+    return Array.from(this.exchanges.get(exchange)?.positions.values() || []);
+  }
+
+  getOrders(exchange: string): any[] {
+    return Array.from(this.exchanges.get(exchange)?.orders.values() || []);
+  }
+
+  getTrades(exchange: string): UnifiedTrade[] {
+    return [...(this.exchanges.get(exchange)?.trades || [])];
+  }
+
+  removeExchange(exchange: string): void {
+    this.exchanges.delete(exchange);
+  }
+
+  private balanceKey(balance: UnifiedBalance): string {
+    return `${balance.asset}:${balance.accountType || ''}`;
+  }
+
+  private positionKey(position: UnifiedPosition): string {
+    return `${position.symbol}:${position.side}`;
+  }
+}
@@ -3,22 +3,54 @@
  * Orchestrates data collection and aggregation across exchanges
  */
 
-import { ExchangeConnector, RawBalance, RawPosition, UnifiedBalance, UnifiedPosition } from '../types';
-import { PortfolioAggregator } from './aggregator';
+import {
+  ExchangeConnector,
+  RawBalance,
+  RawPosition,
+  UnifiedBalance,
+  UnifiedPosition,
+  ChangeWindow,
+  EquityReference,
+  ConnectorHealthStatus,
+  RealtimeUpdate,
+  UnifiedTrade,
+} from '../types';
+import { PortfolioAggregator, CHANGE_WINDOWS } from './aggregator';
 import { PortfolioSnapshot } from '../types';
-import { BaseNormalizer } from '../normalizer';
+
+export type SnapshotCallback = (snapshot: PortfolioSnapshot) => void;
+import { Normalizer } from '../normalizer';
+import { connectorRegistry } from '../connectors/registry';
+import { PriceService, PriceQuote } from './priceService';
+import { snapshotStore } from './snapshotStore';
+import { LivePortfolioState } from './liveState';
+import { config } from '../config';
+
+interface ExchangeData {
+  balances: UnifiedBalance[];
+  positions: UnifiedPosition[];
+  orders: any[];
+  trades: UnifiedTrade[];
+}
 
 export class PortfolioManager {
   private connectors: Map<string, ExchangeConnector>;
   private aggregator: PortfolioAggregator;
-  private normalizer: BaseNormalizer;
+  private normalizers: Map<string, Normalizer>;
+  private priceService: PriceService;
   private snapshots: PortfolioSnapshot[] = [];
-  private maxSnapshots: number = 1000; // Keep last 1000 snapshots
+  private maxSnapshots: number = 1000; // Keep last 1000 snapshots in memory; history is persisted
+  private userId?: number;
+  private lastFetchErrors: Map<string, string> = new Map();
+  private snapshotCallbacks: SnapshotCallback[] = [];
+  private liveState: LivePortfolioState = new LivePortfolioState();
 
-  constructor() {
+  constructor(userId?: number) {
+    this.userId = userId;
     this.connectors = new Map();
     this.aggregator = new PortfolioAggregator();
-    this.normalizer = new BaseNormalizer();
+    this.normalizers = new Map();
+    this.priceService = new PriceService(() => Array.from(this.connectors.values()));
   }
 
   /**
@@ -26,6 +58,21 @@ export class PortfolioManager {
    */
   registerConnector(connector: ExchangeConnector): void {
     this.connectors.set(connector.exchangeName, connector);
+    this.normalizers.set(connector.exchangeName, connectorRegistry.createNormalizer(connector.exchangeName));
+  }
+
+  /**
+   * Register a callback for complete snapshots (skipped when any exchange failed to fetch)
+   */
+  onSnapshot(callback: SnapshotCallback): void {
+    this.snapshotCallbacks.push(callback);
+  }
+
+  /**
+   * Remove all snapshot callbacks
+   */
+  clearSnapshotCallbacks(): void {
+    this.snapshotCallbacks = [];
   }
 
   /**
@@ -36,94 +83,193 @@ export class PortfolioManager {
     if (connector) {
       connector.unsubscribeRealtimeUpdates();
       this.connectors.delete(exchangeName);
+      this.normalizers.delete(exchangeName);
+      this.priceService.invalidate(exchangeName);
+      this.liveState.removeExchange(exchangeName);
     }
   }
 
   /**
-   * Get USD price for an asset (simplified - USDT = 1.0, others need price API)
+   * Get USD price for a balance (exchange tickers first, then the exchange's own valuation)
    */
-  private getUsdPrice(asset: string): number {
-    const assetUpper = asset.toUpperCase();
-    
-    // Stablecoins
-    if (['USDT', 'USDC', 'BUSD', 'DAI', 'TUSD', 'USDP', 'FDUSD'].includes(assetUpper)) {
-      return 1.0;
+  private async getUsdPrice(rawBalance: RawBalance, exchange: string): Promise<PriceQuote> {
+    const quote = await this.priceService.getQuote(rawBalance.asset, exchange);
+    if (quote.price > 0) {
+      return quote;
     }
-    
-    // For now, return 0 for other assets (would need price API)
-    // TODO: Fetch prices from exchange API (e.g., Binance ticker price)
-    // For BTC, ETH, etc., we'd need to fetch from /api/v3/ticker/price
-    console.warn(`[PortfolioManager] No USD price available for ${asset}, usdValue will be 0`);
-    return 0;
+    if (rawBalance.usdPrice) {
+      return { price: rawBalance.usdPrice, source: `${exchange}:account`, timestamp: Date.now() };
+    }
+
+    console.warn(`[PortfolioManager] No USD price available for ${rawBalance.asset}, usdValue will be 0`);
+    return quote;
   }
 
   /**
-   * Fetch current portfolio snapshot from all exchanges
+   * Get the price service used for balance valuation
    */
-  async fetchPortfolioSnapshot(): Promise<PortfolioSnapshot> {
-    const allBalances: UnifiedBalance[] = [];
-    const allPositions: UnifiedPosition[] = [];
-    const allOrders: any[] = [];
-    const allTrades: any[] = [];
+  getPriceService(): PriceService {
+    return this.priceService;
+  }
 
+  /**
+   * Fetch current portfolio snapshot from all exchanges over REST (also re-baselines live state)
+   */
+  async fetchPortfolioSnapshot(): Promise<PortfolioSnapshot> {
     console.log(`[PortfolioManager] Fetching snapshot from ${this.connectors.size} exchange(s)...`);
+    const fetchErrors = new Map<string, string>();
+    const results = await Promise.all(
+      Array.from(this.connectors.values()).map((connector) => this.fetchExchange(connector, fetchErrors))
+    );
 
-    // Fetch data from all connectors in parallel
-    const promises = Array.from(this.connectors.values()).map(async (connector) => {
-      try {
-        console.log(`[PortfolioManager] Fetching data from ${connector.exchangeName}...`);
-        
-        const [rawBalances, rawPositions, orders] = await Promise.all([
-          connector.fetchBalances(),
-          connector.fetchPositions(),
-          connector.fetchOpenOrders(),
-        ]);
-
-        console.log(`[PortfolioManager] ${connector.exchangeName}: ${rawBalances.length} balances, ${rawPositions.length} positions, ${orders.length} orders`);
-
-        // Normalize balances
-        rawBalances.forEach((rawBalance: RawBalance) => {
-          const usdPrice = this.getUsdPrice(rawBalance.asset);
-          const normalized = this.normalizer.normalizeBalance(rawBalance, connector.exchangeName, usdPrice);
-          
-          console.log(`[PortfolioManager] Normalized balance: ${rawBalance.asset} = ${normalized.total} (price: ${usdPrice}, usdValue: $${normalized.usdValue.toFixed(2)})`);
-          
-          allBalances.push(normalized);
-          
-          // Log all balances (not just significant ones)
-          if (normalized.total > 0) {
-            console.log(`[PortfolioManager] ✓ ${connector.exchangeName} ${rawBalance.asset}: ${normalized.total} total, ${normalized.available} available ($${normalized.usdValue.toFixed(2)})`);
-          }
-        });
-
-        // Normalize positions
-        rawPositions.forEach((rawPosition: RawPosition) => {
-          const normalized = this.normalizer.normalizePosition(rawPosition, connector.exchangeName);
-          allPositions.push(normalized);
-          console.log(`[PortfolioManager] ${connector.exchangeName} Position: ${normalized.symbol} ${normalized.side} ${normalized.size} @ $${normalized.entryPrice}`);
-        });
-
-        // Normalize orders (for now, just add exchange)
-        orders.forEach((o: any) => {
-          allOrders.push({ ...o, exchange: connector.exchangeName });
-        });
-      } catch (error: any) {
-        console.error(`[PortfolioManager] Error fetching from ${connector.exchangeName}:`, error.message || error);
+    return this.createSnapshot(results.filter((r): r is ExchangeData => r !== null), fetchErrors);
+  }
+
+  /**
+   * Snapshot from live state where the exchange's stream is trustworthy, REST for the rest
+   * (no baseline yet, no user stream, stream unhealthy, or baseline older than the reconcile interval)
+   */
+  async takeSnapshot(): Promise<PortfolioSnapshot> {
+    if (!config.liveState.enabled) {
+      return this.fetchPortfolioSnapshot();
+    }
+
+    const fetchErrors = new Map<string, string>();
+    let fromStream = 0;
+    const results = await Promise.all(
+      Array.from(this.connectors.values()).map(async (connector) => {
+        if (!this.needsReconcile(connector)) {
+          fromStream++;
+          return this.getLiveExchangeData(connector.exchangeName);
+        }
+        const fetched = await this.fetchExchange(connector, fetchErrors);
+        // Fall back to the last known state rather than dropping the exchange from the snapshot
+        return fetched || (this.liveState.hasBaseline(connector.exchangeName) ? this.getLiveExchangeData(connector.exchangeName) : null);
+      })
+    );
+
+    console.log(`[PortfolioManager] Snapshot: ${fromStream} exchange(s) from live state, ${this.connectors.size - fromStream} via REST`);
+    return this.createSnapshot(results.filter((r): r is ExchangeData => r !== null), fetchErrors);
+  }
+
+  /**
+   * Apply a streamed update to the live state
+   */
+  applyRealtimeUpdate(update: RealtimeUpdate): void {
+    this.liveState.applyUpdate(update);
+  }
+
+  private needsReconcile(connector: ExchangeConnector): boolean {
+    const age = this.liveState.getBaselineAge(connector.exchangeName);
+    if (age === undefined || age >= config.liveState.reconcileIntervalMs) return true;
+    if (!connectorRegistry.get(connector.exchangeName)?.capabilities.userStream) return true;
+    // Updates may have been missed while the stream was disconnected
+    const failures = connector.health.getStatus().consecutiveFailures;
+    return failures.websocket > 0 || failures.listenKey > 0;
+  }
+
+  /**
+   * Fetch and normalize one exchange over REST (records the error and returns null on failure)
+   */
+  private async fetchExchange(connector: ExchangeConnector, fetchErrors: Map<string, string>): Promise<ExchangeData | null> {
+    try {
+      console.log(`[PortfolioManager] Fetching data from ${connector.exchangeName}...`);
+
+      const [rawBalances, rawPositions, orders] = await Promise.all([
+        connector.fetchBalances(),
+        connector.fetchPositions(),
+        connector.fetchOpenOrders(),
+      ]);
+
+      const normalizer = this.normalizers.get(connector.exchangeName) || connectorRegistry.createNormalizer(connector.exchangeName);
+
+      console.log(`[PortfolioManager] ${connector.exchangeName}: ${rawBalances.length} balances, ${rawPositions.length} positions, ${orders.length} orders`);
+
+      // Normalize balances
+      const balances: UnifiedBalance[] = [];
+      for (const rawBalance of rawBalances) {
+        const quote = await this.getUsdPrice(rawBalance, connector.exchangeName);
+        const normalized: UnifiedBalance = {
+          ...normalizer.normalizeBalance(rawBalance, connector.exchangeName, quote.price),
+          priceSource: quote.source,
+          priceAge: Date.now() - quote.timestamp,
+        };
+
+        console.log(`[PortfolioManager] Normalized balance: ${rawBalance.asset} = ${normalized.total} (price: ${quote.price} via ${quote.source}, usdValue: $${normalized.usdValue.toFixed(2)})`);
+
+        balances.push(normalized);
+
+        // Log all balances (not just significant ones)
+        if (normalized.total > 0) {
+          console.log(`[PortfolioManager] ✓ ${connector.exchangeName} ${rawBalance.asset}: ${normalized.total} total, ${normalized.available} available ($${normalized.usdValue.toFixed(2)})`);
+        }
       }
-    });
 
-    await Promise.all(promises);
+      // Normalize positions
+      const positions = rawPositions.map((rawPosition: RawPosition) => {
+        const normalized = normalizer.normalizePosition(rawPosition, connector.exchangeName);
+        console.log(`[PortfolioManager] ${connector.exchangeName} Position: ${normalized.symbol} ${normalized.side} ${normalized.size} @ $${normalized.entryPrice}`);
+        return normalized;
+      });
+
+      // Normalize orders (for now, just add exchange)
+      const openOrders = orders.map((o: any) => ({ ...o, exchange: connector.exchangeName }));
+
+      connector.health.recordSuccess('rest');
+      this.liveState.setBaseline(connector.exchangeName, balances, positions, openOrders);
+      return { balances, positions, orders: openOrders, trades: this.liveState.getTrades(connector.exchangeName) };
+    } catch (error: any) {
+      console.error(`[PortfolioManager] Error fetching from ${connector.exchangeName}:`, error.message || error);
+      fetchErrors.set(connector.exchangeName, error.message || String(error));
+      connector.health.recordFailure('rest', error.message || String(error));
+      return null;
+    }
+  }
+
+  /**
+   * Current live state of one exchange, balances revalued at cached prices
+   */
+  private async getLiveExchangeData(exchange: string): Promise<ExchangeData> {
+    const balances: UnifiedBalance[] = [];
+    for (const { balance, unitPrice } of this.liveState.getBalances(exchange)) {
+      const quote = await this.priceService.getQuote(balance.asset, exchange);
+      const price = quote.price > 0 ? quote.price : unitPrice;
+      balances.push({
+        ...balance,
+        usdValue: balance.total * price,
+        priceSource: quote.price > 0 ? quote.source : `${exchange}:last`,
+        priceAge: quote.price > 0 ? Date.now() - quote.timestamp : balance.priceAge,
+      });
+    }
+
+    return {
+      balances,
+      positions: this.liveState.getPositions(exchange),
+      orders: this.liveState.getOrders(exchange),
+      trades: this.liveState.getTrades(exchange),
+    };
+  }
+
+  /**
+   * Aggregate, store and publish a snapshot (persisted and passed to callbacks only when every
+   * exchange succeeded)
+   */
+  private async createSnapshot(results: ExchangeData[], fetchErrors: Map<string, string>): Promise<PortfolioSnapshot> {
+    const allBalances = results.flatMap((r) => r.balances);
+    const allPositions = results.flatMap((r) => r.positions);
+    const allOrders = results.flatMap((r) => r.orders);
+    const allTrades = results.flatMap((r) => r.trades);
+    this.lastFetchErrors = fetchErrors;
 
     console.log(`[PortfolioManager] Total before aggregation: ${allBalances.length} balances, ${allPositions.length} positions`);
-    
+
     // Log all balances for debugging
     allBalances.forEach((b) => {
       console.log(`[PortfolioManager] Balance: ${b.asset} = ${b.total} (usdValue: $${b.usdValue.toFixed(2)}, exchange: ${b.exchange})`);
     });
 
-    // Get previous snapshot for 24h change calculation
-    const previousSnapshot =
-      this.snapshots.length > 0 ? this.snapshots[this.snapshots.length - 1] : undefined;
+    // Reference snapshots for 1h/24h/7d/30d changes
+    const references = await this.getChangeReferences(Date.now());
 
     // Create aggregated snapshot
     const snapshot = this.aggregator.createSnapshot(
@@ -131,20 +277,76 @@ export class PortfolioManager {
       allPositions,
       allOrders,
       allTrades,
-      previousSnapshot
+      references
     );
     
     console.log(`[PortfolioManager] Snapshot created: ${snapshot.balances.length} balances, ${snapshot.positions.length} positions, totalEquity: $${snapshot.totalNetEquity.toFixed(2)}`);
 
+    snapshot.partial = fetchErrors.size > 0 || undefined;
+
     // Store snapshot
     this.snapshots.push(snapshot);
     if (this.snapshots.length > this.maxSnapshots) {
       this.snapshots.shift(); // Remove oldest
     }
 
+    // Partial snapshots would read as equity drops in history, change references and loss baselines
+    if (this.userId !== undefined && !snapshot.partial) {
+      try {
+        await snapshotStore.storeSnapshot(snapshot, this.userId);
+      } catch (error: any) {
+        console.warn('[PortfolioManager] Failed to persist snapshot:', error.message || error);
+      }
+    }
+
+    if (fetchErrors.size === 0) {
+      this.snapshotCallbacks.forEach((callback) => {
+        try {
+          callback(snapshot);
+        } catch (error) {
+          console.error('[PortfolioManager] Error in snapshot callback:', error);
+        }
+      });
+    }
+
     return snapshot;
   }
 
+  /**
+   * Find the snapshot closest to now minus each change window (persisted history, then memory)
+   */
+  private async getChangeReferences(now: number): Promise<Partial<Record<ChangeWindow, EquityReference>>> {
+    const references: Partial<Record<ChangeWindow, EquityReference>> = {};
+
+    for (const window of Object.keys(CHANGE_WINDOWS) as ChangeWindow[]) {
+      const { ms, toleranceMs } = CHANGE_WINDOWS[window];
+      const target = now - ms;
+      let reference: EquityReference | null = null;
+
+      if (this.userId !== undefined) {
+        try {
+          reference = await snapshotStore.getClosestSnapshot(this.userId, target, toleranceMs);
+        } catch (error: any) {
+          console.warn('[PortfolioManager] Failed to load reference snapshot:', error.message || error);
+        }
+      }
+
+      if (!reference) {
+        const candidates = this.snapshots.filter((s) => !s.partial && Math.abs(s.timestamp - target) <= toleranceMs);
+        const closest = candidates.sort((a, b) => Math.abs(a.timestamp - target) - Math.abs(b.timestamp - target))[0];
+        if (closest) {
+          reference = { timestamp: closest.timestamp, totalNetEquity: closest.totalNetEquity };
+        }
+      }
+
+      if (reference) {
+        references[window] = reference;
+      }
+    }
+
+    return references;
+  }
+
   /**
    * Get latest portfolio snapshot
    */
@@ -153,14 +355,28 @@ export class PortfolioManager {
   }
 
   /**
-   * Get portfolio snapshots within time range
+   * Get portfolio snapshots within time range (persisted history; in-memory buffer if no user/DB)
    */
-  getSnapshotsInRange(startTime: number, endTime: number): PortfolioSnapshot[] {
+  async getSnapshotsInRange(startTime: number, endTime: number): Promise<PortfolioSnapshot[]> {
+    if (this.userId !== undefined) {
+      try {
+        return await snapshotStore.getSnapshotsInRange(this.userId, startTime, endTime);
+      } catch (error: any) {
+        console.warn('[PortfolioManager] Failed to load snapshot history:', error.message || error);
+      }
+    }
     return this.snapshots.filter(
       (snapshot) => snapshot.timestamp >= startTime && snapshot.timestamp <= endTime
     );
   }
 
+  /**
+   * Exchanges that failed during the last snapshot fetch (exchange -> error message)
+   */
+  getLastFetchErrors(): Map<string, string> {
+    return new Map(this.lastFetchErrors);
+  }
+
   /**
    * Get registered exchange names
    */
@@ -168,6 +384,13 @@ export class PortfolioManager {
     return Array.from(this.connectors.keys());
   }
 
+  /**
+   * Connection health of every registered exchange
+   */
+  getHealth(): ConnectorHealthStatus[] {
+    return Array.from(this.connectors.values()).map((connector) => connector.health.getStatus());
+  }
+
   /**
    * Get a connector by exchange name
    */
@@ -0,0 +1,299 @@
+/**
+ * PnL Engine
+ * Replays spot trades into per-exchange, per-asset lots to derive realized PnL and
+ * cost basis (FIFO, LIFO or average cost). Every amount is in USD, the reporting currency:
+ * stablecoins count as USD cash, and a trade against a non-USD quote (e.g. ETHBTC) also
+ * disposes of or acquires the quote asset. A fee paid in a third asset (e.g. BNB) is disposed
+ * of from that asset's lots rather than charged to the trade.
+ */
+
+import { TradeFill, CostBasisMethod, RealizedTrade, CostBasisEntry, LotDisposal } from '../types';
+import { splitSymbol } from '../normalizer';
+import { orderStore } from '../execution/orderStore';
+import { PriceService } from './priceService';
+
+const USD_QUOTES = ['USDT', 'USDC', 'BUSD', 'DAI', 'TUSD', 'USDP', 'FDUSD', 'USD'];
+const REPORTING_CURRENCY = 'USD';
+const EPSILON = 1e-12;
+
+interface Lot {
+  quantity: number;
+  unitCost: number; // Includes unitFee
+  unitFee: number;
+  acquiredAt: number;
+}
+
+interface Book {
+  exchange: string;
+  asset: string;
+  lots: Lot[]; // Oldest first; for average cost every lot carries the pool's unit cost
+  realizedPnl: number;
+}
+
+interface UsdPrice {
+  price: number;
+  estimated: boolean; // Current rather than historical price
+}
+
+interface Disposal {
+  quantity: number; // Leaves the account for `proceeds`
+  feeQuantity: number; // Fee taken in the disposed asset (leaves with no proceeds)
+  unitPrice: number; // USD
+  fee: number; // USD; only subtracted when not already taken in the disposed asset
+  feeEstimated: boolean;
+  priceEstimated: boolean;
+}
+
+/**
+ * Current USD price of `asset`, used when it has no earlier trade on the exchange to price it
+ * (returns 0 if unknown)
+ */
+export type UsdPriceResolver = (asset: string) => Promise<number>;
+
+export class PnlEngine {
+  private method: CostBasisMethod;
+  private resolveUsdPrice?: UsdPriceResolver;
+  private books: Map<string, Book> = new Map(); // exchange:asset
+  private lastPrices: Map<string, number> = new Map(); // exchange:asset -> last traded USD price
+  private realized: RealizedTrade[] = [];
+
+  constructor(method: CostBasisMethod, resolveUsdPrice?: UsdPriceResolver) {
+    this.method = method;
+    this.resolveUsdPrice = resolveUsdPrice;
+  }
+
+  /**
+   * Apply trades in execution order (symbols that can't be split into base/quote and trades
+   * without a quantity or price are skipped)
+   */
+  async process(trades: TradeFill[]): Promise<void> {
+    for (const trade of trades) {
+      const pair = splitSymbol(trade.symbol);
+      if (!pair || trade.quantity <= 0 || trade.price <= 0) continue;
+
+      const base = pair.base.toUpperCase();
+      const quote = pair.quote.toUpperCase();
+      const quoteUsd = await this.usdPrice(trade.exchange, quote);
+      const baseUsd = trade.price * quoteUsd.price;
+      if (!quoteUsd.estimated && baseUsd > 0) this.lastPrices.set(`${trade.exchange}:${base}`, baseUsd);
+
+      const quoteAmount = trade.quantity * trade.price;
+      const notional = quoteAmount * quoteUsd.price;
+      const feeAsset = (trade.feeAsset || '').toUpperCase();
+      const baseFee = feeAsset === base ? trade.fee : 0;
+      const quoteFee = feeAsset === quote ? trade.fee : 0;
+      const fee = await this.feeInUsd(trade, base, baseUsd, quote, quoteUsd.price, feeAsset);
+      const isUsdQuote = this.isUsd(quote);
+      const thirdAssetFee = trade.fee > 0 && feeAsset !== '' && feeAsset !== base && feeAsset !== quote && !this.isUsd(feeAsset);
+
+      if (trade.side === 'buy') {
+        // A fee taken in the base asset shrinks the lot; one taken in a non-USD quote is
+        // disposed of with it. Either way its cost is already in the notional.
+        const feeInTradedAsset = baseFee > 0 || (quoteFee > 0 && !isUsdQuote);
+        const quantity = trade.quantity - baseFee;
+        if (!this.isUsd(base) && quantity > EPSILON) {
+          if (thirdAssetFee) {
+            this.addLot(this.getBook(trade.exchange, base), quantity, notional, 0, trade.timestamp);
+          } else {
+            const cost = notional + (feeInTradedAsset ? 0 : fee.value);
+            this.addLot(this.getBook(trade.exchange, base), quantity, cost, fee.value, trade.timestamp);
+          }
+        }
+        if (!isUsdQuote) {
+          this.realize(this.getBook(trade.exchange, quote), trade, {
+            quantity: quoteAmount,
+            feeQuantity: quoteFee,
+            unitPrice: quoteUsd.price,
+            fee: 0, // Charged to the acquired lot above
+            feeEstimated: false,
+            priceEstimated: quoteUsd.estimated,
+          });
+        }
+      } else {
+        if (!this.isUsd(base)) {
+          this.realize(this.getBook(trade.exchange, base), trade, {
+            quantity: trade.quantity,
+            feeQuantity: baseFee,
+            unitPrice: baseUsd,
+            fee: baseFee > 0 || thirdAssetFee ? 0 : fee.value,
+            feeEstimated: fee.estimated,
+            priceEstimated: quoteUsd.estimated,
+          });
+        }
+        // The fee was charged to the sale above, so the received quote costs what it's worth
+        const received = quoteAmount - quoteFee;
+        if (!isUsdQuote && received > EPSILON) {
+          this.addLot(this.getBook(trade.exchange, quote), received, received * quoteUsd.price, 0, trade.timestamp);
+        }
+      }
+
+      if (thirdAssetFee) {
+        this.realize(this.getBook(trade.exchange, feeAsset), trade, {
+          quantity: 0,
+          feeQuantity: trade.fee,
+          unitPrice: fee.value / trade.fee,
+          fee: 0,
+          feeEstimated: fee.estimated,
+          priceEstimated: fee.estimated,
+        });
+      }
+    }
+  }
+
+  /**
+   * Realized disposals (optionally limited to a time range)
+   */
+  getRealizedTrades(from?: number, to?: number): RealizedTrade[] {
+    return this.realized.filter(
+      (t) => (from === undefined || t.timestamp >= from) && (to === undefined || t.timestamp <= to)
+    );
+  }
+
+  /**
+   * Open holdings with their remaining cost basis
+   */
+  getCostBasis(): CostBasisEntry[] {
+    return Array.from(this.books.values())
+      .map((book) => {
+        const quantity = book.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+        const costBasis = book.lots.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0);
+        return {
+          exchange: book.exchange,
+          asset: book.asset,
+          quote: REPORTING_CURRENCY,
+          quantity,
+          costBasis,
+          averageCost: quantity > EPSILON ? costBasis / quantity : 0,
+          openLots: book.lots.length,
+          realizedPnl: book.realizedPnl,
+        };
+      })
+      .filter((entry) => entry.quantity > EPSILON || entry.realizedPnl !== 0);
+  }
+
+  /**
+   * Average cost keeps each buy as its own lot (sold oldest first, for holding periods) and
+   * re-prices all of them at the pool's average
+   */
+  private addLot(book: Book, quantity: number, cost: number, fee: number, acquiredAt: number): void {
+    book.lots.push({ quantity, unitCost: cost / quantity, unitFee: fee / quantity, acquiredAt });
+    if (this.method !== 'average') return;
+
+    const total = book.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    const unitCost = book.lots.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0) / total;
+    const unitFee = book.lots.reduce((sum, lot) => sum + lot.quantity * lot.unitFee, 0) / total;
+    book.lots.forEach((lot) => {
+      lot.unitCost = unitCost;
+      lot.unitFee = unitFee;
+    });
+  }
+
+  private realize(book: Book, trade: TradeFill, disposal: Disposal): void {
+    let remaining = disposal.quantity + disposal.feeQuantity;
+    let costBasis = 0;
+    const lots: LotDisposal[] = [];
+
+    while (remaining > EPSILON && book.lots.length > 0) {
+      const index = this.method === 'lifo' ? book.lots.length - 1 : 0;
+      const lot = book.lots[index];
+      const used = Math.min(lot.quantity, remaining);
+      costBasis += used * lot.unitCost;
+      lots.push({
+        quantity: used,
+        acquiredAt: lot.acquiredAt,
+        costBasis: used * lot.unitCost,
+        acquisitionFee: used * lot.unitFee,
+      });
+      lot.quantity -= used;
+      remaining -= used;
+      if (lot.quantity <= EPSILON) book.lots.splice(index, 1);
+    }
+
+    // Only the matched share of the disposal is realized; the rest has no known cost
+    const disposed = disposal.quantity + disposal.feeQuantity;
+    const unmatchedQuantity = remaining > EPSILON ? remaining : 0;
+    const matchedShare = (disposed - unmatchedQuantity) / disposed;
+    const proceeds = disposal.quantity * disposal.unitPrice * matchedShare;
+    const realizedPnl = proceeds - costBasis - disposal.fee * matchedShare;
+    book.realizedPnl += realizedPnl;
+
+    this.realized.push({
+      tradeId: trade.tradeId,
+      exchange: trade.exchange,
+      symbol: trade.symbol,
+      asset: book.asset,
+      quote: REPORTING_CURRENCY,
+      timestamp: trade.timestamp,
+      quantity: disposal.quantity,
+      price: disposal.unitPrice,
+      proceeds,
+      costBasis,
+      fee: disposal.fee,
+      feeEstimated: disposal.feeEstimated,
+      priceEstimated: disposal.priceEstimated,
+      realizedPnl,
+      unmatchedQuantity,
+      lots,
+    });
+  }
+
+  /**
+   * USD price of an asset at the time of the trade being replayed: 1 for stablecoins, else its
+   * last traded price on the same exchange, else the resolver's current price
+   */
+  private async usdPrice(exchange: string, asset: string): Promise<UsdPrice> {
+    if (this.isUsd(asset)) return { price: 1, estimated: false };
+    const lastPrice = this.lastPrices.get(`${exchange}:${asset}`);
+    if (lastPrice) return { price: lastPrice, estimated: false };
+    const price = this.resolveUsdPrice ? await this.resolveUsdPrice(asset) : 0;
+    return { price, estimated: true };
+  }
+
+  /**
+   * Fee value in USD: from the trade's own prices for base/quote fees, otherwise from the fee
+   * asset's USD price
+   */
+  private async feeInUsd(
+    trade: TradeFill,
+    base: string,
+    baseUsd: number,
+    quote: string,
+    quoteUsd: number,
+    feeAsset: string
+  ): Promise<{ value: number; estimated: boolean }> {
+    if (!trade.fee) return { value: 0, estimated: false };
+    if (!feeAsset || feeAsset === quote) return { value: trade.fee * quoteUsd, estimated: false };
+    if (feeAsset === base) return { value: trade.fee * baseUsd, estimated: false };
+
+    const price = await this.usdPrice(trade.exchange, feeAsset);
+    return { value: trade.fee * price.price, estimated: price.estimated };
+  }
+
+  private getBook(exchange: string, asset: string): Book {
+    const key = `${exchange}:${asset}`;
+    let book = this.books.get(key);
+    if (!book) {
+      book = { exchange, asset, lots: [], realizedPnl: 0 };
+      this.books.set(key, book);
+    }
+    return book;
+  }
+
+  private isUsd(asset: string): boolean {
+    return USD_QUOTES.includes(asset);
+  }
+}
+
+/**
+ * Replay a user's stored spot trades, valuing assets with no earlier USD trade at current prices
+ */
+export async function loadPnlEngine(
+  userId: number,
+  method: CostBasisMethod,
+  priceService: PriceService,
+  exchange?: string
+): Promise<PnlEngine> {
+  const engine = new PnlEngine(method, async (asset) => (await priceService.getQuote(asset, exchange)).price);
+  await engine.process(await orderStore.getSpotTrades(userId, exchange));
+  return engine;
+}
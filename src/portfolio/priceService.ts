@@ -0,0 +1,133 @@
+/**
+ * Price Service
+ * Resolves USD prices from registered connectors' tickers with a TTL cache
+ */
+
+import { ExchangeConnector } from '../types';
+import { config } from '../config';
+
+export interface PriceQuote {
+  price: number;
+  source: string; // e.g. 'binance:BTCUSDT', 'binance:ETHBTC*BTCUSDT', 'stablecoin', 'none'
+  timestamp: number; // When the underlying tickers were fetched
+}
+
+interface TickerCache {
+  prices: Record<string, number>;
+  fetchedAt: number;
+}
+
+const STABLECOINS = ['USDT', 'USDC', 'BUSD', 'DAI', 'TUSD', 'USDP', 'FDUSD', 'USD'];
+
+// USD-equivalent quotes tried for a direct pair, in order of preference
+const USD_QUOTES = ['USDT', 'USDC', 'FDUSD', 'USD', 'BUSD'];
+
+// Intermediate assets used when there is no direct USD pair
+const CROSS_ASSETS = ['BTC', 'ETH'];
+
+export class PriceService {
+  private tickers: Map<string, TickerCache> = new Map();
+  private inflight: Map<string, Promise<TickerCache | undefined>> = new Map();
+
+  constructor(
+    private getConnectors: () => ExchangeConnector[],
+    private ttlMs: number = config.pricing.ttlMs
+  ) {}
+
+  /**
+   * Get tickers for an exchange, refreshing when the cached copy is older than the TTL
+   */
+  private async getTickers(connector: ExchangeConnector): Promise<TickerCache | undefined> {
+    const cached = this.tickers.get(connector.exchangeName);
+    if (cached && Date.now() - cached.fetchedAt < this.ttlMs) {
+      return cached;
+    }
+
+    // Concurrent balance lookups share one ticker request per exchange
+    const pending = this.inflight.get(connector.exchangeName);
+    if (pending) return pending;
+
+    const request = connector
+      .fetchTickerPrices()
+      .then((prices) => {
+        const entry = { prices, fetchedAt: Date.now() };
+        this.tickers.set(connector.exchangeName, entry);
+        return entry;
+      })
+      .catch((error: any) => {
+        console.warn(`[PriceService] Failed to fetch tickers from ${connector.exchangeName}:`, error.message || error);
+        return cached; // Serve stale prices rather than none
+      })
+      .finally(() => this.inflight.delete(connector.exchangeName));
+
+    this.inflight.set(connector.exchangeName, request);
+    return request;
+  }
+
+  /**
+   * Find a USD price for an asset in one exchange's tickers
+   */
+  private resolve(asset: string, exchange: string, prices: Record<string, number>): { price: number; source: string } | null {
+    for (const quote of USD_QUOTES) {
+      const price = prices[`${asset}${quote}`];
+      if (price) return { price, source: `${exchange}:${asset}${quote}` };
+    }
+
+    for (const cross of CROSS_ASSETS) {
+      const crossPrice = prices[`${asset}${cross}`];
+      if (!crossPrice) continue;
+      for (const quote of USD_QUOTES) {
+        const crossUsd = prices[`${cross}${quote}`];
+        if (crossUsd) {
+          return { price: crossPrice * crossUsd, source: `${exchange}:${asset}${cross}*${cross}${quote}` };
+        }
+      }
+    }
+
+    // Inverse pairs (e.g. USDTTRY) for fiat-like assets
+    for (const quote of USD_QUOTES) {
+      const inverse = prices[`${quote}${asset}`];
+      if (inverse) return { price: 1 / inverse, source: `${exchange}:1/${quote}${asset}` };
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the USD price of an asset, preferring the exchange the balance is held on
+   */
+  async getQuote(asset: string, preferredExchange?: string): Promise<PriceQuote> {
+    const assetUpper = asset.toUpperCase();
+    if (STABLECOINS.includes(assetUpper)) {
+      return { price: 1.0, source: 'stablecoin', timestamp: Date.now() };
+    }
+
+    const connectors = this.getConnectors().sort((a, b) => {
+      if (a.exchangeName === preferredExchange) return -1;
+      if (b.exchangeName === preferredExchange) return 1;
+      return 0;
+    });
+
+    for (const connector of connectors) {
+      const tickers = await this.getTickers(connector);
+      if (!tickers) continue;
+      const resolved = this.resolve(assetUpper, connector.exchangeName, tickers.prices);
+      if (resolved) {
+        return { ...resolved, timestamp: tickers.fetchedAt };
+      }
+    }
+
+    return { price: 0, source: 'none', timestamp: Date.now() };
+  }
+
+  /**
+   * Drop cached tickers for an exchange (e.g. when its connector is removed)
+   */
+  invalidate(exchange?: string): void {
+    if (exchange) {
+      this.tickers.delete(exchange);
+    } else {
+      this.tickers.clear();
+    }
+  }
+}
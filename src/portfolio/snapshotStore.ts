@@ -0,0 +1,133 @@
+/**
+ * Snapshot Store
+ * Persists portfolio snapshots per user and serves downsampled equity curves
+ */
+
+import { Pool } from 'pg';
+import { config } from '../config';
+import { PortfolioSnapshot, EquityPoint, EquityReference, HistoryInterval } from '../types';
+
+const pool = new Pool({
+  host: config.database.host,
+  port: config.database.port,
+  database: config.database.database,
+  user: config.database.user,
+  password: String(config.database.password || 'postgres'),
+});
+
+export const HISTORY_INTERVALS: Record<HistoryInterval, number> = {
+  '1m': 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+export class SnapshotStore {
+  /**
+   * Store a portfolio snapshot (equity, unrealized PnL, allocations)
+   */
+  async storeSnapshot(snapshot: PortfolioSnapshot, userId: number): Promise<void> {
+    await pool.query(
+      `INSERT INTO portfolio_snapshots (
+         user_id, timestamp, total_net_equity, total_unrealized_pnl, asset_allocation, exchange_allocation
+       ) VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        userId,
+        snapshot.timestamp,
+        snapshot.totalNetEquity,
+        snapshot.totalUnrealizedPnl,
+        JSON.stringify(snapshot.assetAllocation),
+        JSON.stringify(snapshot.exchangeAllocation),
+      ]
+    );
+  }
+
+  /**
+   * Get stored snapshots within a time range (oldest first, without positions/balances)
+   */
+  async getSnapshotsInRange(userId: number, startTime: number, endTime: number): Promise<PortfolioSnapshot[]> {
+    const result = await pool.query(
+      `SELECT timestamp, total_net_equity, total_unrealized_pnl, asset_allocation, exchange_allocation
+       FROM portfolio_snapshots
+       WHERE user_id = $1 AND timestamp BETWEEN $2 AND $3
+       ORDER BY timestamp ASC`,
+      [userId, startTime, endTime]
+    );
+
+    return result.rows.map((row: any) => ({
+      timestamp: Number(row.timestamp),
+      totalNetEquity: parseFloat(row.total_net_equity),
+      totalUnrealizedPnl: parseFloat(row.total_unrealized_pnl),
+      assetAllocation: row.asset_allocation || [],
+      exchangeAllocation: row.exchange_allocation || [],
+      positions: [],
+      balances: [],
+    }));
+  }
+
+  /**
+   * Get the stored snapshot closest to a target time (null if none within tolerance)
+   */
+  async getClosestSnapshot(userId: number, targetTime: number, toleranceMs: number): Promise<EquityReference | null> {
+    const result = await pool.query(
+      `SELECT timestamp, total_net_equity
+       FROM portfolio_snapshots
+       WHERE user_id = $1 AND timestamp BETWEEN $2 AND $3
+       ORDER BY ABS(timestamp - $4) ASC
+       LIMIT 1`,
+      [userId, targetTime - toleranceMs, targetTime + toleranceMs, targetTime]
+    );
+    if (result.rows.length === 0) return null;
+    return {
+      timestamp: Number(result.rows[0].timestamp),
+      totalNetEquity: parseFloat(result.rows[0].total_net_equity),
+    };
+  }
+
+  /**
+   * Apply retention: drop snapshots older than `retentionMs` and keep only the last snapshot per
+   * `downsampleMs` bucket for those older than `rawRetentionMs`. Returns the number removed.
+   */
+  async pruneSnapshots(now: number, rawRetentionMs: number, downsampleMs: number, retentionMs: number): Promise<number> {
+    const expired = await pool.query(`DELETE FROM portfolio_snapshots WHERE timestamp < $1`, [now - retentionMs]);
+    const downsampled = await pool.query(
+      `DELETE FROM portfolio_snapshots p
+       USING (
+         SELECT id, ROW_NUMBER() OVER (PARTITION BY user_id, timestamp / $2 ORDER BY timestamp DESC) AS rn
+         FROM portfolio_snapshots
+         WHERE timestamp < $1
+       ) ranked
+       WHERE p.id = ranked.id AND ranked.rn > 1`,
+      [now - rawRetentionMs, downsampleMs]
+    );
+    return (expired.rowCount ?? 0) + (downsampled.rowCount ?? 0);
+  }
+
+  /**
+   * Get the equity curve in fixed buckets (last snapshot per bucket)
+   */
+  async getEquityHistory(
+    userId: number,
+    startTime: number,
+    endTime: number,
+    interval: HistoryInterval
+  ): Promise<EquityPoint[]> {
+    const bucketMs = HISTORY_INTERVALS[interval];
+    const result = await pool.query(
+      `SELECT DISTINCT ON (bucket)
+         (timestamp / $4) * $4 AS bucket, total_net_equity, total_unrealized_pnl
+       FROM portfolio_snapshots
+       WHERE user_id = $1 AND timestamp BETWEEN $2 AND $3
+       ORDER BY bucket ASC, timestamp DESC`,
+      [userId, startTime, endTime, bucketMs]
+    );
+
+    return result.rows.map((row: any) => ({
+      timestamp: Number(row.bucket),
+      totalNetEquity: parseFloat(row.total_net_equity),
+      totalUnrealizedPnl: parseFloat(row.total_unrealized_pnl),
+    }));
+  }
+}
+
+// Export singleton instance
+export const snapshotStore = new SnapshotStore();
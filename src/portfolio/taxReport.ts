@@ -0,0 +1,175 @@
+/**
+ * Tax Report
+ * Capital-gains disposals for a calendar year (UTC), one row per lot consumed by a sale
+ */
+
+import { CostBasisMethod, RealizedTrade } from '../types';
+import { PnlEngine } from './pnlEngine';
+import { config } from '../config';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TaxReportRow {
+  exchange: string;
+  tradeId: string;
+  symbol: string;
+  asset: string;
+  quote: string; // Reporting currency of the amounts
+  quantity: number;
+  acquiredAt: number | null; // null when the sale had no matching acquisition
+  disposedAt: number;
+  holdingDays: number | null;
+  term: 'short' | 'long' | null;
+  proceeds: number;
+  costBasis: number | null; // Includes acquisitionFee
+  acquisitionFee: number;
+  disposalFee: number;
+  gain: number | null; // proceeds - costBasis - disposalFee
+  feeEstimated: boolean;
+  priceEstimated: boolean;
+}
+
+export interface TaxReportTotals {
+  proceeds: number;
+  costBasis: number;
+  fees: number;
+  gain: number;
+  shortTermGain: number;
+  longTermGain: number;
+  unmatchedDisposals: number;
+}
+
+export interface TaxReport {
+  year: number;
+  method: CostBasisMethod;
+  generatedAt: number;
+  rows: TaxReportRow[];
+  totals: Record<string, TaxReportTotals>; // Per reporting currency
+}
+
+/**
+ * Build the report for disposals in `year` from an engine that has replayed the user's trades
+ */
+export function buildTaxReport(engine: PnlEngine, year: number, method: CostBasisMethod): TaxReport {
+  const from = Date.UTC(year, 0, 1);
+  const to = Date.UTC(year + 1, 0, 1) - 1;
+  const rows = engine.getRealizedTrades(from, to).flatMap(toRows);
+
+  const totals: Record<string, TaxReportTotals> = {};
+  rows.forEach((row) => {
+    const total = (totals[row.quote] ||= {
+      proceeds: 0,
+      costBasis: 0,
+      fees: 0,
+      gain: 0,
+      shortTermGain: 0,
+      longTermGain: 0,
+      unmatchedDisposals: 0,
+    });
+    if (row.gain === null || row.costBasis === null) {
+      total.unmatchedDisposals++;
+      return;
+    }
+    total.proceeds += row.proceeds;
+    total.costBasis += row.costBasis;
+    total.fees += row.acquisitionFee + row.disposalFee;
+    total.gain += row.gain;
+    if (row.term === 'long') total.longTermGain += row.gain;
+    else total.shortTermGain += row.gain;
+  });
+
+  return { year, method, generatedAt: Date.now(), rows, totals };
+}
+
+function toRows(trade: RealizedTrade): TaxReportRow[] {
+  const matchedQuantity = trade.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const disposalFee = trade.proceeds - trade.costBasis - trade.realizedPnl;
+  const base = {
+    exchange: trade.exchange,
+    tradeId: trade.tradeId,
+    symbol: trade.symbol,
+    asset: trade.asset,
+    quote: trade.quote,
+    disposedAt: trade.timestamp,
+    feeEstimated: trade.feeEstimated,
+    priceEstimated: trade.priceEstimated,
+  };
+
+  const rows: TaxReportRow[] = trade.lots.map((lot) => {
+    const share = matchedQuantity > 0 ? lot.quantity / matchedQuantity : 0;
+    const holdingDays = Math.floor((trade.timestamp - lot.acquiredAt) / DAY_MS);
+    const proceeds = trade.proceeds * share;
+    const fee = disposalFee * share;
+    return {
+      ...base,
+      quantity: lot.quantity,
+      acquiredAt: lot.acquiredAt,
+      holdingDays,
+      term: holdingDays > config.reports.longTermDays ? 'long' : 'short',
+      proceeds,
+      costBasis: lot.costBasis,
+      acquisitionFee: lot.acquisitionFee,
+      disposalFee: fee,
+      gain: proceeds - lot.costBasis - fee,
+    };
+  });
+
+  if (trade.unmatchedQuantity > 0) {
+    rows.push({
+      ...base,
+      quantity: trade.unmatchedQuantity,
+      acquiredAt: null,
+      holdingDays: null,
+      term: null,
+      proceeds: trade.unmatchedQuantity * trade.price,
+      costBasis: null,
+      acquisitionFee: 0,
+      disposalFee: 0,
+      gain: null,
+    });
+  }
+
+  return rows;
+}
+
+const CSV_COLUMNS: Array<[string, (row: TaxReportRow) => string | number | null]> = [
+  ['Exchange', (r) => r.exchange],
+  ['Trade ID', (r) => r.tradeId],
+  ['Symbol', (r) => r.symbol],
+  ['Asset', (r) => r.asset],
+  ['Currency', (r) => r.quote],
+  ['Quantity', (r) => round(r.quantity)],
+  ['Acquired', (r) => (r.acquiredAt !== null ? new Date(r.acquiredAt).toISOString() : null)],
+  ['Disposed', (r) => new Date(r.disposedAt).toISOString()],
+  ['Holding Days', (r) => r.holdingDays],
+  ['Term', (r) => r.term],
+  ['Proceeds', (r) => round(r.proceeds)],
+  ['Cost Basis', (r) => (r.costBasis !== null ? round(r.costBasis) : null)],
+  ['Acquisition Fee', (r) => round(r.acquisitionFee)],
+  ['Disposal Fee', (r) => round(r.disposalFee)],
+  ['Gain', (r) => (r.gain !== null ? round(r.gain) : null)],
+  ['Fee Estimated', (r) => (r.feeEstimated ? 'yes' : 'no')],
+  ['Price Estimated', (r) => (r.priceEstimated ? 'yes' : 'no')],
+  ['Note', (r) => (r.acquiredAt === null ? 'No acquisition record' : null)],
+];
+
+/**
+ * Render rows as CSV (RFC 4180 quoting)
+ */
+export function taxReportToCsv(report: TaxReport): string {
+  const lines = [CSV_COLUMNS.map(([header]) => header).join(',')];
+  report.rows.forEach((row) => {
+    lines.push(CSV_COLUMNS.map(([, value]) => escapeCsv(value(row))).join(','));
+  });
+  return lines.join('\r\n') + '\r\n';
+}
+
+function escapeCsv(value: string | number | null): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(8));
+}
@@ -0,0 +1,32 @@
+/**
+ * Alert Dispatcher
+ * Single path for emitted alerts: persist to history, then publish to the owning user
+ */
+
+import { AlertEvent } from '../types';
+import { EventBus } from './eventBus';
+import { storeAlert } from '../database/alerts';
+
+export class AlertDispatcher {
+  private eventBus: EventBus;
+
+  constructor(eventBus: EventBus) {
+    this.eventBus = eventBus;
+  }
+
+  /**
+   * Persist and publish an alert (publishes even if the DB is unavailable)
+   */
+  async dispatch(alert: AlertEvent): Promise<void> {
+    let stored = alert;
+    if (alert.userId !== undefined) {
+      try {
+        stored = await storeAlert({ ...alert, userId: alert.userId });
+      } catch (error: any) {
+        console.warn('[AlertDispatcher] Failed to persist alert:', error.message || error);
+      }
+    }
+
+    await this.eventBus.publishAlert(stored);
+  }
+}
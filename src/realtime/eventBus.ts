@@ -4,13 +4,15 @@
  */
 
 import { createClient, RedisClientType } from 'redis';
-import { RealtimeUpdate, AlertEvent } from '../types';
+import { RealtimeUpdate, AlertEvent, PortfolioSnapshot } from '../types';
 import { config } from '../config';
 
 export class EventBus {
   private publisher: RedisClientType | null = null;
   private subscriber: RedisClientType | null = null;
   private isConnected: boolean = false;
+  private updateListeners: Array<(update: RealtimeUpdate, userId?: number) => void> = [];
+  private alertListeners: Array<(alert: AlertEvent) => void> = [];
 
   /**
    * Initialize Redis connections
@@ -46,6 +48,8 @@ export class EventBus {
    * Publish real-time update (optional userId for per-user WebSocket delivery)
    */
   async publishUpdate(update: RealtimeUpdate, userId?: number): Promise<void> {
+    this.updateListeners.forEach((listener) => listener(update, userId));
+
     if (!this.isConnected || !this.publisher) {
       console.warn('[EventBus] Not connected, update not published');
       return;
@@ -60,9 +64,27 @@ export class EventBus {
   }
 
   /**
-   * Publish alert
+   * Publish a user's portfolio snapshot
+   */
+  async publishSnapshot(snapshot: PortfolioSnapshot, userId: number): Promise<void> {
+    if (!this.isConnected || !this.publisher) {
+      console.warn('[EventBus] Not connected, snapshot not published');
+      return;
+    }
+
+    try {
+      await this.publisher.publish('portfolio:snapshots', JSON.stringify({ snapshot, userId }));
+    } catch (error) {
+      console.error('[EventBus] Failed to publish snapshot:', error);
+    }
+  }
+
+  /**
+   * Publish alert (delivered only to alert.userId)
    */
   async publishAlert(alert: AlertEvent): Promise<void> {
+    this.alertListeners.forEach((listener) => listener(alert));
+
     if (!this.isConnected || !this.publisher) {
       console.warn('[EventBus] Not connected, alert not published');
       return;
@@ -75,6 +97,20 @@ export class EventBus {
     }
   }
 
+  /**
+   * Register an in-process listener for updates published from this instance (runs even without Redis)
+   */
+  onUpdatePublished(listener: (update: RealtimeUpdate, userId?: number) => void): void {
+    this.updateListeners.push(listener);
+  }
+
+  /**
+   * Register an in-process listener for alerts published from this instance (runs even without Redis)
+   */
+  onAlertPublished(listener: (alert: AlertEvent) => void): void {
+    this.alertListeners.push(listener);
+  }
+
   /**
    * Subscribe to updates (callback receives update and optional userId for per-user filtering)
    */
@@ -102,6 +138,29 @@ export class EventBus {
     }
   }
 
+  /**
+   * Subscribe to per-user portfolio snapshots
+   */
+  async subscribeToSnapshots(callback: (snapshot: PortfolioSnapshot, userId: number) => void): Promise<void> {
+    if (!this.isConnected || !this.subscriber) {
+      console.warn('[EventBus] Not connected, cannot subscribe');
+      return;
+    }
+
+    try {
+      await this.subscriber.subscribe('portfolio:snapshots', (message) => {
+        try {
+          const parsed = JSON.parse(message);
+          callback(parsed.snapshot as PortfolioSnapshot, parsed.userId);
+        } catch (error) {
+          console.error('[EventBus] Failed to parse snapshot message:', error);
+        }
+      });
+    } catch (error) {
+      console.error('[EventBus] Failed to subscribe to snapshots:', error);
+    }
+  }
+
   /**
    * Subscribe to alerts
    */
@@ -17,6 +17,11 @@ export class RealtimeMonitor {
   private previousBalances: Map<string, UnifiedBalance> = new Map();
   private previousPositions: Map<string, UnifiedPosition> = new Map();
   private previousEquity: number = 0;
+  private userId?: number;
+
+  constructor(userId?: number) {
+    this.userId = userId;
+  }
 
   /**
    * Register alert callback
@@ -153,9 +158,10 @@ export class RealtimeMonitor {
    * Emit alert to all registered callbacks
    */
   private emitAlert(alert: AlertEvent): void {
+    const owned: AlertEvent = this.userId !== undefined ? { ...alert, userId: this.userId } : alert;
     this.alertCallbacks.forEach((callback) => {
       try {
-        callback(alert);
+        callback(owned);
       } catch (error) {
         console.error('[RealtimeMonitor] Error in alert callback:', error);
       }
@@ -0,0 +1,329 @@
+/**
+ * Alert Rules Engine
+ * Evaluates a user's alert rules against snapshots and realtime updates
+ */
+
+import {
+  AlertRule,
+  AlertRuleType,
+  AlertRuleParams,
+  AlertEvent,
+  AlertCallback,
+  PortfolioSnapshot,
+  RealtimeUpdate,
+  UnifiedPosition,
+} from '../types';
+import { splitSymbol } from '../normalizer';
+import { markRuleTriggered } from '../database/alertRules';
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = [
+  'price_cross',
+  'allocation_above',
+  'position_pnl_below',
+  'leverage_above',
+  'balance_below',
+  'funding_rate_spike',
+];
+
+export type NewAlertRule = Pick<AlertRule, 'type' | 'params' | 'severity' | 'cooldownMs' | 'enabled'>;
+
+const DEFAULT_COOLDOWN_MS = 60 * 60 * 1000;
+const STABLE_QUOTES = ['USDT', 'USDC', 'FDUSD', 'BUSD', 'USD'];
+
+/**
+ * Validate a rule definition from the API (returns an error message or the normalized rule)
+ */
+export function parseAlertRule(input: any): { rule?: NewAlertRule; error?: string } {
+  const type = input?.type as AlertRuleType;
+  if (!ALERT_RULE_TYPES.includes(type)) {
+    return { error: `Invalid rule type. Allowed: ${ALERT_RULE_TYPES.join(', ')}` };
+  }
+
+  const raw = input.params || {};
+  const threshold = Number(raw.threshold);
+  if (raw.threshold === undefined || !Number.isFinite(threshold)) {
+    return { error: 'params.threshold must be a number' };
+  }
+
+  const params: AlertRuleParams = { threshold };
+  if (raw.symbol) params.symbol = String(raw.symbol).replace('/', '').toUpperCase();
+  if (raw.asset) params.asset = String(raw.asset).toUpperCase();
+  if (raw.exchange) params.exchange = String(raw.exchange).toLowerCase();
+
+  switch (type) {
+    case 'price_cross':
+      if (!params.symbol) return { error: 'params.symbol is required for price_cross' };
+      if (raw.direction !== 'above' && raw.direction !== 'below') {
+        return { error: "params.direction must be 'above' or 'below'" };
+      }
+      params.direction = raw.direction;
+      break;
+    case 'allocation_above':
+      if (!params.asset) return { error: 'params.asset is required for allocation_above' };
+      if (threshold <= 0 || threshold > 100) return { error: 'params.threshold must be a percentage (0-100]' };
+      break;
+    case 'balance_below':
+      if (!params.asset || !params.exchange) {
+        return { error: 'params.asset and params.exchange are required for balance_below' };
+      }
+      params.unit = raw.unit === 'quantity' ? 'quantity' : 'usd';
+      break;
+    case 'funding_rate_spike':
+      if (!params.symbol) return { error: 'params.symbol is required for funding_rate_spike' };
+      if (threshold <= 0) return { error: 'params.threshold must be positive' };
+      break;
+    default:
+      break;
+  }
+
+  const severity = input.severity || 'warning';
+  if (!['info', 'warning', 'critical'].includes(severity)) {
+    return { error: "severity must be 'info', 'warning' or 'critical'" };
+  }
+
+  const cooldownMs = input.cooldownMs !== undefined ? Number(input.cooldownMs) : DEFAULT_COOLDOWN_MS;
+  if (!Number.isFinite(cooldownMs) || cooldownMs < 0) {
+    return { error: 'cooldownMs must be a non-negative number' };
+  }
+
+  return {
+    rule: { type, params, severity, cooldownMs, enabled: input.enabled !== false },
+  };
+}
+
+export interface RuleEngineLookups {
+  getPrice?(asset: string, exchange?: string): Promise<number>;
+  getFundingRates?(symbols: string[]): Promise<Record<string, Record<string, number>>>; // exchange -> symbol -> rate
+}
+
+export class AlertRuleEngine {
+  private userId: number;
+  private rules: AlertRule[] = [];
+  private lookups: RuleEngineLookups;
+  private alertCallbacks: AlertCallback[] = [];
+  private lastPrices: Map<number, number> = new Map(); // ruleId -> last observed price (price_cross)
+
+  constructor(userId: number, lookups: RuleEngineLookups = {}) {
+    this.userId = userId;
+    this.lookups = lookups;
+  }
+
+  /**
+   * Replace the active rule set (keeps cross state for rules that still exist)
+   */
+  setRules(rules: AlertRule[]): void {
+    this.rules = rules;
+    const ids = new Set(rules.map((r) => r.id));
+    Array.from(this.lastPrices.keys()).forEach((id) => {
+      if (!ids.has(id)) this.lastPrices.delete(id);
+    });
+  }
+
+  getRules(): AlertRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Register alert callback
+   */
+  onAlert(callback: AlertCallback): void {
+    this.alertCallbacks.push(callback);
+  }
+
+  /**
+   * Evaluate all rules against a portfolio snapshot
+   */
+  async evaluateSnapshot(snapshot: PortfolioSnapshot): Promise<void> {
+    const active = this.rules.filter((r) => r.enabled);
+    if (active.length === 0) return;
+
+    for (const rule of active.filter((r) => r.type === 'price_cross')) {
+      const price = await this.resolveSnapshotPrice(rule.params, snapshot);
+      if (price !== undefined) this.checkPriceCross(rule, price);
+    }
+
+    active
+      .filter((r) => r.type === 'allocation_above')
+      .forEach((rule) => this.checkAllocation(rule, snapshot));
+
+    active
+      .filter((r) => r.type === 'position_pnl_below' || r.type === 'leverage_above')
+      .forEach((rule) => snapshot.positions.forEach((p) => this.checkPosition(rule, p)));
+
+    active
+      .filter((r) => r.type === 'balance_below')
+      .forEach((rule) => this.checkBalance(rule, snapshot));
+
+    const fundingRules = active.filter((r) => r.type === 'funding_rate_spike');
+    if (fundingRules.length > 0 && this.lookups.getFundingRates) {
+      try {
+        const symbols = Array.from(new Set(fundingRules.map((r) => r.params.symbol!)));
+        const rates = await this.lookups.getFundingRates(symbols);
+        fundingRules.forEach((rule) => this.checkFunding(rule, rates));
+      } catch (error: any) {
+        console.warn('[AlertRuleEngine] Failed to fetch funding rates:', error.message || error);
+      }
+    }
+  }
+
+  /**
+   * Evaluate position-based rules against a realtime update.
+   * Balance pushes are per account type (spot/futures), so balance and allocation
+   * rules use the merged snapshot view instead.
+   */
+  evaluateUpdate(update: RealtimeUpdate): void {
+    if (update.type !== 'position') return;
+    const position = update.data as UnifiedPosition;
+
+    this.rules
+      .filter((r) => r.enabled)
+      .forEach((rule) => {
+        if (rule.type === 'price_cross' && this.matches(rule.params, position.symbol, position.exchange)) {
+          if (position.markPrice > 0) this.checkPriceCross(rule, position.markPrice);
+        } else if (rule.type === 'position_pnl_below' || rule.type === 'leverage_above') {
+          this.checkPosition(rule, position);
+        }
+      });
+  }
+
+  private matches(params: AlertRuleParams, symbol: string, exchange: string): boolean {
+    if (params.exchange && params.exchange !== exchange) return false;
+    return !params.symbol || params.symbol === symbol.replace('/', '').toUpperCase();
+  }
+
+  /**
+   * Price for a symbol: position mark price, else spot balance valuation, else the price service
+   */
+  private async resolveSnapshotPrice(params: AlertRuleParams, snapshot: PortfolioSnapshot): Promise<number | undefined> {
+    const position = snapshot.positions.find((p) => this.matches(params, p.symbol, p.exchange));
+    if (position && position.markPrice > 0) return position.markPrice;
+
+    const pair = splitSymbol(params.symbol!);
+    if (!pair || !STABLE_QUOTES.includes(pair.quote)) return undefined;
+
+    const balance = snapshot.balances.find(
+      (b) => b.asset === pair.base && b.total > 0 && b.usdValue > 0 && (!params.exchange || b.exchange === params.exchange)
+    );
+    if (balance) return balance.usdValue / balance.total;
+
+    if (this.lookups.getPrice) {
+      try {
+        const price = await this.lookups.getPrice(pair.base, params.exchange);
+        return price > 0 ? price : undefined;
+      } catch (error: any) {
+        console.warn(`[AlertRuleEngine] Failed to price ${pair.base}:`, error.message || error);
+      }
+    }
+    return undefined;
+  }
+
+  private checkPriceCross(rule: AlertRule, price: number): void {
+    const previous = this.lastPrices.get(rule.id);
+    this.lastPrices.set(rule.id, price);
+    if (previous === undefined) return; // Need a prior observation to detect a cross
+
+    const { threshold, direction, symbol } = rule.params;
+    const crossed =
+      direction === 'above' ? previous < threshold && price >= threshold : previous > threshold && price <= threshold;
+    if (crossed) {
+      this.trigger(rule, `${symbol} crossed ${direction} ${threshold} (now ${price})`, { price, previous });
+    }
+  }
+
+  private checkAllocation(rule: AlertRule, snapshot: PortfolioSnapshot): void {
+    const { asset, exchange, threshold } = rule.params;
+    const balances = exchange ? snapshot.balances.filter((b) => b.exchange === exchange) : snapshot.balances;
+    const total = balances.reduce((sum, b) => sum + b.usdValue, 0);
+    if (total <= 0) return;
+
+    const assetValue = balances.filter((b) => b.asset === asset).reduce((sum, b) => sum + b.usdValue, 0);
+    const percentage = (assetValue / total) * 100;
+    if (percentage > threshold) {
+      this.trigger(
+        rule,
+        `${asset} allocation is ${percentage.toFixed(2)}% (above ${threshold}%)${exchange ? ` on ${exchange}` : ''}`,
+        { asset, percentage, usdValue: assetValue },
+        exchange
+      );
+    }
+  }
+
+  private checkPosition(rule: AlertRule, position: UnifiedPosition): void {
+    if (!this.matches(rule.params, position.symbol, position.exchange) || position.size === 0) return;
+    const { threshold } = rule.params;
+
+    if (rule.type === 'position_pnl_below' && position.unrealizedPnl < threshold) {
+      this.trigger(
+        rule,
+        `${position.symbol} ${position.side} on ${position.exchange}: unrealized PnL $${position.unrealizedPnl.toFixed(2)} (below $${threshold})`,
+        { symbol: position.symbol, side: position.side, unrealizedPnl: position.unrealizedPnl },
+        position.exchange
+      );
+    } else if (rule.type === 'leverage_above' && position.leverage > threshold) {
+      this.trigger(
+        rule,
+        `${position.symbol} ${position.side} on ${position.exchange}: leverage ${position.leverage}x (above ${threshold}x)`,
+        { symbol: position.symbol, side: position.side, leverage: position.leverage },
+        position.exchange
+      );
+    }
+  }
+
+  private checkBalance(rule: AlertRule, snapshot: PortfolioSnapshot): void {
+    const { asset, exchange, threshold, unit } = rule.params;
+    const balances = snapshot.balances.filter((b) => b.asset === asset && b.exchange === exchange);
+    const value = balances.reduce((sum, b) => sum + (unit === 'quantity' ? b.total : b.usdValue), 0);
+
+    if (value < threshold) {
+      const formatted = unit === 'quantity' ? `${value} ${asset}` : `$${value.toFixed(2)}`;
+      this.trigger(rule, `${asset} balance on ${exchange} is ${formatted} (below ${threshold})`, { asset, value }, exchange);
+    }
+  }
+
+  private checkFunding(rule: AlertRule, rates: Record<string, Record<string, number>>): void {
+    const { symbol, exchange, threshold } = rule.params;
+    Object.entries(rates).forEach(([ex, bySymbol]) => {
+      if (exchange && ex !== exchange) return;
+      const rate = bySymbol[symbol!];
+      if (rate !== undefined && Math.abs(rate) >= threshold) {
+        this.trigger(
+          rule,
+          `${symbol} funding rate on ${ex} is ${(rate * 100).toFixed(4)}% (threshold ${(threshold * 100).toFixed(4)}%)`,
+          { symbol, fundingRate: rate },
+          ex
+        );
+      }
+    });
+  }
+
+  /**
+   * Emit an alert for a rule unless it is cooling down
+   */
+  private trigger(rule: AlertRule, message: string, data: Record<string, any>, exchange?: string): void {
+    const now = Date.now();
+    if (rule.lastTriggeredAt && now - rule.lastTriggeredAt < rule.cooldownMs) return;
+    rule.lastTriggeredAt = now;
+
+    markRuleTriggered(rule.id, now).catch((error: any) => {
+      console.warn(`[AlertRuleEngine] Failed to record trigger for rule ${rule.id}:`, error.message || error);
+    });
+
+    const alert: AlertEvent = {
+      type: rule.type,
+      severity: rule.severity,
+      message,
+      exchange,
+      userId: this.userId,
+      timestamp: now,
+      data: { ruleId: rule.id, threshold: rule.params.threshold, ...data },
+    };
+
+    this.alertCallbacks.forEach((callback) => {
+      try {
+        callback(alert);
+      } catch (error) {
+        console.error('[AlertRuleEngine] Error in alert callback:', error);
+      }
+    });
+  }
+}
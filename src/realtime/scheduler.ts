@@ -0,0 +1,189 @@
+/**
+ * Snapshot Scheduler
+ * Periodically snapshots every user with registered exchanges (jitter, backoff, rate-limit aware)
+ */
+
+import { UserContextService } from '../auth/userContextService';
+import { EventBus } from './eventBus';
+import { getUserIdsWithExchanges } from '../database/exchangeAccounts';
+import { rateLimiter } from '../security/rateLimiter';
+import { snapshotStore } from '../portfolio/snapshotStore';
+import { config } from '../config';
+
+export interface SchedulerOptions {
+  intervalMs: number;
+  jitterMs: number;
+  maxBackoffMs: number;
+  minRateLimitRemaining: number;
+}
+
+interface UserSchedule {
+  timer: NodeJS.Timeout | null;
+  running: boolean;
+  consecutiveFailures: number;
+}
+
+export class SnapshotScheduler {
+  private userContextService: UserContextService;
+  private eventBus: EventBus;
+  private options: SchedulerOptions;
+  private schedules: Map<number, UserSchedule> = new Map();
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private pruneTimer: NodeJS.Timeout | null = null;
+  private started = false;
+
+  constructor(userContextService: UserContextService, eventBus: EventBus, options: Partial<SchedulerOptions> = {}) {
+    this.userContextService = userContextService;
+    this.eventBus = eventBus;
+    this.options = {
+      intervalMs: config.scheduler.intervalMs,
+      jitterMs: config.scheduler.jitterMs,
+      maxBackoffMs: config.scheduler.maxBackoffMs,
+      minRateLimitRemaining: config.scheduler.minRateLimitRemaining,
+      ...options,
+    };
+  }
+
+  /**
+   * Start polling (user list is re-read every interval to pick up new registrations)
+   */
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+    console.log(`[Scheduler] Starting snapshot scheduler (every ${this.options.intervalMs}ms ± ${this.options.jitterMs}ms)`);
+
+    await this.refreshUsers();
+    this.refreshTimer = setInterval(() => this.refreshUsers(), this.options.intervalMs);
+    this.pruneTimer = setInterval(() => this.pruneHistory(), config.scheduler.pruneIntervalMs);
+  }
+
+  /**
+   * Stop all timers
+   */
+  stop(): void {
+    this.started = false;
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+    this.schedules.forEach((schedule) => {
+      if (schedule.timer) clearTimeout(schedule.timer);
+    });
+    this.schedules.clear();
+  }
+
+  /**
+   * Downsample and expire stored snapshot history
+   */
+  private async pruneHistory(): Promise<void> {
+    try {
+      const removed = await snapshotStore.pruneSnapshots(
+        Date.now(),
+        config.scheduler.rawRetentionMs,
+        config.scheduler.downsampleMs,
+        config.scheduler.retentionMs
+      );
+      if (removed > 0) console.log(`[Scheduler] Pruned ${removed} stored snapshots`);
+    } catch (error: any) {
+      console.warn('[Scheduler] Failed to prune snapshot history:', error.message || error);
+    }
+  }
+
+  /**
+   * Sync schedules with users that have registered exchanges
+   */
+  private async refreshUsers(): Promise<void> {
+    let userIds: number[];
+    try {
+      userIds = await getUserIdsWithExchanges();
+    } catch (error: any) {
+      console.warn('[Scheduler] Failed to load users:', error.message || error);
+      return;
+    }
+
+    const active = new Set(userIds);
+    userIds.forEach((userId) => {
+      if (!this.schedules.has(userId)) {
+        this.schedules.set(userId, { timer: null, running: false, consecutiveFailures: 0 });
+        // Spread first polls across the interval so users don't hit exchanges at once
+        this.scheduleNext(userId, Math.random() * this.options.intervalMs);
+      }
+    });
+
+    this.schedules.forEach((schedule, userId) => {
+      if (!active.has(userId)) {
+        if (schedule.timer) clearTimeout(schedule.timer);
+        this.schedules.delete(userId);
+      }
+    });
+  }
+
+  private scheduleNext(userId: number, delayMs: number): void {
+    const schedule = this.schedules.get(userId);
+    if (!schedule || !this.started) return;
+    if (schedule.timer) clearTimeout(schedule.timer);
+    schedule.timer = setTimeout(() => this.poll(userId), delayMs);
+  }
+
+  /**
+   * Next delay: interval with jitter, doubled per consecutive failure up to maxBackoffMs
+   */
+  private nextDelay(consecutiveFailures: number): number {
+    const base = Math.min(
+      this.options.intervalMs * Math.pow(2, consecutiveFailures),
+      Math.max(this.options.maxBackoffMs, this.options.intervalMs)
+    );
+    const jitter = (Math.random() * 2 - 1) * this.options.jitterMs;
+    return Math.max(1000, base + jitter);
+  }
+
+  /**
+   * Take one snapshot for a user and publish it
+   */
+  private async poll(userId: number): Promise<void> {
+    const schedule = this.schedules.get(userId);
+    if (!schedule || schedule.running) return;
+    schedule.running = true;
+
+    try {
+      const portfolioManager = await this.userContextService.getPortfolioManager(userId);
+      const exchanges = portfolioManager.getRegisteredExchanges();
+
+      // Defer if any exchange is close to its request budget (user-facing calls take priority)
+      const exhausted = exchanges.filter(
+        (exchange) => rateLimiter.getRemaining(exchange) < this.options.minRateLimitRemaining
+      );
+      if (exhausted.length > 0) {
+        console.log(`[Scheduler] Deferring user ${userId}: rate limit budget low for ${exhausted.join(', ')}`);
+        return;
+      }
+
+      // Streamed exchanges come from live state; REST only where a reconcile is due
+      const snapshot = await portfolioManager.takeSnapshot();
+      const errors = portfolioManager.getLastFetchErrors();
+
+      if (errors.size > 0) {
+        schedule.consecutiveFailures++;
+        console.warn(
+          `[Scheduler] User ${userId}: ${errors.size} exchange(s) failed (${Array.from(errors.keys()).join(', ')}), ` +
+            `backing off (attempt ${schedule.consecutiveFailures})`
+        );
+        return;
+      }
+
+      // The user's RealtimeMonitor is fed through PortfolioManager.onSnapshot
+      schedule.consecutiveFailures = 0;
+      await this.eventBus.publishSnapshot(snapshot, userId);
+    } catch (error: any) {
+      schedule.consecutiveFailures++;
+      console.error(`[Scheduler] Snapshot failed for user ${userId}:`, error.message || error);
+    } finally {
+      schedule.running = false;
+      this.scheduleNext(userId, this.nextDelay(schedule.consecutiveFailures));
+    }
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Webhook Dispatcher
+ * Delivers alerts, order updates and fills to users' webhook endpoints
+ * (HMAC-SHA256 signed, retried with exponential backoff, dead-lettered on final failure)
+ */
+
+import axios from 'axios';
+import crypto from 'crypto';
+import { WebhookEndpoint, WebhookEventType, WebhookPayload, AlertEvent } from '../types';
+import { getEndpointsByUserId, storeDeadLetter } from '../database/webhooks';
+import { assertPublicUrl, publicHttpAgent, publicHttpsAgent } from '../security/urlGuard';
+import { config } from '../config';
+
+export interface DeliveryResult {
+  success: boolean;
+  status?: number;
+  error?: string;
+}
+
+export class WebhookDispatcher {
+  private endpoints: Map<number, WebhookEndpoint[]> = new Map();
+  private sequence = 0;
+
+  /**
+   * Deliver an event to every matching endpoint of the user (fire-and-forget)
+   */
+  async notify(userId: number, type: WebhookEventType, data: any): Promise<void> {
+    let endpoints: WebhookEndpoint[];
+    try {
+      endpoints = await this.getEndpoints(userId);
+    } catch (error: any) {
+      console.warn(`[Webhooks] Failed to load endpoints for user ${userId}:`, error.message || error);
+      return;
+    }
+
+    const matching = endpoints.filter((endpoint) => this.matches(endpoint, type, data));
+    if (matching.length === 0) return;
+
+    const payload = this.createPayload(userId, type, data);
+    matching.forEach((endpoint) => this.deliverWithRetry(endpoint, payload, 1));
+  }
+
+  /**
+   * Send a single test event (no retries) and report the outcome
+   */
+  async sendTest(endpoint: WebhookEndpoint): Promise<DeliveryResult> {
+    const payload = this.createPayload(endpoint.userId, 'test', {
+      message: 'Test event from portfolio webhooks',
+    });
+    return this.deliver(endpoint, payload);
+  }
+
+  /**
+   * Drop cached endpoints after they change
+   */
+  invalidate(userId: number): void {
+    this.endpoints.delete(userId);
+  }
+
+  private async getEndpoints(userId: number): Promise<WebhookEndpoint[]> {
+    let endpoints = this.endpoints.get(userId);
+    if (!endpoints) {
+      endpoints = await getEndpointsByUserId(userId);
+      this.endpoints.set(userId, endpoints);
+    }
+    return endpoints;
+  }
+
+  private matches(endpoint: WebhookEndpoint, type: WebhookEventType, data: any): boolean {
+    if (!endpoint.enabled || !endpoint.events.includes(type)) return false;
+
+    if (type === 'alert' && endpoint.severities && endpoint.severities.length > 0) {
+      return endpoint.severities.includes((data as AlertEvent).severity);
+    }
+    if (type === 'order' && endpoint.orderStatuses && endpoint.orderStatuses.length > 0) {
+      return endpoint.orderStatuses.includes(String(data?.status || '').toUpperCase());
+    }
+    return true;
+  }
+
+  private createPayload(userId: number, type: WebhookPayload['type'], data: any): WebhookPayload {
+    return {
+      id: `${Date.now()}-${++this.sequence}-${crypto.randomBytes(4).toString('hex')}`,
+      type,
+      userId,
+      timestamp: Date.now(),
+      data,
+    };
+  }
+
+  /**
+   * Signature over `${timestamp}.${body}` so receivers can reject replays
+   */
+  private sign(secret: string, timestamp: number, body: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  private async deliver(endpoint: WebhookEndpoint, payload: WebhookPayload): Promise<DeliveryResult> {
+    const body = JSON.stringify(payload);
+    const timestamp = Date.now();
+
+    try {
+      // Re-checked per delivery: the host may resolve differently than when it was saved
+      await assertPublicUrl(endpoint.url);
+      const response = await axios.post(endpoint.url, body, {
+        timeout: config.webhooks.timeoutMs,
+        httpAgent: publicHttpAgent,
+        httpsAgent: publicHttpsAgent,
+        maxRedirects: 0, // A redirect could point at an internal address
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': payload.id,
+          'X-Webhook-Event': payload.type,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': `sha256=${this.sign(endpoint.secret, timestamp, body)}`,
+        },
+        validateStatus: () => true,
+      });
+
+      if (response.status >= 200 && response.status < 300) {
+        return { success: true, status: response.status };
+      }
+      return { success: false, status: response.status, error: `HTTP ${response.status}` };
+    } catch (error: any) {
+      return { success: false, error: error.message || String(error) };
+    }
+  }
+
+  private async deliverWithRetry(endpoint: WebhookEndpoint, payload: WebhookPayload, attempt: number): Promise<void> {
+    const result = await this.deliver(endpoint, payload);
+    if (result.success) return;
+
+    if (attempt >= config.webhooks.maxAttempts) {
+      console.warn(
+        `[Webhooks] Giving up on ${payload.type} ${payload.id} to endpoint ${endpoint.id} after ${attempt} attempts: ${result.error}`
+      );
+      try {
+        await storeDeadLetter(endpoint, payload, attempt, result.status, result.error);
+      } catch (error: any) {
+        console.error('[Webhooks] Failed to store dead letter:', error.message || error);
+      }
+      return;
+    }
+
+    // Exponential backoff with up to 20% jitter
+    const baseDelay = config.webhooks.retryBaseMs * Math.pow(2, attempt - 1);
+    const delay = baseDelay + Math.random() * baseDelay * 0.2;
+    setTimeout(() => {
+      this.deliverWithRetry(endpoint, payload, attempt + 1).catch((error) => {
+        console.error('[Webhooks] Delivery failed:', error);
+      });
+    }, delay);
+  }
+}
@@ -54,16 +54,16 @@ export class KeyManager {
   }
 
   /**
-   * Encrypt a string value
+   * Encrypt a string value (also used for webhook signing secrets)
    */
-  private encrypt(value: string): string {
+  encrypt(value: string): string {
     return CryptoJS.AES.encrypt(value, this.encryptionKey).toString();
   }
 
   /**
    * Decrypt a string value
    */
-  private decrypt(encryptedValue: string): string {
+  decrypt(encryptedValue: string): string {
     const bytes = CryptoJS.AES.decrypt(encryptedValue, this.encryptionKey);
     return bytes.toString(CryptoJS.enc.Utf8);
   }
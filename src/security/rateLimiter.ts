@@ -1,15 +1,16 @@
 /**
  * Rate Limiter for Exchange API Calls
- * Prevents exceeding exchange rate limits
+ * Prevents exceeding exchange rate limits. Each request counts its weight
+ * (1 unless the exchange weighs endpoints, as Binance does).
  */
 
 interface RateLimitConfig {
-  maxRequests: number;
+  maxRequests: number; // Total weight per window
   windowMs: number;
 }
 
 interface RequestRecord {
-  count: number;
+  count: number; // Weight used in the current window
   resetTime: number;
 }
 
@@ -30,9 +31,9 @@ export class RateLimiter {
   }
 
   /**
-   * Check if request is allowed and record it
+   * Check if request is allowed and record its weight
    */
-  async checkLimit(exchange: string): Promise<boolean> {
+  async checkLimit(exchange: string, weight: number = 1): Promise<boolean> {
     const limit = this.limits.get(exchange);
     if (!limit) {
       return true; // No limit configured
@@ -44,26 +45,25 @@ export class RateLimiter {
     if (!record || now >= record.resetTime) {
       // Reset window
       this.requests.set(exchange, {
-        count: 1,
+        count: weight,
         resetTime: now + limit.windowMs,
       });
       return true;
     }
 
-    if (record.count >= limit.maxRequests) {
+    if (record.count + weight > limit.maxRequests) {
       // Rate limit exceeded
       const waitTime = record.resetTime - now;
       await this.sleep(waitTime);
-      return this.checkLimit(exchange); // Retry after wait
+      return this.checkLimit(exchange, weight); // Retry after wait
     }
 
-    // Increment count
-    record.count++;
+    record.count += weight;
     return true;
   }
 
   /**
-   * Get remaining requests in current window
+   * Get remaining weight in current window
    */
   getRemaining(exchange: string): number {
     const limit = this.limits.get(exchange);
@@ -0,0 +1,97 @@
+/**
+ * URL Guard
+ * Keeps user-supplied URLs (webhooks) from reaching loopback, private, link-local (cloud
+ * metadata) and other non-public addresses. Checked when the URL is saved and again on every
+ * connection, since DNS answers can change after the URL was accepted.
+ */
+
+import dns from 'dns';
+import net from 'net';
+import http from 'http';
+import https from 'https';
+
+const blockedV4 = new net.BlockList();
+[
+  ['0.0.0.0', 8], // "This" network
+  ['10.0.0.0', 8], // RFC1918
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8], // Loopback
+  ['169.254.0.0', 16], // Link-local, including 169.254.169.254 metadata
+  ['172.16.0.0', 12], // RFC1918
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // RFC1918
+  ['198.18.0.0', 15], // Benchmarking
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4], // Reserved and broadcast
+].forEach(([address, prefix]) => blockedV4.addSubnet(address as string, prefix as number, 'ipv4'));
+
+const blockedV6 = new net.BlockList();
+[
+  ['::', 128], // Unspecified
+  ['::1', 128], // Loopback
+  ['fc00::', 7], // Unique local, including fd00:ec2::254 metadata
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8], // Multicast
+].forEach(([address, prefix]) => blockedV6.addSubnet(address as string, prefix as number, 'ipv6'));
+
+/**
+ * Whether an IP address is outside the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 4) return blockedV4.check(address, 'ipv4');
+  if (family !== 6) return true;
+
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses reach the embedded IPv4 host
+  const embedded = address.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/i);
+  if (embedded) return blockedV4.check(embedded[1], 'ipv4');
+  const mapped = address.match(/^(?:::ffff:|64:ff9b::)([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+  if (mapped) {
+    const high = parseInt(mapped[1], 16);
+    const low = parseInt(mapped[2], 16);
+    return blockedV4.check(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`, 'ipv4');
+  }
+  return blockedV6.check(address, 'ipv6');
+}
+
+/**
+ * Throw unless `url` is http(s) and its host resolves only to public addresses
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const parsed = new URL(url);
+  if (!['http:', 'https:'].includes(parsed.protocol)) {
+    throw new Error('URL must use http or https');
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(host) ? [host] : (await dns.promises.lookup(host, { all: true })).map((a) => a.address);
+  const blocked = addresses.find(isPrivateAddress);
+  if (blocked) {
+    throw new Error(`URL host ${parsed.hostname} resolves to a non-public address (${blocked})`);
+  }
+}
+
+/**
+ * dns.lookup that fails for non-public answers, so the address actually connected to is checked
+ */
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+    const list = addresses as dns.LookupAddress[];
+    if (list.length === 0) return callback(new Error(`${hostname} has no addresses`), '', 0);
+    const blocked = list.find((a) => isPrivateAddress(a.address));
+    if (blocked) {
+      return callback(new Error(`${hostname} resolves to a non-public address (${blocked.address})`), '', 0);
+    }
+    if ((options as dns.LookupOptions).all) {
+      return (callback as any)(null, list);
+    }
+    callback(null, list[0].address, list[0].family);
+  });
+};
+
+/**
+ * Agents for outbound requests to user-supplied URLs
+ */
+export const publicHttpAgent = new http.Agent({ lookup: guardedLookup });
+export const publicHttpsAgent = new https.Agent({ lookup: guardedLookup });
@@ -19,6 +19,8 @@ export interface RawPosition {
   entryPrice: number;
   markPrice: number;
   leverage?: number;
+  liquidationPrice?: number;
+  marginMode?: MarginMode;
   [key: string]: any; // Exchange-specific fields
 }
 
@@ -56,6 +58,8 @@ export interface UnifiedBalance {
   exchange: string;
   timestamp: number;
   accountType?: 'spot' | 'futures';
+  priceSource?: string; // e.g. 'binance:BTCUSDT', 'binance:ETHBTC*BTCUSDT', 'stablecoin'
+  priceAge?: number; // Milliseconds since the price was fetched
 }
 
 export interface UnifiedPosition {
@@ -66,10 +70,14 @@ export interface UnifiedPosition {
   markPrice: number;
   unrealizedPnl: number;
   leverage: number;
+  liquidationPrice?: number; // As reported by the exchange (undefined if unknown or none)
+  marginMode?: MarginMode;
   exchange: string;
   timestamp: number;
 }
 
+export type MarginMode = 'cross' | 'isolated';
+
 export interface UnifiedOrder {
   symbol: string;
   side: 'buy' | 'sell';
@@ -79,6 +87,11 @@ export interface UnifiedOrder {
   timestamp: number;
   exchange: string;
   orderId: string;
+  type?: string;
+  filledQuantity?: number;
+  averagePrice?: number;
+  clientOrderId?: string;
+  market?: 'spot' | 'futures';
 }
 
 export interface UnifiedTrade {
@@ -91,6 +104,9 @@ export interface UnifiedTrade {
   timestamp: number;
   exchange: string;
   tradeId: string;
+  orderId?: string;
+  feeAsset?: string;
+  market?: 'spot' | 'futures';
 }
 
 // ==================== Exchange Connector Interface ====================
@@ -108,6 +124,11 @@ export interface ExchangeConnector {
    */
   readonly exchangeName: string;
 
+  /**
+   * Connection health (fed by REST results, WebSocket lifecycle and listen-key calls)
+   */
+  readonly health: HealthTracker;
+
   /**
    * Fetch current balances from exchange
    */
@@ -128,6 +149,11 @@ export interface ExchangeConnector {
    */
   fetchTradeHistory(startTime: number, endTime: number): Promise<RawTrade[]>;
 
+  /**
+   * Fetch last spot prices keyed by unified symbol (e.g. BTCUSDT)
+   */
+  fetchTickerPrices(): Promise<Record<string, number>>;
+
   /**
    * Subscribe to real-time updates via WebSocket
    */
@@ -144,6 +170,129 @@ export interface ExchangeConnector {
   testConnection(): Promise<boolean>;
 }
 
+// ==================== Connector Health ====================
+
+export type ConnectionHealthState = 'healthy' | 'degraded' | 'down';
+
+export type HealthSource = 'rest' | 'websocket' | 'listenKey';
+
+export interface ConnectorHealthStatus {
+  exchange: string;
+  state: ConnectionHealthState;
+  since: number; // When the current state was entered
+  consecutiveFailures: Record<HealthSource, number>;
+  lastError?: string;
+  lastErrorAt?: number;
+  lastSuccessAt?: number;
+}
+
+export interface HealthTracker {
+  recordSuccess(source: HealthSource): void;
+  recordFailure(source: HealthSource, error: string): void;
+  getStatus(): ConnectorHealthStatus;
+  onChange(callback: (status: ConnectorHealthStatus, previous: ConnectionHealthState) => void): void;
+  /**
+   * Delay before the next reconnect attempt (exponential in consecutive failures)
+   */
+  reconnectDelay(): number;
+}
+
+// ==================== Connector Capabilities ====================
+
+export interface ConnectorCapabilities {
+  spot: boolean; // Spot account assets and spot order/trade history
+  futures: boolean; // Futures account assets and futures order/trade history
+  userStream: boolean; // Pushes private account/order updates over WebSocket
+  income: boolean; // Futures income / transaction log
+  listenKey: boolean; // User data stream managed through an explicit listen key
+  funding: boolean; // Perpetual funding rates
+  symbolRules: boolean; // Per-symbol trading rules (tick/lot size, min notional) and the symbol list
+  accountTrades: boolean; // Fills across all symbols of a market in one query
+}
+
+/**
+ * Exchange trading rules for one symbol (quantities in base units; undefined = no limit)
+ */
+export interface SymbolRules {
+  exchange: string;
+  symbol: string;
+  market: 'spot' | 'futures';
+  baseAsset: string;
+  quoteAsset: string;
+  trading: boolean;
+  tickSize: number;
+  minPrice?: number;
+  maxPrice?: number;
+  stepSize: number;
+  minQuantity: number;
+  maxQuantity?: number;
+  marketMinQuantity?: number; // Market orders, when the exchange limits them separately
+  marketMaxQuantity?: number;
+  minNotional?: number;
+  minNotionalAppliesToMarket: boolean;
+  maxNotional?: number;
+  maxPosition?: number; // Max base holdings (Binance spot MAX_POSITION)
+}
+
+export interface AccountAsset {
+  asset: string;
+  walletBalance: number;
+  unrealizedPnl: number;
+  marginBalance: number;
+  availableBalance: number;
+}
+
+export interface IncomeRecord {
+  time: number;
+  exchange: string;
+  type: string;
+  asset: string;
+  amount: number;
+  status: string;
+  symbol?: string;
+  txid?: string;
+}
+
+export interface HistoryApi {
+  fetchOrderHistory(symbol: string, market: 'spot' | 'futures', limit?: number): Promise<RawOrder[]>;
+  fetchTradesBySymbol(symbol: string, market: 'spot' | 'futures', limit?: number): Promise<RawTrade[]>;
+  /**
+   * All fills for a symbol in [startTime, endTime] (splits windows and paginates within exchange limits)
+   */
+  fetchTradesInRange(symbol: string, market: 'spot' | 'futures', startTime: number, endTime: number): Promise<RawTrade[]>;
+}
+
+/**
+ * Methods a connector must implement for each capability it declares
+ */
+export interface CapabilityApi {
+  spot: HistoryApi & { fetchSpotAssets(): Promise<AccountAsset[]> };
+  futures: HistoryApi & { fetchFuturesAssets(): Promise<AccountAsset[]> };
+  userStream: {};
+  income: { fetchFuturesIncome(limit?: number): Promise<IncomeRecord[]> };
+  funding: { fetchFundingRates(symbols?: string[]): Promise<Record<string, number>> };
+  symbolRules: {
+    fetchSymbolRules(symbol: string, market: 'spot' | 'futures'): Promise<SymbolRules | null>;
+    /**
+     * Every symbol listed on a market, including halted ones (unified format, e.g. BTCUSDT)
+     */
+    fetchSymbols(market: 'spot' | 'futures'): Promise<string[]>;
+  };
+  accountTrades: {
+    /**
+     * All fills of a market in [startTime, endTime], whatever the symbol
+     */
+    fetchAccountTradesInRange(market: 'spot' | 'futures', startTime: number, endTime: number): Promise<RawTrade[]>;
+  };
+  listenKey: {
+    setupSpotUserDataStream(): Promise<void>;
+    getSpotUserDataStreamListenKey(): Promise<string>;
+    getSpotUserDataStreamUrl(listenKey: string): string;
+    keepSpotListenKeyAlive(listenKey: string): Promise<void>;
+    closeSpotUserDataStream(listenKey: string): Promise<void>;
+  };
+}
+
 // ==================== Portfolio Aggregation Types ====================
 
 export interface PortfolioSnapshot {
@@ -155,6 +304,21 @@ export interface PortfolioSnapshot {
   positions: UnifiedPosition[];
   balances: UnifiedBalance[];
   change24h?: number; // Percentage change from 24h ago
+  changes?: Partial<Record<ChangeWindow, EquityChange>>;
+  partial?: boolean; // Some exchange failed to fetch; not persisted or used as a reference
+}
+
+export type ChangeWindow = '1h' | '24h' | '7d' | '30d';
+
+export interface EquityChange {
+  percent: number;
+  usd: number;
+  referenceTimestamp: number; // Snapshot the change is measured against
+}
+
+export interface EquityReference {
+  timestamp: number;
+  totalNetEquity: number;
 }
 
 export interface AssetAllocation {
@@ -173,19 +337,194 @@ export interface ExchangeAllocation {
   percentage: number;
 }
 
+export type HistoryInterval = '1m' | '1h' | '1d';
+
+export interface EquityPoint {
+  timestamp: number; // Bucket start
+  totalNetEquity: number; // USD, last snapshot in bucket
+  totalUnrealizedPnl: number; // USD, last snapshot in bucket
+}
+
 // ==================== Alert Types ====================
 
 export interface AlertEvent {
-  type: 'large_balance_change' | 'large_position_opening' | 'rapid_drawdown' | 'connection_lost';
+  type:
+    | 'large_balance_change'
+    | 'large_position_opening'
+    | 'rapid_drawdown'
+    | 'connection_lost'
+    | 'connection_restored'
+    | 'trading_halted'
+    | 'trading_resumed'
+    | AlertRuleType;
   severity: 'info' | 'warning' | 'critical';
   message: string;
   exchange?: string;
+  userId?: number; // Owning user; alerts are only delivered to this user
   timestamp: number;
   data?: any;
+  id?: number; // Set once persisted
+  acknowledgedAt?: number;
+  resolvedAt?: number;
+}
+
+export interface AlertQuery {
+  severity?: AlertEvent['severity'];
+  type?: string;
+  exchange?: string;
+  from?: number;
+  to?: number;
+  acknowledged?: boolean;
+  limit?: number;
 }
 
 export type AlertCallback = (alert: AlertEvent) => void;
 
+export type AlertRuleType =
+  | 'price_cross' // symbol price crosses threshold (direction: above | below)
+  | 'allocation_above' // asset share of net equity above threshold (%)
+  | 'position_pnl_below' // position unrealized PnL below threshold (USD)
+  | 'leverage_above' // position leverage above threshold
+  | 'balance_below' // asset balance on an exchange below threshold (USD value, or units with unit: 'quantity')
+  | 'funding_rate_spike'; // |funding rate| of a perpetual at or above threshold (e.g. 0.001 = 0.1%)
+
+export interface AlertRuleParams {
+  threshold: number;
+  symbol?: string; // price_cross, position_pnl_below, leverage_above, funding_rate_spike
+  asset?: string; // allocation_above, balance_below
+  exchange?: string; // Restrict to one exchange (required for balance_below)
+  direction?: 'above' | 'below'; // price_cross
+  unit?: 'usd' | 'quantity'; // balance_below
+}
+
+export interface AlertRule {
+  id: number;
+  userId: number;
+  type: AlertRuleType;
+  params: AlertRuleParams;
+  severity: AlertEvent['severity'];
+  cooldownMs: number;
+  enabled: boolean;
+  lastTriggeredAt?: number;
+  createdAt: number;
+}
+
+// ==================== PnL Types ====================
+
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average';
+
+export interface LotDisposal {
+  quantity: number;
+  acquiredAt: number; // Average cost consumes lots oldest first, so holding periods stay per lot
+  costBasis: number; // Includes the acquisition fee
+  acquisitionFee: number;
+}
+
+export interface RealizedTrade {
+  tradeId: string;
+  exchange: string;
+  symbol: string;
+  asset: string;
+  quote: string; // Reporting currency ('USD') all amounts are in
+  timestamp: number;
+  quantity: number; // Of `asset`, the quote asset for a cross-pair buy (e.g. BTC for ETHBTC)
+  price: number; // USD per unit of `asset`
+  proceeds: number;
+  costBasis: number;
+  fee: number; // USD
+  feeEstimated: boolean; // Fee asset priced from current rather than historical prices
+  priceEstimated: boolean; // Non-USD quote priced from current rather than historical prices
+  realizedPnl: number;
+  unmatchedQuantity: number; // Sold without a known buy (missing history); excluded from PnL
+  lots: LotDisposal[]; // Lots consumed by this sale
+}
+
+export interface CostBasisEntry {
+  exchange: string;
+  asset: string;
+  quote: string; // Reporting currency ('USD')
+  quantity: number;
+  costBasis: number;
+  averageCost: number;
+  openLots: number;
+  realizedPnl: number;
+}
+
+// ==================== Backfill Types ====================
+
+export type BackfillStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface BackfillTarget {
+  symbol: string;
+  market: 'spot' | 'futures';
+}
+
+export interface BackfillCursor {
+  targetIndex: number; // Index into targets currently being imported
+  windowStart: number; // Next window to fetch for that target
+}
+
+export interface BackfillJob {
+  id: number;
+  userId: number;
+  exchange: string;
+  status: BackfillStatus;
+  targets: BackfillTarget[];
+  startTime: number;
+  endTime: number;
+  cursor: BackfillCursor;
+  tradesImported: number;
+  progress: number; // 0-1, derived from the cursor
+  skipped: Array<BackfillTarget & { error: string }>; // Targets the exchange rejected (e.g. unknown symbol)
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// ==================== Webhook Types ====================
+
+export type WebhookEventType = 'alert' | 'order' | 'trade';
+
+export interface WebhookEndpoint {
+  id: number;
+  userId: number;
+  url: string;
+  secret: string; // HMAC-SHA256 signing secret (stored encrypted)
+  events: WebhookEventType[];
+  severities?: AlertEvent['severity'][]; // Alert filter (all if empty)
+  orderStatuses?: string[]; // Order status filter, e.g. ['FILLED', 'CANCELED'] (all if empty)
+  enabled: boolean;
+  createdAt: number;
+}
+
+export interface WebhookPayload {
+  id: string; // Unique per event; receivers can de-duplicate retries
+  type: WebhookEventType | 'test';
+  userId: number;
+  timestamp: number;
+  data: any;
+}
+
+// ==================== Notification Types ====================
+
+export type NotificationChannelType = 'email';
+
+export interface NotificationChannelSettings {
+  userId: number;
+  channel: NotificationChannelType;
+  target: string; // Email address
+  enabled: boolean;
+  digestEnabled: boolean; // Batch non-critical alerts into a periodic digest (critical are always sent immediately)
+  updatedAt: number;
+}
+
+export interface NotificationMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
 // ==================== API Key Management ====================
 
 export interface ExchangeCredentials {
@@ -214,6 +553,7 @@ export interface OrderParams {
   price?: number;
   market?: 'spot' | 'futures';
   leverage?: number;
+  marginMode?: MarginMode; // Futures only; unset keeps the symbol's current mode
   reduceOnly?: boolean;
   timeInForce?: 'GTC' | 'IOC' | 'FOK';
   stopPrice?: number;
@@ -246,9 +586,27 @@ export interface TradeFill {
   feeAsset: string;
   timestamp: number;
   exchange: string;
+  market?: 'spot' | 'futures'; // Unknown for trades stored before the column existed
+}
+
+export interface OrderBookLevel {
+  price: number;
+  quantity: number; // Base units
+}
+
+export interface OrderBook {
+  symbol: string;
+  bids: OrderBookLevel[]; // Best (highest) first
+  asks: OrderBookLevel[]; // Best (lowest) first
+  timestamp: number;
 }
 
 export interface TradingConnector {
+  /**
+   * Fetch the top of the order book (public endpoint)
+   */
+  fetchOrderBook(symbol: string, market: 'spot' | 'futures', depth?: number): Promise<OrderBook>;
+
   /**
    * Place a new order
    */
@@ -279,6 +637,22 @@ export interface RiskCheckResult {
   allowed: boolean;
   reason?: string;
   warnings?: string[];
+  estimatedPrice?: number; // Expected average fill price (market orders)
+  referencePrice?: number; // Mid price the estimate is measured against
+  slippage?: number; // (estimatedPrice - referencePrice) / referencePrice, signed against the order side
+  adjustedOrder?: OrderParams; // Order after rounding to the symbol's tick/step sizes
+  liquidationPrice?: number; // Estimated for the resulting futures position
+  liquidationDistance?: number; // |reference - liquidation| / reference
+}
+
+/**
+ * Expected fill for a market order, from order-book depth or a ticker price
+ */
+export interface FillEstimate {
+  price: number;
+  referencePrice: number;
+  source: 'orderbook' | 'ticker';
+  unfilledQuantity: number; // Quantity beyond the visible depth (priced at the last level)
 }
 
 export interface RiskLimits {
@@ -286,4 +660,36 @@ export interface RiskLimits {
   maxPositionSize: number;
   maxDrawdown: number; // -0.1 = -10%
   minBalance: number;
+  maxDailyLoss: number; // USD below start-of-day equity that halts trading (0 = disabled; user-wide only)
+  maxLeverage: number; // Futures leverage cap
+  minLiquidationDistance: number; // 0.1 = liquidation must be at least 10% from the price (0 = disabled)
+}
+
+export interface KillSwitchState {
+  halted: boolean;
+  source?: 'manual' | 'daily_loss';
+  reason?: string;
+  haltedAt?: number;
+  cancelOrdersOnHalt: boolean; // Cancel every open order when the daily loss limit trips
+  dayStart?: number; // UTC day dailyPnl belongs to
+  dailyPnl?: number; // USD mark-to-market PnL since the day start (or the last reset that day)
+}
+
+/**
+ * Holdings the kill switch marks daily PnL against (persisted so a restart keeps them)
+ */
+export interface DailyPnlMarks {
+  holdings: Record<string, { quantity: number; price: number }>; // USD price; signed quantity for positions
+  markedFrom: number; // First marked snapshot; funding before it isn't counted
+  fundingCountedTo: Record<string, number>; // Exchange -> time of the last funding payment counted
+}
+
+/**
+ * A user's override of some limits, scoped to all exchanges, one exchange, one symbol or both
+ * (more specific scopes win; unset fields inherit)
+ */
+export interface RiskLimitEntry extends Partial<RiskLimits> {
+  exchange?: string;
+  symbol?: string;
+  updatedAt?: number;
 }